@@ -2,6 +2,7 @@ import React from "react";
 import { fireEvent, render, screen, waitFor, within } from "@testing-library/react";
 import App from "./App";
 import { jobStorageKey } from "./storage";
+import { TAX_YEARS } from "./tax";
 
 type MockFile = File & { __dataUrl?: string; __text?: string };
 
@@ -209,6 +210,52 @@ test("export data triggers download", () => {
   expect(revokeSpy).toHaveBeenCalled();
 });
 
+/**
+ * The text of each file downloaded while `act` runs, with the download itself
+ * stubbed out. jsdom's Blob cannot be read back, so its parts are kept as written.
+ */
+const captureDownload = (act: () => void): string[] => {
+  (URL as any).createObjectURL ??= () => "blob:export";
+  (URL as any).revokeObjectURL ??= () => {};
+  jest.spyOn(URL, "createObjectURL").mockReturnValue("blob:export");
+  jest.spyOn(URL, "revokeObjectURL").mockImplementation(() => {});
+  jest.spyOn(HTMLAnchorElement.prototype, "click").mockImplementation(() => {});
+  const written: string[] = [];
+  const RealBlob = Blob;
+  (global as any).Blob = class extends RealBlob {
+    constructor(parts: BlobPart[], options?: BlobPropertyBag) {
+      super(parts, options);
+      written.push(parts.join(""));
+    }
+  };
+  try {
+    act();
+  } finally {
+    (global as any).Blob = RealBlob;
+  }
+  return written;
+};
+
+test("CSV export covers every job's pay periods in the range", () => {
+  seedTwoJobs();
+  render(<App />);
+
+  fireEvent.change(screen.getByLabelText("Table"), { target: { value: "periods" } });
+  fireEvent.change(screen.getByLabelText("Export From"), { target: { value: "2026-01-01" } });
+  fireEvent.change(screen.getByLabelText("Number Format"), { target: { value: "fr-CA" } });
+  fireEvent.click(screen.getByLabelText("All jobs, with a job column"));
+  const written = captureDownload(() => fireEvent.click(screen.getByRole("button", { name: "Export CSV" })));
+
+  const rows = written[0].replace(/^\ufeff/, "").trimEnd().split("\r\n");
+  expect(rows[0]).toBe("Job;Pay Date;First Day;Last Day;Hours;Overtime Hours;Gross;Income Tax;EI;CPP/QPP;QPIP;Deductions;Reimbursement;Net");
+  // 8h at $20 and at $30, each plus 4% vacation pay
+  expect(rows.slice(1).map(r => r.split(";").slice(0, 2).concat(r.split(";")[6]))).toEqual([
+    ["Cafe", "2026-01-14", "166,40"],
+    ["Studio", "2026-01-14", "249,60"],
+  ]);
+  expect(screen.getByText("Exported CSV")).toBeInTheDocument();
+});
+
 test("import data shows notification", async () => {
   render(<App />);
   const payload = {
@@ -231,6 +278,107 @@ test("import data shows notification", async () => {
   });
 });
 
+test("the employer survives an export and import of all jobs", async () => {
+  seedTwoJobs();
+  localStorage.setItem("w2b_jobs", JSON.stringify([
+    { id: "cafe", name: "Cafe", employer: "Bean Co." },
+    { id: "studio", name: "Studio" },
+  ]));
+  render(<App />);
+  const importInput = screen.getByLabelText("Import Data");
+  const written = captureDownload(() => {
+    fireEvent.click(screen.getByText("Export Data"));
+    fireEvent.click(screen.getByText("Export All Jobs"));
+  });
+  expect(JSON.parse(written[0]).employer).toBe("Bean Co.");
+
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  const file = new File([written[1]], "all.json", { type: "application/json" }) as MockFile;
+  file.__text = written[1];
+  fireEvent.change(importInput, { target: { files: [file] } });
+
+  await screen.findByText("Imported all jobs");
+  expect(JSON.parse(localStorage.getItem("w2b_jobs")!)).toEqual([
+    { id: "cafe", name: "Cafe", employer: "Bean Co." },
+    { id: "studio", name: "Studio" },
+  ]);
+}, 30000);
+
+test("a timesheet CSV is previewed, then its good rows go into the chosen job", async () => {
+  seedTwoJobs();
+  render(<App />);
+  const csv = "Date,Clock In,Clock Out,Unpaid Break\n01/05/2026,9:00 AM,5:30 PM,30\n01/06/2026,9:00 AM,,\n";
+  const file = new File([csv], "punches.csv", { type: "text/csv" }) as MockFile;
+  file.__text = csv;
+  fireEvent.change(screen.getByLabelText("Choose CSV File"), { target: { files: [file] } });
+
+  await screen.findByText("Needs both a start and an end");
+  const preview = screen.getByLabelText("Timesheet Preview");
+  expect(within(preview).getByText("2026-01-05")).toBeInTheDocument();
+  expect(within(preview).getByText("8.00")).toBeInTheDocument();
+  expect(screen.getByLabelText("Date Format")).toHaveValue("MM/DD/YYYY");
+  expect(screen.getByLabelText("Break Column")).toHaveValue("3");
+
+  fireEvent.change(screen.getByLabelText("Into Job"), { target: { value: "studio" } });
+  fireEvent.click(screen.getByText("Import Rows (1/2)"));
+
+  expect(screen.getByText("Imported timesheet")).toBeInTheDocument();
+  expect(screen.queryByLabelText("Timesheet Preview")).not.toBeInTheDocument();
+  const studioDays = JSON.parse(localStorage.getItem(jobStorageKey("studio", "dayHours")) || "[]");
+  expect(studioDays).toContainEqual({
+    date: "2026-01-05",
+    shifts: [{ start: "09:00", end: "17:30", lunchMinutes: 30 }],
+    hours: 8,
+  });
+}, 30000);
+
+test("a schedule calendar is imported as shifts in the chosen job's time zone", async () => {
+  seedTwoJobs();
+  localStorage.setItem(jobStorageKey("studio", "timeZone"), "America/Vancouver");
+  render(<App />);
+  expect(screen.getByLabelText("Time Zone")).toHaveValue("America/Toronto");
+
+  const ics = "BEGIN:VCALENDAR\r\nBEGIN:VEVENT\r\nDTSTART:20260105T170000Z\r\nDTEND:20260106T010000Z\r\nEND:VEVENT\r\nEND:VCALENDAR\r\n";
+  const file = new File([ics], "schedule.ics", { type: "text/calendar" }) as MockFile;
+  file.__text = ics;
+  fireEvent.change(screen.getByLabelText("Import Into Job"), { target: { value: "studio" } });
+  fireEvent.change(screen.getByLabelText("Import Calendar"), { target: { files: [file] } });
+
+  // previewed first, with the times already in Vancouver
+  const importButton = await screen.findByText("Import Shifts (1/1)");
+  expect(within(screen.getByLabelText("Calendar Preview")).getByText("09:00")).toBeInTheDocument();
+  fireEvent.click(importButton);
+
+  expect(await screen.findByText("Shifts imported: 1")).toBeInTheDocument();
+  const studioDays = JSON.parse(localStorage.getItem(jobStorageKey("studio", "dayHours")) || "[]");
+  expect(studioDays).toContainEqual({ date: "2026-01-05", shifts: [{ start: "09:00", end: "17:00", lunchMinutes: 0 }], hours: 8 });
+}, 30000);
+
+test("a repeating calendar event is shown in the preview but not imported", async () => {
+  seedTwoJobs();
+  render(<App />);
+
+  const ics = [
+    "BEGIN:VCALENDAR",
+    "BEGIN:VEVENT", "DTSTART:20260105T090000", "DTEND:20260105T170000", "RRULE:FREQ=WEEKLY", "END:VEVENT",
+    "BEGIN:VEVENT", "DTSTART:20260106T090000", "DTEND:20260106T170000", "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+  const file = new File([ics], "schedule.ics", { type: "text/calendar" }) as MockFile;
+  file.__text = ics;
+  fireEvent.change(screen.getByLabelText("Import Calendar"), { target: { files: [file] } });
+
+  await screen.findByText("Repeating event: not imported");
+  const preview = within(screen.getByLabelText("Calendar Preview"));
+  expect(preview.getByText("2026-01-05")).toBeInTheDocument();
+  fireEvent.click(screen.getByText("Import Shifts (1/2)"));
+
+  expect(await screen.findByText("Shifts imported: 1")).toBeInTheDocument();
+  const cafeDays = JSON.parse(localStorage.getItem(jobStorageKey("cafe", "dayHours")) || "[]");
+  expect(cafeDays.map((d: { date: string }) => d.date)).toContain("2026-01-06");
+  expect(cafeDays.map((d: { date: string }) => d.date)).not.toContain("2026-01-05");
+}, 30000);
+
 test("app does not crash if localStorage is full", () => {
   const setItemSpy = jest.spyOn(Storage.prototype, "setItem").mockImplementation(() => {
     throw new DOMException("QuotaExceededError", "QuotaExceededError");
@@ -294,6 +442,28 @@ test("shows the combined after-tax total across jobs", () => {
   expect(table.getByText("16.00")).toBeInTheDocument();   // 8h + 8h
 });
 
+test("totals each year's CPP and EI across employers against the maximums", () => {
+  seedTwoJobs();
+  render(<App />);
+
+  expect(screen.getByText("CPP & EI Across Employers")).toBeInTheDocument();
+  // CPP withheld against its maximum, and nothing to refund this far from it
+  expect(screen.getByRole("row", { name: /^2026 .*max \$4230\.45.*\$0\.00$/ })).toBeInTheDocument();
+});
+
+test("a date of birth under 18 takes CPP off every cheque; CPT30 is kept per job", () => {
+  seedTwoJobs();
+  render(<App />);
+
+  fireEvent.change(screen.getByLabelText("Date of Birth"), { target: { value: "2010-01-01" } });
+
+  expect(screen.getByRole("row", { name: /^2026 .*max \$0\.00.*\$0\.00$/ })).toBeInTheDocument();
+  expect(JSON.parse(localStorage.getItem("w2b_profile")!)).toEqual({ birthDate: "2010-01-01", province: "ON" });
+
+  fireEvent.click(screen.getByLabelText("CPT30 filed: no CPP after 65"));
+  expect(localStorage.getItem(jobStorageKey("cafe", "cpt30"))).toBe("true");
+}, 30000);
+
 test("combining jobs counts every job toward the buy-list progress", () => {
   seedTwoJobs();
   render(<App />);
@@ -341,6 +511,27 @@ test("editing the rate of one job leaves the other job's earnings alone", () =>
   expect(table.getByText("$238.69")).toBeInTheDocument(); // Studio, untouched
 });
 
+test("a raise prices only the days from its effective date", () => {
+  seedTwoJobs();
+  localStorage.setItem(jobStorageKey("cafe", "dayHours"), JSON.stringify([
+    { date: "2026-01-02", hours: 8 },
+    { date: "2026-01-12", hours: 8 },
+  ]));
+  render(<App />);
+
+  fireEvent.change(screen.getByLabelText("New Rate"), { target: { value: "22" } });
+  fireEvent.change(screen.getByLabelText("Effective From"), { target: { value: "2026-01-10" } });
+  fireEvent.click(screen.getByRole("button", { name: "Add Rate Change" }));
+
+  expect(rateInput().value).toBe("22");
+  expect(within(allJobsTable()).getByText("$20.00 → $22.00")).toBeInTheDocument();
+  expect(within(screen.getByRole("list", { name: "Rate history" })).getByText(/2026-01-10 · \$22\.00\/h/)).toBeInTheDocument();
+  expect(JSON.parse(localStorage.getItem(jobStorageKey("cafe", "rateHistory"))!)).toEqual([
+    { date: "2026-01-01", rate: 20 },
+    { date: "2026-01-10", rate: 22 },
+  ]);
+});
+
 test("the all-jobs table keeps the columns its responsive styles target", () => {
   seedTwoJobs();
   render(<App />);
@@ -385,6 +576,37 @@ test("taxable items are charged 13% HST on top of their price", () => {
   expect(screen.getByText("14.32%")).toBeInTheDocument();
 });
 
+test("sales tax follows the job's province", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  localStorage.setItem(jobStorageKey("cafe", "items"), JSON.stringify([
+    { id: 1, name: "Laptop", price: 1000, taxable: true, enabled: true },
+  ]));
+  render(<App />);
+
+  fireEvent.change(screen.getByLabelText("Province"), { target: { value: "AB" } });
+
+  // $1,000 + 5% GST = $1,050; $161.80 is under the Alberta BPA too
+  expect(screen.getByText("15.41%")).toBeInTheDocument();
+  expect(localStorage.getItem(jobStorageKey("cafe", "province"))).toBe("AB");
+});
+
+test("a Quebec job shows QPP and a QPIP column", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  render(<App />);
+
+  expect(screen.queryByText("QPIP")).not.toBeInTheDocument();
+  fireEvent.change(screen.getByLabelText("Province"), { target: { value: "QC" } });
+
+  expect(screen.getAllByText("QPIP")).toHaveLength(2);
+  expect(screen.getAllByText("QPP")).toHaveLength(2);
+  // $166.40 at 0.43%
+  expect(screen.getAllByText("$0.72").length).toBeGreaterThan(0);
+});
+
 test("items marked non-taxable carry no sales tax", () => {
   localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
   localStorage.setItem("w2b_activeJob", "cafe");
@@ -397,3 +619,408 @@ test("items marked non-taxable carry no sales tax", () => {
   // no HST, so $161.80 of a flat $1,000 goal
   expect(screen.getByText("16.18%")).toBeInTheDocument();
 });
+
+/* ---------------- per-job overtime policy ---------------- */
+
+test("a daily overtime threshold shows up in the period summary", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 10);
+  render(<App />);
+
+  expect(screen.queryByText("$60.00")).not.toBeInTheDocument();
+
+  fireEvent.change(screen.getByLabelText("Daily OT After (h)"), { target: { value: "8" } });
+
+  // 2h past 8 at 1.5x; vacation pay has its own column
+  expect(screen.getByText("$60.00")).toBeInTheDocument();
+  expect(JSON.parse(localStorage.getItem(jobStorageKey("cafe", "overtime"))!).dailyThreshold).toBe(8);
+});
+
+test("a weekly job gets a weekly summary, one row per week", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  const stored = JSON.parse(localStorage.getItem(jobStorageKey("cafe", "dayHours"))!);
+  localStorage.setItem(jobStorageKey("cafe", "dayHours"), JSON.stringify([...stored, { date: "2026-01-09", hours: 8 }]));
+  render(<App />);
+
+  expect(screen.getByText("Bi-weekly Summary")).toBeInTheDocument();
+  fireEvent.change(screen.getByLabelText("Pay Cycle"), { target: { value: "weekly" } });
+
+  expect(screen.getByText("Weekly Summary")).toBeInTheDocument();
+  expect(screen.getByText("2026-01-02 ~ 2026-01-02")).toBeInTheDocument();
+  expect(screen.getByText("2026-01-09 ~ 2026-01-09")).toBeInTheDocument();
+  expect(localStorage.getItem(jobStorageKey("cafe", "payCycle"))).toBe("weekly");
+});
+
+test("semi-monthly periods follow the job's anchor days and pay date", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  render(<App />);
+
+  expect(screen.queryByLabelText("Period Starts On Day")).not.toBeInTheDocument();
+  fireEvent.change(screen.getByLabelText("Pay Cycle"), { target: { value: "semi-monthly" } });
+  fireEvent.change(screen.getByLabelText("Period Starts On Day"), { target: { value: "10" } });
+  fireEvent.change(screen.getByLabelText("Second Period Starts On Day"), { target: { value: "25" } });
+  expect(screen.getByText("2025-12-25 ~ 2026-01-09")).toBeInTheDocument();
+  expect(screen.queryByRole("columnheader", { name: "Pay Date" })).not.toBeInTheDocument();
+
+  fireEvent.change(screen.getByLabelText("Paid Days After Period Ends"), { target: { value: "5" } });
+  expect(screen.getByRole("columnheader", { name: "Pay Date" })).toBeInTheDocument();
+  expect(screen.getByRole("cell", { name: "2026-01-14" })).toBeInTheDocument();
+  expect(JSON.parse(localStorage.getItem(jobStorageKey("cafe", "periodAnchors"))!))
+    .toEqual({ startDay: 10, secondStartDay: 25, payDateOffsetDays: 5 });
+});
+
+test("a short paystub is highlighted and counted as underpaid", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  render(<App />);
+
+  expect(screen.getByLabelText("Pay Date")).toHaveValue("2026-01-14");
+  fireEvent.change(screen.getByLabelText("Gross ($)"), { target: { value: "150" } });
+  fireEvent.click(screen.getByRole("button", { name: "Add Paystub" }));
+
+  // 8h at $20 plus 4% vacation pay is $166.40
+  const table = screen.getByRole("table", { name: "Paystubs" });
+  const gross = within(table).getByRole("cell", { name: /^\$150\.00/ });
+  expect(gross).toHaveClass("paystub-diff");
+  expect(gross).toHaveTextContent("est. $166.40 (−$16.40)");
+  expect(within(table).getAllByText("$16.40")).toHaveLength(2);
+  expect(JSON.parse(localStorage.getItem(jobStorageKey("cafe", "paystubs"))!))
+    .toEqual([{ payDate: "2026-01-14", gross: 150, cpp: null, ei: null, incomeTax: null, net: null }]);
+
+  fireEvent.click(within(table).getByRole("button", { name: "Remove" }));
+  expect(screen.queryByRole("table", { name: "Paystubs" })).not.toBeInTheDocument();
+});
+
+test("a pay period opens as a printable statement with the employer and year to date", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  const printSpy = jest.spyOn(window, "print").mockImplementation(() => {});
+  render(<App />);
+
+  fireEvent.click(screen.getByRole("button", { name: "Statement" }));
+  const statement = screen.getByRole("dialog", { name: "Pay Statement" });
+  expect(within(statement).getByRole("row", { name: "Pay Period 2026-01-01 ~ 2026-01-14" })).toBeInTheDocument();
+  expect(within(statement).getByRole("row", { name: "Regular 8 8" })).toBeInTheDocument();
+  // 8h at $20 plus 4% vacation pay, this cheque and the year so far
+  expect(within(statement).getByRole("row", { name: "Gross Pay $166.40 $166.40" })).toBeInTheDocument();
+
+  fireEvent.change(within(statement).getByLabelText("Employer"), { target: { value: "Bean Co." } });
+  expect(within(statement).getByRole("row", { name: "Employer Bean Co." })).toBeInTheDocument();
+  expect(JSON.parse(localStorage.getItem("w2b_jobs")!)[0].employer).toBe("Bean Co.");
+
+  fireEvent.click(within(statement).getByRole("button", { name: "Print / Save as PDF" }));
+  expect(printSpy).toHaveBeenCalled();
+  fireEvent.click(within(statement).getByRole("button", { name: "Close" }));
+  expect(screen.queryByRole("dialog", { name: "Pay Statement" })).not.toBeInTheDocument();
+  printSpy.mockRestore();
+});
+
+/* ---------------- year-end tax return ---------------- */
+
+test("the Tax Year panel projects the return for each year with pay", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  localStorage.setItem(jobStorageKey("cafe", "startDate"), "2025-12-01");
+  localStorage.setItem(jobStorageKey("cafe", "dayHours"), JSON.stringify([
+    { date: "2025-12-01", hours: 8 },
+    { date: "2026-01-05", hours: 8 },
+    { date: "2026-01-06", hours: 8 },
+  ]));
+  localStorage.setItem(jobStorageKey("cafe", "taxClaims"), JSON.stringify({ federal: null, provincial: null, additionalTax: 10 }));
+  render(<App />);
+
+  const year = screen.getByLabelText("Tax Year") as HTMLSelectElement;
+  expect(year.value).toBe("2026");
+  // two 8h days plus New Year's Day holiday pay from December's wages, each with vacation pay
+  expect(screen.getByRole("row", { name: /Employment Income/ })).toHaveTextContent("$341.45");
+  // nothing owed on that, so the extra $10 withheld comes back
+  expect(screen.getByRole("row", { name: /Projected Refund/ })).toHaveTextContent("$10.00");
+
+  // December's day plus Christmas and Boxing Day holiday pay
+  fireEvent.change(year, { target: { value: "2025" } });
+  expect(screen.getByRole("row", { name: /Employment Income/ })).toHaveTextContent("$183.70");
+});
+
+test("the return is filed in the province of residence, whichever job is open", () => {
+  seedTwoJobs();
+  localStorage.setItem(jobStorageKey("studio", "province"), "AB");
+  render(<App />);
+  const provincialRow = () => screen.getByRole("row", { name: /Provincial Tax/ });
+
+  expect(provincialRow()).toHaveTextContent("Ontario");
+  fireEvent.click(screen.getByRole("button", { name: "Studio" }));
+  expect(provincialRow()).toHaveTextContent("Ontario");
+
+  fireEvent.change(screen.getByLabelText("Province of Residence"), { target: { value: "AB" } });
+  expect(provincialRow()).toHaveTextContent("Alberta");
+  expect(JSON.parse(localStorage.getItem("w2b_profile")!).province).toBe("AB");
+}, 30000);
+
+test("a year without a tax table is flagged until its table is imported", async () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  localStorage.setItem(jobStorageKey("cafe", "startDate"), "2024-06-01");
+  localStorage.setItem(jobStorageKey("cafe", "dayHours"), JSON.stringify([{ date: "2024-06-03", hours: 8 }, { date: "2026-01-02", hours: 8 }]));
+  render(<App />);
+  const warning = "No tax table for 2024: taxes are estimated with the rates of 2025.";
+  expect(screen.getByText(warning)).toBeInTheDocument();
+
+  const upload = (entry: object) => {
+    const text = JSON.stringify([entry]);
+    const file = new File([text], "tax-2024.json", { type: "application/json" }) as MockFile;
+    file.__text = text;
+    fireEvent.change(screen.getByLabelText("Import Tax Tables"), { target: { files: [file] } });
+  };
+  upload({ ...TAX_YEARS[2026], year: 2024, cpp: { ...TAX_YEARS[2026].cpp, rate: 5.95 } });
+  expect(await screen.findByText("2024 cpp.rate: Must be a rate from 0 to 1")).toBeInTheDocument();
+  expect(screen.getByText(warning)).toBeInTheDocument();
+
+  upload({ ...TAX_YEARS[2026], year: 2024 });
+  // the first upload's notification timer may already have cleared this one's message
+  await waitFor(() => expect(screen.queryByText(warning)).not.toBeInTheDocument());
+  expect(screen.queryByText("2024 cpp.rate: Must be a rate from 0 to 1")).not.toBeInTheDocument();
+  expect(JSON.parse(localStorage.getItem("w2b_taxTables") || "[]").map((y: { year: number }) => y.year)).toEqual([2024]);
+}, 30000);
+
+/* ---------------- TD1 claims ---------------- */
+
+test("TD1 additional tax is withheld on every cheque", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  render(<App />);
+
+  expect(screen.getByLabelText("TD1 Federal Claim ($)")).toHaveAttribute("placeholder", "16452");
+  expect(screen.queryByText("$10.00")).not.toBeInTheDocument();
+
+  fireEvent.change(screen.getByLabelText("Additional Tax per Pay ($)"), { target: { value: "10" } });
+
+  expect(screen.getAllByText("$10.00").length).toBeGreaterThan(0);
+  expect(JSON.parse(localStorage.getItem(jobStorageKey("cafe", "taxClaims"))!).additionalTax).toBe(10);
+});
+
+test("a second job claims $0 on both TD1 forms", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  render(<App />);
+
+  fireEvent.click(screen.getByRole("button", { name: "Second job: claim $0" }));
+
+  expect(screen.getByLabelText("TD1 Federal Claim ($)")).toHaveValue(0);
+  expect(JSON.parse(localStorage.getItem(jobStorageKey("cafe", "taxClaims"))!)).toMatchObject({ federal: 0, provincial: 0 });
+});
+
+/* ---------------- vacation pay ---------------- */
+
+test("banked vacation pay builds up until a payout releases it", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  render(<App />);
+
+  fireEvent.change(screen.getByLabelText("Vacation Pay Paid"), { target: { value: "accrue" } });
+  // 8h * $20 * 4%
+  expect(screen.getByText("$6.40")).toBeInTheDocument();
+
+  fireEvent.change(screen.getByLabelText("Payout Date"), { target: { value: "2026-01-09" } });
+  fireEvent.click(screen.getByRole("button", { name: "Add Payout" }));
+
+  expect(screen.getByText("$0.00", { selector: ".vacation-bank" })).toBeInTheDocument();
+  const payouts = JSON.parse(localStorage.getItem(jobStorageKey("cafe", "vacationPayouts"))!);
+  expect(payouts).toEqual([expect.objectContaining({ date: "2026-01-09", amount: null })]);
+});
+
+test("a deduction comes off take-home and shows in the period summary", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  render(<App />);
+
+  expect(screen.queryByRole("columnheader", { name: "Deductions" })).not.toBeInTheDocument();
+  fireEvent.change(screen.getByLabelText("Deduction"), { target: { value: "Parking" } });
+  fireEvent.change(screen.getByLabelText("Amount"), { target: { value: "10" } });
+  fireEvent.click(screen.getByLabelText("Pre-tax"));
+  fireEvent.click(screen.getByRole("button", { name: "Add Deduction" }));
+
+  expect(screen.getByRole("columnheader", { name: "Deductions" })).toBeInTheDocument();
+  expect(screen.getByText("Parking · $10.00 · after tax")).toBeInTheDocument();
+  // $161.80 take-home less the $10 post-tax deduction
+  expect(screen.getAllByText("$151.80").length).toBeGreaterThan(0);
+  const stored = JSON.parse(localStorage.getItem(jobStorageKey("cafe", "deductions"))!);
+  expect(stored).toEqual([expect.objectContaining({ name: "Parking", kind: "fixed", amount: 10, preTax: false })]);
+});
+
+test("extra earnings are added to a day and shown in the period summary", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  render(<App />);
+
+  expect(screen.queryByRole("columnheader", { name: "Extra" })).not.toBeInTheDocument();
+  fireEvent.change(screen.getByLabelText("Date"), { target: { value: "2026-01-02" } });
+  fireEvent.change(screen.getByLabelText("Kind"), { target: { value: "tips-cash" } });
+  fireEvent.change(screen.getByLabelText("Amount ($)"), { target: { value: "40" } });
+  fireEvent.click(screen.getByRole("button", { name: "Add Earnings" }));
+
+  expect(screen.getByRole("columnheader", { name: "Extra" })).toBeInTheDocument();
+  expect(screen.getByText("2026-01-02 · Tips (cash) · $40.00")).toBeInTheDocument();
+  // nothing withheld on cash tips: $161.80 + $40
+  expect(screen.getAllByText("$201.80").length).toBeGreaterThan(0);
+  const stored = JSON.parse(localStorage.getItem(jobStorageKey("cafe", "dayHours"))!);
+  expect(stored[0]).toMatchObject({ date: "2026-01-02", hours: 8, extras: [expect.objectContaining({ type: "tips-cash", amount: 40 })] });
+
+  fireEvent.click(screen.getByRole("button", { name: "Remove" }));
+  expect(screen.queryByRole("columnheader", { name: "Extra" })).not.toBeInTheDocument();
+});
+
+test("a shift premium is priced into the day and shown as its own column", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8); // 2026-01-02 is a Friday
+  render(<App />);
+
+  fireEvent.change(screen.getByLabelText("Shift Premium"), { target: { value: "Fridays" } });
+  fireEvent.change(screen.getByLabelText("Premium"), { target: { value: "percent" } });
+  fireEvent.change(screen.getByLabelText("Premium Amount"), { target: { value: "10" } });
+  fireEvent.click(within(screen.getByRole("group", { name: "Premium days" })).getByLabelText("Fri"));
+  fireEvent.click(screen.getByRole("button", { name: "Add Premium" }));
+
+  expect(screen.getByText("Fridays · +10% · all day · Fri")).toBeInTheDocument();
+  expect(screen.getAllByRole("columnheader", { name: "Shift Premium" })).toHaveLength(2);
+  // 8h * $20 * 10%
+  expect(screen.getAllByText("$16.00").length).toBeGreaterThan(0);
+  const stored = JSON.parse(localStorage.getItem(jobStorageKey("cafe", "shiftPremiums"))!);
+  expect(stored).toEqual([expect.objectContaining({ kind: "percent", amount: 0.1, days: [5], start: null, end: null })]);
+});
+
+test("a shift past midnight is marked and keeps its hours when the break changes", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  localStorage.setItem(jobStorageKey("cafe", "dayHours"), JSON.stringify([
+    { date: "2026-01-09", start: "22:00", end: "06:00", lunchMinutes: 0, hours: 8 },
+  ]));
+  render(<App />);
+
+  expect(screen.getByText("ends next day")).toBeInTheDocument();
+  // the ninth day of the month has the ninth lunch input
+  fireEvent.change(screen.getAllByLabelText("Lunch (min)")[8], { target: { value: "30" } });
+  expect(screen.getByText("7.50h")).toBeInTheDocument();
+
+  fireEvent.change(screen.getByLabelText("Overnight Hours Count On"), { target: { value: "split" } });
+  expect(localStorage.getItem(jobStorageKey("cafe", "overnightRule"))).toBe("split");
+});
+
+test("a split shift adds up its shifts, and removing one recomputes the day", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  localStorage.setItem(jobStorageKey("cafe", "dayHours"), JSON.stringify([{
+    date: "2026-01-09",
+    shifts: [{ start: "10:00", end: "14:00", lunchMinutes: 0 }, { start: "17:00", end: "22:00", lunchMinutes: 0 }],
+    hours: 9,
+  }]));
+  render(<App />);
+
+  expect(screen.getByText("9.00h")).toBeInTheDocument();
+  fireEvent.change(screen.getByLabelText("Break (min) 2"), { target: { value: "30" } });
+  expect(screen.getByText("8.50h")).toBeInTheDocument();
+
+  fireEvent.click(screen.getByRole("button", { name: "Remove shift 2" }));
+  expect(screen.getByText("4.00h")).toBeInTheDocument();
+  const stored = JSON.parse(localStorage.getItem(jobStorageKey("cafe", "dayHours"))!);
+  expect(stored).toEqual([expect.objectContaining({ shifts: [{ start: "10:00", end: "14:00", lunchMinutes: 0 }], hours: 4 })]);
+});
+
+test("break templates are listed, and a long shift without a meal is flagged", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  localStorage.setItem(jobStorageKey("cafe", "dayHours"), JSON.stringify([{
+    date: "2026-01-09",
+    shifts: [{ start: "09:00", end: "16:00", lunchMinutes: 0, breaks: [{ minutes: 15, paid: true, start: null }] }],
+    hours: 7,
+  }]));
+  render(<App />);
+
+  expect(screen.getByText("15 min · paid")).toBeInTheDocument();
+  expect(screen.getByText("no meal break after 5h")).toBeInTheDocument();
+
+  fireEvent.change(screen.getByLabelText("Break"), { target: { value: "Meal" } });
+  fireEvent.change(screen.getByLabelText("Minutes"), { target: { value: "30" } });
+  fireEvent.click(screen.getByLabelText("Paid"));
+  fireEvent.click(screen.getByRole("button", { name: "Add Break" }));
+  expect(screen.getByText("Meal · 30 min · unpaid")).toBeInTheDocument();
+
+  // adding the meal to the shift takes it off the paid hours and clears the warning
+  fireEvent.change(screen.getByLabelText("Add break to shift 1"), {
+    target: { value: String(JSON.parse(localStorage.getItem(jobStorageKey("cafe", "breakTemplates"))!)[0].id) },
+  });
+  expect(screen.getByText("6.50h")).toBeInTheDocument();
+  expect(screen.queryByText("no meal break after 5h")).not.toBeInTheDocument();
+});
+
+/* ---------------- Ontario public holidays ---------------- */
+
+test("public holidays are named on the calendar", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  localStorage.setItem(jobStorageKey("cafe", "currentDate"), new Date(2026, 1, 10).toISOString());
+  render(<App />);
+
+  expect(screen.getByText("Family Day")).toBeInTheDocument();
+
+  // only Ontario's ESA holidays are modelled
+  fireEvent.change(screen.getByLabelText("Province"), { target: { value: "BC" } });
+  expect(screen.queryByText("Family Day")).not.toBeInTheDocument();
+});
+
+test("a worked holiday offers a substitute day or premium pay", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  localStorage.setItem(jobStorageKey("cafe", "currentDate"), new Date(2026, 1, 10).toISOString());
+  localStorage.setItem(jobStorageKey("cafe", "dayHours"), JSON.stringify([{ date: "2026-02-16", hours: 8 }]));
+  render(<App />);
+
+  const choice = screen.getByLabelText("Worked holiday pay") as HTMLSelectElement;
+  expect(choice.value).toBe("substitute");
+  fireEvent.change(choice, { target: { value: "premium" } });
+
+  const stored = JSON.parse(localStorage.getItem(jobStorageKey("cafe", "dayHours"))!);
+  expect(stored[0].holidayOption).toBe("premium");
+  // 8h at $20 x 1.5 with 4% vacation pay; no earlier wages, so no holiday pay
+  expect(screen.getAllByText("$249.60").length).toBeGreaterThan(0);
+});
+
+test("editing a worked holiday's hours keeps its substitute day", () => {
+  localStorage.setItem("w2b_jobs", JSON.stringify([{ id: "cafe", name: "Cafe" }]));
+  localStorage.setItem("w2b_activeJob", "cafe");
+  seedJob("cafe", "20", 8);
+  localStorage.setItem(jobStorageKey("cafe", "currentDate"), new Date(2026, 1, 10).toISOString());
+  localStorage.setItem(jobStorageKey("cafe", "dayHours"), JSON.stringify([
+    { date: "2026-02-16", hours: 8, holidayOption: "substitute", substituteDate: "2026-02-20" },
+  ]));
+  render(<App />);
+  const holidayHours = () => (screen.getAllByPlaceholderText("Hours") as HTMLInputElement[])
+    .find(input => input.value !== "")!;
+  const stored = () => JSON.parse(localStorage.getItem(jobStorageKey("cafe", "dayHours"))!);
+
+  fireEvent.change(holidayHours(), { target: { value: "10" } });
+  expect(stored()).toEqual([expect.objectContaining({ date: "2026-02-16", originalHours: 10, substituteDate: "2026-02-20" })]);
+  expect(screen.getByLabelText("Substitute date")).toHaveValue("2026-02-20");
+
+  fireEvent.change(holidayHours(), { target: { value: "" } });
+  expect(stored()).toEqual([{ date: "2026-02-16", holidayOption: "substitute", substituteDate: "2026-02-20" }]);
+});
@@ -4,48 +4,133 @@ import dayjs, { Dayjs } from 'dayjs';
 import customParseFormat from 'dayjs/plugin/customParseFormat';
 import { TimePicker } from "antd";
 import ram from './fun-images/rick-y-morty-rick.png';
-import { getSalesTaxRate } from "./tax";
+import {
+  DEFAULT_TAX_CLAIMS,
+  PROVINCES,
+  PROVINCE_CODES,
+  ProvinceCode,
+  TAX_YEARS,
+  TaxClaims,
+  TaxYearRates,
+  getSalesTaxRate,
+  getTaxYearRates,
+  isProvinceCode,
+  taxTableYear,
+  withTaxYears,
+} from "./tax";
+import { TaxTableIssue, TaxTableProblem, parseTaxTables, taxTablesToJson } from "./taxTables";
+import { HolidayKey, getOntarioHolidays } from "./holidays";
+import { PAYSTUB_FIELDS, PaystubField, reconcilePaystubs } from "./paystubs";
+import { PayTotals, buildPayStatement } from "./payStatement";
+import { CsvJob, CsvTable, detailsCsv, parseCsv, periodsCsv } from "./csv";
+import {
+  TIMESHEET_DATE_FORMATS,
+  TIMESHEET_FIELDS,
+  TimesheetField,
+  TimesheetIssue,
+  TimesheetMapping,
+  guessDateFormat,
+  guessTimesheetMapping,
+  mergeTimesheet,
+  parseTimesheet,
+  parseTimesheetDate,
+} from "./timesheet";
+import { IcsIssue, IcsJob, IcsShift, mergeIcsShifts, parseIcs, shiftsToIcs } from "./ics";
+import { estimateTaxReturn, getTaxYears } from "./taxReturn";
 import {
   AllJobsExport,
   AllJobsSummary,
-  BIWEEKLY_BONUS_RATE,
   BIWEEKLY_TAXFREE_THRESHOLD,
+  BreakTemplate,
+  DEFAULT_OVERNIGHT_RULE,
+  DEFAULT_OVERTIME_POLICY,
+  DEFAULT_PERIOD_ANCHORS,
+  DEFAULT_VACATION_POLICY,
   DayHours,
+  DeductionKind,
   DetailedDay,
+  EARNING_TYPES,
+  EarningType,
+  HolidayWorkOption,
   Item,
+  JobCalcInput,
   JobExport,
   JobMeta,
+  MAX_ANCHOR_DAY,
+  MAX_PAY_DATE_OFFSET_DAYS,
   NormalizedJobData,
-  OVERTIME_MULTIPLIER,
+  OvernightRule,
+  OvertimePolicy,
+  PayDeduction,
   PaymentCycle,
+  PaystubRecord,
+  PeriodAnchors,
+  Profile,
+  RateChange,
   RosterData,
-  WEEKLY_OVERTIME_THRESHOLD,
+  SHIFT_TIME_ZONE,
+  ShiftPremium,
+  ShiftPremiumKind,
+  VacationPayMode,
+  VacationPayout,
+  VacationPolicy,
+  WorkShift,
   clampLunchMinutes,
   computeDetailedDays,
-  getIndexInfo as calcIndexInfo,
+  computeJobDays,
+  endsNextDay,
   getLunchMinutes,
   getOriginalHours,
+  getPeriodInfo,
+  getShifts,
   getTorontoToday,
+  hasShiftTimes,
+  isTimeZone,
   isUnlawfulRuleJob,
-  parseYmdLocal,
+  latestRate,
+  missingEatingPeriod,
   round2,
+  shiftsHours,
   summarizeJobs,
+  vacationRateOn,
   ymd,
+  ymdLocal,
 } from "./calc";
 import {
   ACTIVE_JOB_STORAGE_KEY,
   COMBINE_JOBS_STORAGE_KEY,
   DARK_MODE_STORAGE_KEY,
   DEFAULT_HOURLY_RATE,
+  DEFAULT_PROVINCE,
   JOBS_STORAGE_KEY,
+  PROFILE_STORAGE_KEY,
+  TAX_TABLES_STORAGE_KEY,
   clearJobStorage,
   cloneDefaultItems,
   createDefaultJobData,
   getInitialActiveJobId,
   getInitialJobs,
+  isOvernightRule,
   isPaymentCycle,
   jobStorageKey,
   loadJobData,
+  migrateRateHistory,
+  normalizeBreakTemplates,
+  normalizeDayHours,
+  normalizeDeductions,
+  normalizeExtraEarnings,
+  normalizeImportedTaxYears,
+  normalizeOvertimePolicy,
+  normalizePaystubs,
+  normalizePeriodAnchors,
+  normalizeProfile,
+  normalizeRateHistory,
+  normalizeShiftPremiums,
+  normalizeTaxClaims,
+  normalizeVacationPayouts,
+  normalizeVacationPolicy,
+  saveJobData,
+  safeParse,
   safeSetItem,
 } from "./storage";
 
@@ -61,9 +146,24 @@ export default function App(): JSX.Element {
 
   // persisted state
   const [items, setItems] = useState<Item[]>(initialJobData.items);
-  const [hourlyRate, setHourlyRate] = useState<number>(initialJobData.hourlyRate);
+  const [rateHistory, setRateHistory] = useState<RateChange[]>(initialJobData.rateHistory);
+  // the rate shown and edited is the current one; raises are added as changes
+  const hourlyRate = latestRate(rateHistory, DEFAULT_HOURLY_RATE);
   const [payCycle, setPayCycle] = useState<PaymentCycle>(initialJobData.payCycle);
   const [roster, setRoster] = useState<RosterData>(initialJobData.roster);
+  const [overtime, setOvertime] = useState<OvertimePolicy>(initialJobData.overtime);
+  const [vacation, setVacation] = useState<VacationPolicy>(initialJobData.vacation);
+  const [vacationPayouts, setVacationPayouts] = useState<VacationPayout[]>(initialJobData.vacationPayouts);
+  const [province, setProvince] = useState<ProvinceCode>(initialJobData.province);
+  const [taxClaims, setTaxClaims] = useState<TaxClaims>(initialJobData.taxClaims);
+  const [deductions, setDeductions] = useState<PayDeduction[]>(initialJobData.deductions);
+  const [shiftPremiums, setShiftPremiums] = useState<ShiftPremium[]>(initialJobData.shiftPremiums);
+  const [overnightRule, setOvernightRule] = useState<OvernightRule>(initialJobData.overnightRule);
+  const [breakTemplates, setBreakTemplates] = useState<BreakTemplate[]>(initialJobData.breakTemplates);
+  const [periodAnchors, setPeriodAnchors] = useState<PeriodAnchors>(initialJobData.periodAnchors);
+  const [paystubs, setPaystubs] = useState<PaystubRecord[]>(initialJobData.paystubs);
+  const [timeZone, setTimeZone] = useState<string>(initialJobData.timeZone);
+  const [cpt30, setCpt30] = useState<boolean>(initialJobData.cpt30);
   const [dayHours, setDayHours] = useState<DayHours[]>(initialJobData.dayHours);
   const [startDate, setStartDate] = useState<string>(initialJobData.startDate);
   const [currentDate, setCurrentDate] = useState<Date>(initialJobData.currentDate);
@@ -74,11 +174,51 @@ export default function App(): JSX.Element {
   const [lang, setLang] = useState<"en" | "zh-tw">("en");
   // when on, every job's after-tax income counts toward the buy-list progress
   const [combineJobs, setCombineJobs] = useState<boolean>(() => localStorage.getItem(COMBINE_JOBS_STORAGE_KEY) === "1");
+  // tax years imported from a file, over the built-in ones, for every job
+  const [importedTaxYears, setImportedTaxYears] = useState<TaxYearRates[]>(
+    () => normalizeImportedTaxYears(safeParse(localStorage.getItem(TAX_TABLES_STORAGE_KEY), [])));
+  const taxTables = useMemo(() => withTaxYears(importedTaxYears), [importedTaxYears]);
+  // the date of birth behind every job's CPP, and the province the return is filed in;
+  // a profile saved before it had a province starts from the active job's
+  const [profile, setProfile] = useState<Profile>(
+    () => normalizeProfile(safeParse(localStorage.getItem(PROFILE_STORAGE_KEY), null), initialJobData.province));
+  const { birthDate, province: residence } = profile;
 
   // UI transient
   const [notification, setNotification] = useState<string>("");
   const [showClearConfirm, setShowClearConfirm] = useState(false);
   const [showResetConfirm, setShowResetConfirm] = useState(false);
+  const [payoutDate, setPayoutDate] = useState<string>("");
+  const [payoutAmount, setPayoutAmount] = useState<string>("");
+  const [returnYear, setReturnYear] = useState<number | null>(null);
+  const [deductionName, setDeductionName] = useState<string>("");
+  const [deductionKind, setDeductionKind] = useState<DeductionKind>("fixed");
+  const [deductionAmount, setDeductionAmount] = useState<string>("");
+  const [deductionPreTax, setDeductionPreTax] = useState<boolean>(true);
+  const [extraDate, setExtraDate] = useState<string>("");
+  const [extraType, setExtraType] = useState<EarningType>("tips-controlled");
+  const [extraAmount, setExtraAmount] = useState<string>("");
+  const [premiumDraft, setPremiumDraft] = useState<{
+    name: string; kind: ShiftPremiumKind; amount: string; days: number[]; start: string; end: string;
+  }>({ name: "", kind: "fixed", amount: "", days: [], start: "", end: "" });
+  const [rateDraft, setRateDraft] = useState<{ rate: string; date: string }>({ rate: "", date: "" });
+  const [breakDraft, setBreakDraft] = useState<{ name: string; minutes: string; paid: boolean; start: string }>(
+    { name: "", minutes: "", paid: true, start: "" });
+  const [paystubDraft, setPaystubDraft] = useState<PaystubDraft>(EMPTY_PAYSTUB_DRAFT);
+  const [statementPayDate, setStatementPayDate] = useState<string | null>(null);
+  const [csvOptions, setCsvOptions] = useState<{ from: string; to: string; table: CsvTable; locale: string; allJobs: boolean }>(
+    { from: "", to: "", table: "details", locale: CSV_LOCALES[0], allJobs: false });
+  const [timesheet, setTimesheet] = useState<TimesheetDraft | null>(null);
+  // shift times are read in the time zone of the job they are going into
+  const timesheetRows = useMemo(() => {
+    if (!timesheet) return [];
+    const zone = timesheet.jobId === activeJobId ? timeZone : loadJobData(timesheet.jobId).timeZone;
+    return parseTimesheet(timesheet.rows, timesheet.mapping, timesheet.dateFormat, timesheet.hasHeader, zone);
+  }, [timesheet, activeJobId, timeZone]);
+  const [icsOptions, setIcsOptions] = useState<{ allJobs: boolean; jobId: string | null }>({ allJobs: false, jobId: null });
+  // a calendar's events, checked and waiting to be imported into a job
+  const [icsDraft, setIcsDraft] = useState<{ jobId: string; shifts: IcsShift[] } | null>(null);
+  const [taxTableIssues, setTaxTableIssues] = useState<TaxTableIssue[]>([]);
   const calGridRef = useRef<HTMLDivElement | null>(null);
   const [weekRowTemplate, setWeekRowTemplate] = useState<string | null>(null);
   // persist on change
@@ -86,13 +226,29 @@ export default function App(): JSX.Element {
   useEffect(() => { safeSetItem(ACTIVE_JOB_STORAGE_KEY, activeJobId); }, [activeJobId]);
   useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "items"), JSON.stringify(items)); }, [items, activeJobId]);
   useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "hourlyRate"), String(hourlyRate)); }, [hourlyRate, activeJobId]);
+  useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "rateHistory"), JSON.stringify(rateHistory)); }, [rateHistory, activeJobId]);
   useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "payCycle"), payCycle); }, [payCycle, activeJobId]);
   useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "roster"), JSON.stringify(roster)); }, [roster, activeJobId]);
+  useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "overtime"), JSON.stringify(overtime)); }, [overtime, activeJobId]);
+  useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "vacation"), JSON.stringify(vacation)); }, [vacation, activeJobId]);
+  useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "vacationPayouts"), JSON.stringify(vacationPayouts)); }, [vacationPayouts, activeJobId]);
+  useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "province"), province); }, [province, activeJobId]);
+  useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "taxClaims"), JSON.stringify(taxClaims)); }, [taxClaims, activeJobId]);
+  useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "deductions"), JSON.stringify(deductions)); }, [deductions, activeJobId]);
+  useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "shiftPremiums"), JSON.stringify(shiftPremiums)); }, [shiftPremiums, activeJobId]);
+  useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "overnightRule"), overnightRule); }, [overnightRule, activeJobId]);
+  useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "breakTemplates"), JSON.stringify(breakTemplates)); }, [breakTemplates, activeJobId]);
+  useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "periodAnchors"), JSON.stringify(periodAnchors)); }, [periodAnchors, activeJobId]);
+  useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "paystubs"), JSON.stringify(paystubs)); }, [paystubs, activeJobId]);
+  useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "timeZone"), timeZone); }, [timeZone, activeJobId]);
+  useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "cpt30"), JSON.stringify(cpt30)); }, [cpt30, activeJobId]);
   useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "dayHours"), JSON.stringify(dayHours)); }, [dayHours, activeJobId]);
   useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "startDate"), startDate); }, [startDate, activeJobId]);
   useEffect(() => { safeSetItem(jobStorageKey(activeJobId, "currentDate"), currentDate.toISOString()); }, [currentDate, activeJobId]);
   useEffect(() => { safeSetItem(DARK_MODE_STORAGE_KEY, darkMode ? "1" : "0"); }, [darkMode]);
   useEffect(() => { safeSetItem(COMBINE_JOBS_STORAGE_KEY, combineJobs ? "1" : "0"); }, [combineJobs]);
+  useEffect(() => { safeSetItem(TAX_TABLES_STORAGE_KEY, JSON.stringify(importedTaxYears)); }, [importedTaxYears]);
+  useEffect(() => { safeSetItem(PROFILE_STORAGE_KEY, JSON.stringify(profile)); }, [profile]);
 
   useEffect(() => {
     if (darkMode) {
@@ -113,6 +269,17 @@ export default function App(): JSX.Element {
   const useUnlawfulRule = isUnlawfulRuleJob(activeJob?.name);
   const useSemiMonthlyRule = payCycle === "semi-monthly";
   const useMonthlyRule = payCycle === "monthly";
+  const useWeeklyRule = payCycle === "weekly";
+  // Quebec jobs pay QPP in place of CPP, plus QPIP
+  const inQuebec = province === "QC";
+  const hasDeductions = deductions.length > 0;
+  const paidLater = periodAnchors.payDateOffsetDays > 0;
+  // the calendar month's extra earnings, in date order
+  const monthPrefix = `${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, "0")}-`;
+  const monthExtras = dayHours
+    .filter(d => d.date.startsWith(monthPrefix))
+    .flatMap(d => (d.extras || []).map(e => ({ ...e, date: d.date })))
+    .sort((a, b) => a.date.localeCompare(b.date));
 
   const [rosterMode, setRosterMode] = useState<"weekly" | "monthly">("weekly");
   const [rosterViewer, setRosterViewer] = useState<{ src: string; scale: number } | null>(null);
@@ -257,55 +424,52 @@ export default function App(): JSX.Element {
     });
   };
 
-  const getSemiMonthlyInfo = (dateStr: string) => {
-    const dt = parseYmdLocal(dateStr);
-    const year = dt.getFullYear();
-    const month = dt.getMonth();
-    const day = dt.getDate();
-    const half = day <= 15 ? 0 : 1;
-    const daysInMonth = new Date(year, month + 1, 0).getDate();
-    const startDay = half === 0 ? 1 : 16;
-    const endDay = half === 0 ? 15 : daysInMonth;
-    const mm = String(month + 1).padStart(2, "0");
-    const start = `${year}-${mm}-${String(startDay).padStart(2, "0")}`;
-    const end = `${year}-${mm}-${String(endDay).padStart(2, "0")}`;
-    const index = year * 24 + month * 2 + half;
-    return { index, start, end };
-  };
+  // the active job's pay period for a date, on its own anchors and pay-date offset
+  const getPayPeriod = (dateStr: string) => getPeriodInfo(dateStr, payCycle, startDate, periodAnchors);
 
-  const getMonthlyInfo = (dateStr: string) => {
-    const dt = parseYmdLocal(dateStr);
-    const year = dt.getFullYear();
-    const month = dt.getMonth();
-    const daysInMonth = new Date(year, month + 1, 0).getDate();
-    const mm = String(month + 1).padStart(2, "0");
-    const start = `${year}-${mm}-01`;
-    const end = `${year}-${mm}-${String(daysInMonth).padStart(2, "0")}`;
-    const index = year * 12 + month;
-    return { index, start, end };
+  // an out-of-range day keeps the previous anchor rather than resetting it
+  const updatePeriodAnchors = (field: keyof PeriodAnchors, raw: string) => {
+    setPeriodAnchors(prev => {
+      const next = normalizePeriodAnchors({ ...prev, [field]: Number(raw) });
+      return next[field] === Number(raw) ? next : prev;
+    });
   };
 
-  const persistJobData = (jobId: string) => {
-    safeSetItem(jobStorageKey(jobId, "items"), JSON.stringify(items));
-    safeSetItem(jobStorageKey(jobId, "hourlyRate"), String(hourlyRate));
-    safeSetItem(jobStorageKey(jobId, "payCycle"), payCycle);
-    safeSetItem(jobStorageKey(jobId, "roster"), JSON.stringify(roster));
-    safeSetItem(jobStorageKey(jobId, "dayHours"), JSON.stringify(dayHours));
-    safeSetItem(jobStorageKey(jobId, "startDate"), startDate);
-    safeSetItem(jobStorageKey(jobId, "currentDate"), currentDate.toISOString());
-  };
+  // the active job's data lives in state; everything else reads it from storage
+  const activeJobData = (): NormalizedJobData => ({
+    items, hourlyRate, rateHistory, dayHours, startDate, currentDate, payCycle, roster, overtime, vacation, vacationPayouts, province,
+    taxClaims, deductions, shiftPremiums, overnightRule, breakTemplates, periodAnchors, paystubs, timeZone, cpt30,
+  });
 
-  const switchJob = (jobId: string) => {
-    if (jobId === activeJobId) return;
-    persistJobData(activeJobId);
-    const data = loadJobData(jobId);
+  const persistJobData = (jobId: string) => saveJobData(jobId, activeJobData());
+
+  const applyJobData = (data: NormalizedJobData) => {
     setItems(data.items);
-    setHourlyRate(data.hourlyRate);
+    setRateHistory(data.rateHistory);
     setPayCycle(data.payCycle);
     setRoster(data.roster);
     setDayHours(data.dayHours);
     setStartDate(data.startDate);
     setCurrentDate(data.currentDate);
+    setOvertime(data.overtime);
+    setVacation(data.vacation);
+    setVacationPayouts(data.vacationPayouts);
+    setProvince(data.province);
+    setTaxClaims(data.taxClaims);
+    setDeductions(data.deductions);
+    setShiftPremiums(data.shiftPremiums);
+    setOvernightRule(data.overnightRule);
+    setBreakTemplates(data.breakTemplates);
+    setPeriodAnchors(data.periodAnchors);
+    setPaystubs(data.paystubs);
+    setTimeZone(data.timeZone);
+    setCpt30(data.cpt30);
+  };
+
+  const switchJob = (jobId: string) => {
+    if (jobId === activeJobId) return;
+    persistJobData(activeJobId);
+    applyJobData(loadJobData(jobId));
     setActiveJobId(jobId);
   };
 
@@ -319,14 +483,7 @@ export default function App(): JSX.Element {
     const nextJobs = [...jobs, { id: jobId, name: jobName }];
     persistJobData(activeJobId);
     setJobs(nextJobs);
-    const data = createDefaultJobData();
-    setItems(data.items);
-    setHourlyRate(data.hourlyRate);
-    setPayCycle(data.payCycle);
-    setRoster(data.roster);
-    setDayHours(data.dayHours);
-    setStartDate(data.startDate);
-    setCurrentDate(data.currentDate);
+    applyJobData(createDefaultJobData());
     setActiveJobId(jobId);
   };
 
@@ -343,51 +500,83 @@ export default function App(): JSX.Element {
     setJobs(nextJobs);
     if (jobId === activeJobId) {
       const nextActive = nextJobs[0].id;
-      const data = loadJobData(nextActive);
-      setItems(data.items);
-      setHourlyRate(data.hourlyRate);
-      setPayCycle(data.payCycle);
-      setRoster(data.roster);
-      setDayHours(data.dayHours);
-      setStartDate(data.startDate);
-      setCurrentDate(data.currentDate);
+      applyJobData(loadJobData(nextActive));
       setActiveJobId(nextActive);
     }
     notify(labels[lang].removedJob);
   };
 
-  /* ---------------- helper indices ---------------- */
-  const getIndexInfo = (dateStr: string, baseStart = startDate) => calcIndexInfo(dateStr, baseStart);
-
   /* ---------------- compute detailed days ---------------- */
   const detailedHistory = useMemo(
-    () => computeDetailedDays({ dayHours, hourlyRate, startDate, useUnlawfulRule, payCycle }),
-    [dayHours, hourlyRate, startDate, useUnlawfulRule, payCycle]
+    () => computeDetailedDays({
+      dayHours, hourlyRate, rateHistory, startDate, useUnlawfulRule, payCycle, overtime, vacation, vacationPayouts, province, taxClaims,
+      deductions, shiftPremiums, overnightRule, periodAnchors, timeZone, taxTables, birthDate, cpt30,
+    }),
+    [
+      dayHours, hourlyRate, rateHistory, startDate, useUnlawfulRule, payCycle, overtime, vacation, vacationPayouts, province, taxClaims,
+      deductions, shiftPremiums, overnightRule, periodAnchors, timeZone, taxTables, birthDate, cpt30,
+    ]
   );
 
   /* ---------------- summaries ---------------- */
+  // banked vacation pay still owed after the last recorded day
+  const vacationBank = detailedHistory.length ? detailedHistory[detailedHistory.length - 1].vacationBank : 0;
+  const hasExtras = detailedHistory.some(d => d.extraEarnings > 0);
+  const hasPremiums = shiftPremiums.length > 0;
+  // every recorded paystub against the estimate for its pay date, latest pay date first in the picker
+  const paystubChecks = useMemo(() => reconcilePaystubs(detailedHistory, paystubs), [detailedHistory, paystubs]);
+  const payDates = useMemo(() => Array.from(new Set(detailedHistory.map(d => d.payDate))).reverse(), [detailedHistory]);
+  const statement = useMemo(
+    () => (statementPayDate == null ? null : buildPayStatement(detailedHistory, statementPayDate, deductions)),
+    [detailedHistory, statementPayDate, deductions]
+  );
   const totalEarnedAfterTax = useMemo(() => round2(detailedHistory.reduce((s, d) => s + d.afterTax, 0)), [detailedHistory]);
 
-  // Every job priced on its own hourly rate, start date and payroll rule.
-  // The active job reads from live state; the others from their stored data.
-  const allJobsSummary = useMemo<AllJobsSummary>(() => summarizeJobs(jobs.map(job => {
+  // Every job priced on its own hourly rate, start date, province, TD1 claims,
+  // deductions, shift premiums, overtime, overnight and vacation policies and payroll rule. The active job reads from live state;
+  // the others from their stored data.
+  const allJobInputs = useMemo<JobCalcInput[]>(() => jobs.map(job => {
     if (job.id === activeJobId) {
-      return { id: job.id, name: job.name, hourlyRate, startDate, dayHours, payCycle };
+      return {
+        id: job.id, name: job.name, hourlyRate, rateHistory, startDate, dayHours, payCycle, overtime, vacation, vacationPayouts, province,
+        taxClaims, deductions, shiftPremiums, overnightRule, periodAnchors, timeZone, cpt30,
+      };
     }
-    const stored = loadJobData(job.id);
-    return {
-      id: job.id,
-      name: job.name,
-      hourlyRate: stored.hourlyRate,
-      startDate: stored.startDate,
-      dayHours: stored.dayHours,
-      payCycle: stored.payCycle,
-    };
-  })), [jobs, activeJobId, hourlyRate, startDate, dayHours, payCycle]);
+    return { id: job.id, name: job.name, ...loadJobData(job.id) };
+  }), [
+    jobs, activeJobId, hourlyRate, rateHistory, startDate, dayHours, payCycle, overtime, vacation, vacationPayouts, province, taxClaims,
+    deductions, shiftPremiums, overnightRule, periodAnchors, timeZone, cpt30,
+  ]);
+  const allJobsSummary = useMemo<AllJobsSummary>(
+    () => summarizeJobs(allJobInputs, taxTables, birthDate), [allJobInputs, taxTables, birthDate]);
+
+  // Year-end return across every job, filed in the province of residence.
+  const allJobDays = useMemo(
+    () => allJobInputs.flatMap(job => computeJobDays(job, taxTables, birthDate)), [allJobInputs, taxTables, birthDate]);
+  const taxYears = useMemo(() => getTaxYears(allJobDays), [allJobDays]);
+  const shownTaxYear = returnYear != null && taxYears.includes(returnYear) ? returnYear : taxYears[taxYears.length - 1];
+  const taxReturn = useMemo(
+    () => (shownTaxYear == null ? null : estimateTaxReturn(allJobDays, shownTaxYear, residence, taxTables, birthDate)),
+    [allJobDays, shownTaxYear, residence, taxTables, birthDate]
+  );
 
   const earnedForProgress = combineJobs ? allJobsSummary.totalAfterTax : totalEarnedAfterTax;
   const totalItemPrice = useMemo(() => items.filter(i => i.enabled).reduce((s, i) => s + (i.price || 0), 0), [items]);
-  const salesTaxRate = useMemo(() => getSalesTaxRate(currentDate.getFullYear()), [currentDate]);
+  // shown as the TD1 claim placeholders, so a blank claim says what it means
+  const basicPersonalAmounts = useMemo(() => {
+    const rates = getTaxYearRates(currentDate.getFullYear(), taxTables);
+    return { federal: rates.federal.bpa, provincial: PROVINCES[province].rates(rates).bpa };
+  }, [currentDate, province, taxTables]);
+  const salesTaxRate = useMemo(
+    () => getSalesTaxRate(currentDate.getFullYear(), province, taxTables), [currentDate, province, taxTables]);
+  // years priced on another year's rates because no table covers them, with the year used
+  const clampedTaxYears = useMemo(
+    () => Array.from(new Set([...taxYears, currentDate.getFullYear()]))
+      .sort((a, b) => a - b)
+      .map(year => ({ year, usedYear: taxTableYear(year, taxTables) }))
+      .filter(({ year, usedYear }) => year !== usedYear),
+    [taxYears, currentDate, taxTables]
+  );
   const totalItemTax = useMemo(() => items.filter(i => i.enabled && i.taxable).reduce((s, i) => s + (i.price || 0) * salesTaxRate, 0), [items, salesTaxRate]);
   const totalAfterTaxItemPrice = useMemo(() => round2(totalItemPrice + totalItemTax), [totalItemPrice, totalItemTax]);
   const progressPct = useMemo(() => (totalAfterTaxItemPrice > 0 ? Math.min(100, round2((earnedForProgress / totalAfterTaxItemPrice) * 100)) : 0), [totalAfterTaxItemPrice, earnedForProgress]);
@@ -395,43 +584,48 @@ export default function App(): JSX.Element {
   // pay-period summary (hours / earnings / tax)
   const biWeeklySummary = useMemo(() => {
     type SummaryDay = { date: string; hours: number; earnings: number; };
-    type SummaryBucket = { hours: number; earned: number; days: SummaryDay[]; start?: string; end?: string; };
-    type PeriodInfo = { index: number; start?: string; end?: string; };
+    type SummaryBucket = { hours: number; earned: number; days: SummaryDay[]; start: string; end: string; payDate: string; };
 
     const map = new Map<number, SummaryBucket>();
     detailedHistory.forEach(d => {
-      const periodInfo: PeriodInfo = useMonthlyRule
-        ? getMonthlyInfo(d.date)
-        : useSemiMonthlyRule
-          ? getSemiMonthlyInfo(d.date)
-          : { index: getIndexInfo(d.date).biWeekIndex };
-      const key = periodInfo.index;
-      const emptyBucket: SummaryBucket = { hours: 0, earned: 0, days: [], start: periodInfo.start, end: periodInfo.end };
-      const cur = map.get(key) || emptyBucket;
-      if (useSemiMonthlyRule || useMonthlyRule) {
-        cur.start = periodInfo.start;
-        cur.end = periodInfo.end;
-      }
+      const period = getPeriodInfo(d.date, payCycle, startDate, periodAnchors);
+      const emptyBucket: SummaryBucket = {
+        hours: 0, earned: 0, days: [], start: ymdLocal(period.start), end: ymdLocal(period.end), payDate: d.payDate,
+      };
+      const cur = map.get(period.index) || emptyBucket;
       cur.hours += d.hours;
       cur.earned += d.earnings;
       cur.days.push({ date: d.date, hours: d.hours, earnings: d.earnings });
-      map.set(key, cur);
+      map.set(period.index, cur);
     });
 
+    // month-anchored periods are numbered in order, the others by their index from the start date
+    const numberInOrder = payCycle === "semi-monthly" || payCycle === "monthly";
     return Array.from(map.entries()).map(([idx, val], i) => ({
-      index: (useSemiMonthlyRule || useMonthlyRule) ? i + 1 : idx + 1,
+      index: numberInOrder ? i + 1 : idx + 1,
       hours: val.hours,
       earned: val.earned,
       days: val.days,
       start: val.start,
       end: val.end,
+      payDate: val.payDate,
     }));
-  }, [detailedHistory, hourlyRate, startDate, useSemiMonthlyRule, useMonthlyRule]);
+  }, [detailedHistory, startDate, payCycle, periodAnchors]);
 
   /* ---------------- UI helpers ---------------- */
+  /** A day's entry with its hours, shifts and break taken out. */
+  const withoutHours = ({ shifts, start, end, hours, lunch, lunchMinutes, originalHours, ...rest }: DayHours): DayHours => rest;
+
   const handleHourInput = (date: string, raw: string) => {
     if (raw.trim() === "") {
-      setDayHours(prev => prev.filter(p => p.date !== date));
+      // whatever else is on the day, such as extra earnings or a holiday choice, outlives its hours
+      setDayHours(prev => prev.flatMap(p => {
+        if (p.date !== date) return [p];
+        const rest = withoutHours(p);
+        const kept = Object.entries(rest).some(([key, value]) =>
+          key !== "date" && value != null && !(Array.isArray(value) && value.length === 0));
+        return kept ? [rest] : [];
+      }));
       return;
     }
     const n = Number(raw);
@@ -446,78 +640,104 @@ export default function App(): JSX.Element {
       // Always store the original entered hours
       const originalHours = n;
       const hours = Math.max(0, n - lunchMinutes / 60);
-      return [
-        ...other,
-        {
-          date,
-          hours,
-          lunchMinutes,
-          originalHours,
-        },
-      ];
+      return [...other, { ...withoutHours(existing ?? { date }), hours, lunchMinutes, originalHours }];
     });
   };
 
-  const handleTimeInput = (date: string, field: "start" | "end", value: any) => {
-    // console.log(typeof (value), value.format("HH:mm"));
-
+  /** Replace a day's shifts and recompute its hours from them. */
+  const updateShifts = (date: string, update: (shifts: WorkShift[], existing: DayHours) => WorkShift[]) => {
     setDayHours(prev => {
       const other = prev.filter(p => p.date !== date);
-      const existing = prev.find(p => p.date === date) || { date, start: "", end: "" };
-      const lunchMinutes = getLunchMinutes(existing);
-      const updated = { ...existing, [field]: value?.format("HH:mm"), lunchMinutes };
-
-      let hours: number | null = null;
-      if (updated.start && updated.end) {
-        const [sh, sm] = updated.start.split(":").map(Number);
-        const [eh, em] = updated.end.split(":").map(Number);
-        const startMins = sh * 60 + sm;
-        let endMins = eh * 60 + em;
-        endMins -= lunchMinutes;
-        hours = (endMins - startMins) / 60;
-        if (hours < 0 || hours > 24) hours = null;
-      }
-      return [...other, { ...updated, hours }];
+      const existing = prev.find(p => p.date === date) || { date };
+      const { start, end, ...rest } = existing;
+      const shifts = update(getShifts(existing).map(s => ({ ...s })), existing);
+      // an end time before the start time is on the next day
+      return [...other, { ...rest, shifts, hours: shiftsHours(date, shifts, timeZone) }];
     });
   };
 
-  const handleLunchMinutesInput = (date: string, raw: string) => {
+  // Timed days keep their wall-clock times and have their hours worked out
+  // again in the new zone; only days with a daylight saving change come out differently.
+  const changeTimeZone = (next: string) => {
+    setTimeZone(next);
+    setDayHours(prev => prev.map(d => (hasShiftTimes(d) ? { ...d, hours: shiftsHours(d.date, getShifts(d), next) } : d)));
+  };
+
+  // A new shift takes the job's break templates. Without any, the first shift
+  // of a day starts with the day's lunch and later ones with no break.
+  const newShift = (first: boolean, existing: DayHours): WorkShift => breakTemplates.length
+    ? { start: null, end: null, lunchMinutes: 0, breaks: breakTemplates.map(({ id, name, ...b }) => b) }
+    : { start: null, end: null, lunchMinutes: first ? getLunchMinutes(existing) : 0 };
+
+  const handleTimeInput = (date: string, field: "start" | "end", value: any, index = 0) => {
+    updateShifts(date, (shifts, existing) => {
+      while (shifts.length <= index) shifts.push(newShift(shifts.length === 0, existing));
+      shifts[index] = { ...shifts[index], [field]: value ? value.format("HH:mm") : null };
+      return shifts;
+    });
+  };
+
+  const addShift = (date: string) =>
+    updateShifts(date, (shifts, existing) => [...shifts, newShift(false, existing)]);
+
+  const addShiftBreak = (date: string, index: number, templateId: number) => {
+    const template = breakTemplates.find(t => t.id === templateId);
+    if (!template) return;
+    const { id, name, ...added } = template;
+    updateShifts(date, shifts => shifts.map((s, i) => (i === index ? { ...s, breaks: [...(s.breaks ?? []), added] } : s)));
+  };
+
+  const removeShiftBreak = (date: string, index: number, breakIndex: number) =>
+    updateShifts(date, shifts => shifts.map((s, i) => (
+      i === index ? { ...s, breaks: (s.breaks ?? []).filter((_, j) => j !== breakIndex) } : s
+    )));
+
+  const removeShift = (date: string, index: number) =>
+    updateShifts(date, shifts => shifts.filter((_, i) => i !== index));
+
+  const handleLunchMinutesInput = (date: string, raw: string, index = 0) => {
     const trimmed = raw.trim();
-    if (trimmed === "") {
-      setDayHours(prev => {
-        const other = prev.filter(p => p.date !== date);
-        const existing = prev.find(p => p.date === date) || { date };
-        const updated: DayHours = { ...existing, lunchMinutes: null };
-        return [...other, updated];
+    const parsed = Number(trimmed);
+    if (trimmed !== "" && !Number.isFinite(parsed)) return;
+    const lunchMinutes = trimmed === "" ? null : clampLunchMinutes(parsed);
+
+    if (hasShiftTimes(dayHours.find(p => p.date === date))) {
+      updateShifts(date, shifts => {
+        if (shifts[index]) shifts[index] = { ...shifts[index], lunchMinutes };
+        return shifts;
       });
       return;
     }
-    const parsed = Number(trimmed);
-    if (!Number.isFinite(parsed)) return;
-    const lunchMinutes = clampLunchMinutes(parsed);
     setDayHours(prev => {
       const other = prev.filter(p => p.date !== date);
       const existing = prev.find(p => p.date === date) || { date };
       const updated: DayHours = { ...existing, lunchMinutes };
+      if (lunchMinutes == null) return [...other, updated];
       const originalHours = getOriginalHours(updated);
-
-      if (updated.start && updated.end) {
-        const [sh, sm] = updated.start.split(":").map(Number);
-        const [eh, em] = updated.end.split(":").map(Number);
-        const startMins = sh * 60 + sm;
-        const endMins = eh * 60 + em;
-        let hours = (endMins - startMins) / 60;
-        hours -= lunchMinutes / 60;
-        updated.hours = (hours >= 0 && hours <= 24) ? round2(hours) : null;
-      } else if (originalHours != null && (!updated.start && !updated.end)) {
+      if (originalHours != null) {
         updated.originalHours = originalHours;
         updated.hours = Math.max(0, round2(originalHours - lunchMinutes / 60));
       }
-
       return [...other, updated];
     });
   };
 
+  const handleHolidayOption = (date: string, holidayOption: HolidayWorkOption) => {
+    setDayHours(prev => {
+      const other = prev.filter(p => p.date !== date);
+      const existing = prev.find(p => p.date === date) || { date };
+      return [...other, { ...existing, holidayOption }];
+    });
+  };
+
+  const handleSubstituteDate = (date: string, raw: string) => {
+    setDayHours(prev => {
+      const other = prev.filter(p => p.date !== date);
+      const existing = prev.find(p => p.date === date) || { date };
+      return [...other, { ...existing, substituteDate: raw || null }];
+    });
+  };
+
   const resetMonthHours = () => {
     // ask user to confirm before resetting
     setShowResetConfirm(true);
@@ -557,6 +777,141 @@ export default function App(): JSX.Element {
     notify(labels[lang].autoFillDone);
   };
 
+  // blank threshold fields turn that kind of overtime off
+  const updateOvertime = (field: keyof OvertimePolicy, raw: string) => {
+    setOvertime(prev => normalizeOvertimePolicy({ ...prev, [field]: raw.trim() === "" ? null : Number(raw) }));
+  };
+
+  // rates are entered as percentages; a blank increased rate means no anniversary step-up
+  const updateVacation = (field: keyof VacationPolicy, raw: string) => {
+    setVacation(prev => {
+      let value: unknown = raw;
+      if (field === "rate" || field === "increasedRate") value = raw.trim() === "" ? null : Number(raw) / 100;
+      return normalizeVacationPolicy({ ...prev, [field]: value });
+    });
+  };
+
+  // a blank claim falls back to the basic personal amount
+  const updateTaxClaims = (field: keyof TaxClaims, raw: string) => {
+    setTaxClaims(prev => normalizeTaxClaims({ ...prev, [field]: raw.trim() === "" ? null : Number(raw) }));
+  };
+
+  const addVacationPayout = () => {
+    if (!payoutDate) return;
+    const [payout] = normalizeVacationPayouts([{ id: Date.now(), date: payoutDate, amount: payoutAmount }]);
+    setVacationPayouts(prev => [...prev, payout].sort((a, b) => a.date.localeCompare(b.date)));
+    setPayoutAmount("");
+  };
+  const removeVacationPayout = (id: number) => setVacationPayouts(prev => prev.filter(p => p.id !== id));
+
+  // a percentage is entered as 0-100 and kept as a fraction
+  const addDeduction = () => {
+    const amount = Number(deductionAmount);
+    const [deduction] = normalizeDeductions([{
+      id: Date.now(),
+      name: deductionName.trim(),
+      kind: deductionKind,
+      amount: deductionKind === "percent" ? amount / 100 : amount,
+      preTax: deductionPreTax,
+    }]);
+    if (!deduction) return;
+    setDeductions(prev => [...prev, deduction]);
+    setDeductionName("");
+    setDeductionAmount("");
+  };
+  const removeDeduction = (id: number) => setDeductions(prev => prev.filter(d => d.id !== id));
+
+  /** Correct the current rate; earlier rates and the days paid at them stay as they were. */
+  const setCurrentRate = (rate: number) => setRateHistory(prev => {
+    if (prev.length === 0) return [{ date: startDate, rate }];
+    const latest = prev.reduce((a, b) => (b.date > a.date ? b : a));
+    return prev.map(change => (change === latest ? { ...change, rate } : change));
+  });
+  const addRateChange = () => {
+    const [change] = normalizeRateHistory([{ date: rateDraft.date, rate: rateDraft.rate }]);
+    if (!change) return;
+    setRateHistory(prev => normalizeRateHistory([...prev, change]));
+    setRateDraft({ rate: "", date: "" });
+  };
+  const removeRateChange = (date: string) => setRateHistory(prev => prev.filter(change => change.date !== date));
+
+  // a stub for a pay date already recorded replaces it
+  const addPaystub = () => {
+    const [stub] = normalizePaystubs([{ ...paystubDraft, payDate: paystubDraft.payDate || payDates[0] }]);
+    if (!stub || PAYSTUB_FIELDS.every(f => stub[f] == null)) return;
+    setPaystubs(prev => normalizePaystubs([...prev, stub]));
+    setPaystubDraft(EMPTY_PAYSTUB_DRAFT);
+  };
+  const removePaystub = (payDate: string) => setPaystubs(prev => prev.filter(s => s.payDate !== payDate));
+  const setEmployer = (employer: string) =>
+    setJobs(prev => prev.map(job => (job.id === activeJobId ? { ...job, employer } : job)));
+  const paystubFieldLabel = (f: PaystubField) => (f === "cpp" && inQuebec ? "QPP" : labels[lang].paystubFields[f]);
+  // one line of the pay statement: this cheque, then the tax year to date
+  const statementRow = (label: string, key: keyof PayTotals, money = true) => {
+    if (!statement) return null;
+    const show = (n: number) => (money ? `$${n.toFixed(2)}` : String(n));
+    return <tr key={key}><td>{label}</td><td>{show(statement.current[key])}</td><td>{show(statement.ytd[key])}</td></tr>;
+  };
+
+  // a percentage is entered as 0-100 and kept as a fraction, like deductions
+  const addShiftPremium = () => {
+    const amount = Number(premiumDraft.amount);
+    const [premium] = normalizeShiftPremiums([{
+      id: Date.now(),
+      name: premiumDraft.name.trim(),
+      kind: premiumDraft.kind,
+      amount: premiumDraft.kind === "percent" ? amount / 100 : amount,
+      days: premiumDraft.days,
+      start: premiumDraft.start,
+      end: premiumDraft.end,
+    }]);
+    if (!premium) return;
+    setShiftPremiums(prev => [...prev, premium]);
+    setPremiumDraft(prev => ({ ...prev, name: "", amount: "" }));
+  };
+  const togglePremiumDay = (day: number) => setPremiumDraft(prev => ({
+    ...prev,
+    days: prev.days.includes(day) ? prev.days.filter(d => d !== day) : [...prev.days, day],
+  }));
+  const removeShiftPremium = (id: number) => setShiftPremiums(prev => prev.filter(p => p.id !== id));
+
+  const addBreakTemplate = () => {
+    const [template] = normalizeBreakTemplates([{
+      id: Date.now(),
+      name: breakDraft.name.trim(),
+      minutes: breakDraft.minutes,
+      paid: breakDraft.paid,
+      start: breakDraft.start,
+    }]);
+    if (!template) return;
+    setBreakTemplates(prev => [...prev, template]);
+    setBreakDraft(prev => ({ ...prev, name: "", minutes: "", start: "" }));
+  };
+  const removeBreakTemplate = (id: number) => setBreakTemplates(prev => prev.filter(b => b.id !== id));
+  const describeBreak = (b: { minutes: number; paid: boolean; start: string | null }) =>
+    [`${b.minutes} ${labels[lang].minutesShort}`, b.paid ? labels[lang].breakPaidTag : labels[lang].breakUnpaidTag, b.start]
+      .filter(Boolean).join(" · ");
+
+  const addExtraEarning = () => {
+    const [extra] = normalizeExtraEarnings([{ id: Date.now(), type: extraType, amount: extraAmount }]);
+    if (!extraDate || !extra) return;
+    setDayHours(prev => {
+      const other = prev.filter(p => p.date !== extraDate);
+      const existing = prev.find(p => p.date === extraDate) || { date: extraDate };
+      return [...other, { ...existing, extras: [...(existing.extras || []), extra] }];
+    });
+    setExtraAmount("");
+  };
+  const removeExtraEarning = (date: string, id: number) => {
+    setDayHours(prev => prev.flatMap(p => {
+      if (p.date !== date) return [p];
+      const extras = (p.extras || []).filter(e => e.id !== id);
+      // a day that only held the extra goes with it
+      if (extras.length === 0 && p.hours == null) return [];
+      return [{ ...p, extras }];
+    }));
+  };
+
   const addItem = () => setItems(prev => [...prev, { id: Date.now(), name: `Item ${prev.length + 1}`, price: 0, taxable: true, enabled: true }]);
   const removeItem = (id: number) => setItems(prev => prev.filter(i => i.id !== id));
 
@@ -573,7 +928,9 @@ export default function App(): JSX.Element {
       if (!job || typeof job.id !== "string" || typeof job.name !== "string") return;
       if (!job.id.trim() || seen.has(job.id)) return;
       seen.add(job.id);
-      normalized.push({ id: job.id, name: job.name });
+      normalized.push(typeof job.employer === "string"
+        ? { id: job.id, name: job.name, employer: job.employer }
+        : { id: job.id, name: job.name });
     });
     return normalized;
   };
@@ -581,11 +938,14 @@ export default function App(): JSX.Element {
   const normalizeJobData = (raw?: JobExport | null): NormalizedJobData => {
     const fallback = createDefaultJobData();
     const items = raw && Array.isArray(raw.items) ? raw.items : fallback.items;
-    const hourlyRate = raw && raw.hourlyRate != null && !isNaN(Number(raw.hourlyRate))
+    const storedRate = raw && raw.hourlyRate != null && !isNaN(Number(raw.hourlyRate))
       ? Number(raw.hourlyRate)
       : fallback.hourlyRate;
-    const dayHours = raw && Array.isArray(raw.dayHours) ? raw.dayHours : fallback.dayHours;
+    const dayHours = raw && Array.isArray(raw.dayHours) ? normalizeDayHours(raw.dayHours) : fallback.dayHours;
     const startDate = raw && typeof raw.startDate === "string" && raw.startDate ? raw.startDate : fallback.startDate;
+    // files from before rate histories carry only the one rate
+    const rateHistory = migrateRateHistory(raw?.rateHistory, storedRate, startDate);
+    const hourlyRate = latestRate(rateHistory, storedRate);
     const currentDateCandidate = raw && raw.currentDate ? new Date(raw.currentDate) : fallback.currentDate;
     const currentDate = isNaN(currentDateCandidate.getTime()) ? fallback.currentDate : currentDateCandidate;
     const payCycle = raw && isPaymentCycle(raw.payCycle) ? raw.payCycle : fallback.payCycle;
@@ -595,33 +955,76 @@ export default function App(): JSX.Element {
           monthly: (raw.roster as any).monthly && typeof (raw.roster as any).monthly === "object" ? (raw.roster as any).monthly : {},
         }
       : fallback.roster;
-    return { items, hourlyRate, dayHours, startDate, currentDate, payCycle, roster };
+    const overtime = normalizeOvertimePolicy(raw?.overtime);
+    const vacation = normalizeVacationPolicy(raw?.vacation);
+    const vacationPayouts = normalizeVacationPayouts(raw?.vacationPayouts);
+    const province = isProvinceCode(raw?.province) ? raw!.province : fallback.province;
+    const taxClaims = normalizeTaxClaims(raw?.taxClaims);
+    const deductions = normalizeDeductions(raw?.deductions);
+    const shiftPremiums = normalizeShiftPremiums(raw?.shiftPremiums);
+    const overnightRule = isOvernightRule(raw?.overnightRule) ? raw!.overnightRule : fallback.overnightRule;
+    const breakTemplates = normalizeBreakTemplates(raw?.breakTemplates);
+    const periodAnchors = normalizePeriodAnchors(raw?.periodAnchors);
+    const paystubs = normalizePaystubs(raw?.paystubs);
+    const timeZone = isTimeZone(raw?.timeZone) ? raw!.timeZone : fallback.timeZone;
+    const cpt30 = raw?.cpt30 === true;
+    return {
+      items, hourlyRate, rateHistory, dayHours, startDate, currentDate, payCycle, roster, overtime, vacation, vacationPayouts,
+      province, taxClaims, deductions, shiftPremiums, overnightRule, breakTemplates, periodAnchors, paystubs, timeZone, cpt30,
+    };
   };
 
   const buildJobExport = (jobId: string): JobExport => {
-    const data = jobId === activeJobId
-      ? { items, hourlyRate, dayHours, startDate, currentDate, payCycle, roster }
-      : loadJobData(jobId);
+    const data = jobId === activeJobId ? activeJobData() : loadJobData(jobId);
     return {
       items: data.items,
       hourlyRate: data.hourlyRate,
+      rateHistory: data.rateHistory,
       dayHours: data.dayHours,
       startDate: data.startDate,
       currentDate: data.currentDate.toISOString(),
       payCycle: data.payCycle,
       roster: data.roster,
+      overtime: data.overtime,
+      vacation: data.vacation,
+      vacationPayouts: data.vacationPayouts,
+      province: data.province,
+      taxClaims: data.taxClaims,
+      deductions: data.deductions,
+      shiftPremiums: data.shiftPremiums,
+      overnightRule: data.overnightRule,
+      breakTemplates: data.breakTemplates,
+      periodAnchors: data.periodAnchors,
+      paystubs: data.paystubs,
+      timeZone: data.timeZone,
+      cpt30: data.cpt30,
     };
   };
 
   const exportData = () => {
     const out = {
       jobName: activeJob?.name,
+      employer: activeJob?.employer,
       items,
       hourlyRate,
+      rateHistory,
       startDate,
       dayHours,
       payCycle,
       roster,
+      overtime,
+      vacation,
+      vacationPayouts,
+      province,
+      taxClaims,
+      deductions,
+      shiftPremiums,
+      overnightRule,
+      breakTemplates,
+      periodAnchors,
+      paystubs,
+      timeZone,
+      cpt30,
     };
     const blob = new Blob([JSON.stringify(out, null, 2)], { type: "application/json" });
     const url = URL.createObjectURL(blob);
@@ -644,6 +1047,7 @@ export default function App(): JSX.Element {
       activeJobId,
       jobs,
       jobData,
+      profile,
     };
     const blob = new Blob([JSON.stringify(out, null, 2)], { type: "application/json" });
     const url = URL.createObjectURL(blob);
@@ -654,6 +1058,43 @@ export default function App(): JSX.Element {
     URL.revokeObjectURL(url);
     notify(labels[lang].exportedAll);
   };
+  const exportCsv = () => {
+    const { from, to, table, locale, allJobs } = csvOptions;
+    const csvJobs: CsvJob[] = allJobs
+      ? allJobInputs.map(job => ({ name: job.name, days: computeJobDays(job, taxTables, birthDate) }))
+      : [{ name: activeJob?.name ?? "", days: detailedHistory }];
+    const csv = (table === "details" ? detailsCsv : periodsCsv)(csvJobs, { from, to }, locale, allJobs);
+    // the byte-order mark makes spreadsheet apps read the file as UTF-8
+    const blob = new Blob(["\ufeff" + csv], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `work-to-buy-${allJobs ? "all-" : ""}${table}-${ymd(new Date())}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+    notify(labels[lang].exportedCsv);
+  };
+
+  const exportIcs = () => {
+    const icsJobs: IcsJob[] = icsOptions.allJobs
+      ? allJobInputs.map(job => ({
+        id: job.id,
+        name: job.name,
+        timeZone: job.timeZone ?? SHIFT_TIME_ZONE,
+        overnightRule: job.overnightRule,
+        dayHours: job.dayHours,
+        days: computeJobDays(job, taxTables, birthDate),
+      }))
+      : [{ id: activeJobId, name: activeJob?.name ?? "", timeZone, overnightRule, dayHours, days: detailedHistory }];
+    const blob = new Blob([shiftsToIcs(icsJobs)], { type: "text/calendar;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `work-to-buy-${icsOptions.allJobs ? "all-" : ""}shifts-${ymd(new Date())}.ics`;
+    a.click();
+    URL.revokeObjectURL(url);
+    notify(labels[lang].exportedIcs);
+  };
 
   const importAllJobs = (payload: AllJobsExport) => {
     const nextJobs = normalizeJobList(payload.jobs);
@@ -664,16 +1105,7 @@ export default function App(): JSX.Element {
     const jobData = payload.jobData && typeof payload.jobData === "object" ? payload.jobData : {};
     const jobDataMap = jobData as Record<string, JobExport>;
     jobs.forEach(job => clearJobStorage(job.id));
-    nextJobs.forEach(job => {
-      const normalized = normalizeJobData(jobDataMap[job.id]);
-      safeSetItem(jobStorageKey(job.id, "items"), JSON.stringify(normalized.items));
-      safeSetItem(jobStorageKey(job.id, "hourlyRate"), String(normalized.hourlyRate));
-      safeSetItem(jobStorageKey(job.id, "payCycle"), normalized.payCycle);
-      safeSetItem(jobStorageKey(job.id, "roster"), JSON.stringify(normalized.roster));
-      safeSetItem(jobStorageKey(job.id, "dayHours"), JSON.stringify(normalized.dayHours));
-      safeSetItem(jobStorageKey(job.id, "startDate"), normalized.startDate);
-      safeSetItem(jobStorageKey(job.id, "currentDate"), normalized.currentDate.toISOString());
-    });
+    nextJobs.forEach(job => saveJobData(job.id, normalizeJobData(jobDataMap[job.id])));
 
     const nextActive = typeof payload.activeJobId === "string" && nextJobs.some(job => job.id === payload.activeJobId)
       ? payload.activeJobId
@@ -682,13 +1114,8 @@ export default function App(): JSX.Element {
 
     setJobs(nextJobs);
     setActiveJobId(nextActive);
-    setItems(activeData.items);
-    setHourlyRate(activeData.hourlyRate);
-    setPayCycle(activeData.payCycle);
-    setRoster(activeData.roster);
-    setDayHours(activeData.dayHours);
-    setStartDate(activeData.startDate);
-    setCurrentDate(activeData.currentDate);
+    applyJobData(activeData);
+    if (payload.profile) setProfile(normalizeProfile(payload.profile, residence));
     notify(labels[lang].importedAll);
   };
 
@@ -704,8 +1131,10 @@ export default function App(): JSX.Element {
           return;
         }
         if (parsed.items) setItems(parsed.items);
-        if (parsed.hourlyRate) setHourlyRate(Number(parsed.hourlyRate));
-        if (parsed.payCycle && (parsed.payCycle === "biweekly" || parsed.payCycle === "semi-monthly" || parsed.payCycle === "monthly")) setPayCycle(parsed.payCycle);
+        if (parsed.rateHistory || parsed.hourlyRate) {
+          setRateHistory(migrateRateHistory(parsed.rateHistory, Number(parsed.hourlyRate) || hourlyRate, parsed.startDate || startDate));
+        }
+        if (isPaymentCycle(parsed.payCycle)) setPayCycle(parsed.payCycle);
         if (parsed.roster && typeof parsed.roster === "object") {
           const rosterParsed = {
             weekly: parsed.roster.weekly && typeof parsed.roster.weekly === "object" ? parsed.roster.weekly : {},
@@ -714,7 +1143,21 @@ export default function App(): JSX.Element {
           setRoster(rosterParsed);
         }
         if (parsed.startDate) setStartDate(parsed.startDate);
-        if (parsed.dayHours) setDayHours(parsed.dayHours);
+        if (parsed.dayHours) setDayHours(normalizeDayHours(parsed.dayHours));
+        if (parsed.overtime) setOvertime(normalizeOvertimePolicy(parsed.overtime));
+        if (parsed.vacation) setVacation(normalizeVacationPolicy(parsed.vacation));
+        if (parsed.vacationPayouts) setVacationPayouts(normalizeVacationPayouts(parsed.vacationPayouts));
+        if (isProvinceCode(parsed.province)) setProvince(parsed.province);
+        if (parsed.taxClaims) setTaxClaims(normalizeTaxClaims(parsed.taxClaims));
+        if (parsed.deductions) setDeductions(normalizeDeductions(parsed.deductions));
+        if (parsed.shiftPremiums) setShiftPremiums(normalizeShiftPremiums(parsed.shiftPremiums));
+        if (isOvernightRule(parsed.overnightRule)) setOvernightRule(parsed.overnightRule);
+        if (parsed.breakTemplates) setBreakTemplates(normalizeBreakTemplates(parsed.breakTemplates));
+        if (parsed.periodAnchors) setPeriodAnchors(normalizePeriodAnchors(parsed.periodAnchors));
+        if (parsed.paystubs) setPaystubs(normalizePaystubs(parsed.paystubs));
+        if (isTimeZone(parsed.timeZone)) setTimeZone(parsed.timeZone);
+        if (typeof parsed.cpt30 === "boolean") setCpt30(parsed.cpt30);
+        if (typeof parsed.employer === "string") setEmployer(parsed.employer);
         notify(labels[lang].imported);
       } catch (err) {
         notify(labels[lang].invalidImport);
@@ -724,6 +1167,129 @@ export default function App(): JSX.Element {
     ev.currentTarget.value = "";
   };
 
+  // the columns and date format are guessed again whenever the header changes
+  const draftTimesheet = (rows: string[][], hasHeader: boolean, jobId: string): TimesheetDraft => {
+    const mapping = guessTimesheetMapping(hasHeader ? rows[0] : null);
+    const dates = rows.slice(hasHeader ? 1 : 0).map(row => (mapping.date == null ? "" : row[mapping.date] ?? ""));
+    return { rows, hasHeader, mapping, dateFormat: guessDateFormat(dates), jobId };
+  };
+
+  const handleTimesheetFile = (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = e => {
+      const rows = parseCsv(String(e.target?.result || ""));
+      if (rows.length === 0) {
+        notify(labels[lang].invalidTimesheet);
+        return;
+      }
+      // a first row without a date anywhere in it is a header
+      const hasHeader = !rows[0].some(cell => TIMESHEET_DATE_FORMATS.some(format => parseTimesheetDate(cell, format)));
+      setTimesheet(draftTimesheet(rows, hasHeader, activeJobId));
+    };
+    reader.readAsText(file);
+    ev.currentTarget.value = "";
+  };
+
+  const setTimesheetColumn = (field: TimesheetField, raw: string) =>
+    setTimesheet(prev => prev && { ...prev, mapping: { ...prev.mapping, [field]: raw === "" ? null : Number(raw) } });
+
+  const timesheetWidth = timesheet ? Math.max(...timesheet.rows.map(row => row.length)) : 0;
+  const timesheetReady = timesheetRows.filter(r => !r.issue).length;
+  const timesheetColumnName = (i: number) =>
+    (timesheet?.hasHeader && timesheet.rows[0][i]) || `${labels[lang].timesheetColumn} ${i + 1}`;
+  // what the file said, for a row that could not be read
+  const timesheetCell = (row: number, field: TimesheetField) => {
+    const column = timesheet?.mapping[field];
+    return timesheet == null || column == null ? "" : timesheet.rows[row - 1][column] ?? "";
+  };
+
+  const importTimesheet = () => {
+    if (!timesheet || timesheetReady === 0) return;
+    if (timesheet.jobId === activeJobId) {
+      setDayHours(prev => mergeTimesheet(prev, timesheetRows, timeZone));
+    } else {
+      const data = loadJobData(timesheet.jobId);
+      saveJobData(timesheet.jobId, { ...data, dayHours: mergeTimesheet(data.dayHours, timesheetRows, data.timeZone) });
+      // other jobs are priced from storage, so have them read again
+      setJobs(prev => [...prev]);
+    }
+    setTimesheet(null);
+    notify(labels[lang].importedTimesheet);
+  };
+
+  // A schedule's events are read in the chosen job's time zone and previewed before they become shifts.
+  const handleIcsFile = (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0];
+    if (!file) return;
+    const jobId = icsOptions.jobId ?? activeJobId;
+    const reader = new FileReader();
+    reader.onload = e => {
+      const zone = jobId === activeJobId ? timeZone : loadJobData(jobId).timeZone;
+      const shifts = parseIcs(String(e.target?.result || ""), zone);
+      if (shifts.length === 0) {
+        notify(labels[lang].noIcsShifts);
+        return;
+      }
+      setIcsDraft({ jobId, shifts });
+    };
+    reader.readAsText(file);
+    ev.currentTarget.value = "";
+  };
+
+  const icsReady = icsDraft ? icsDraft.shifts.filter(s => !s.issue).length : 0;
+
+  const importIcs = () => {
+    if (!icsDraft || icsReady === 0) return;
+    const { jobId, shifts } = icsDraft;
+    const data = jobId === activeJobId ? activeJobData() : loadJobData(jobId);
+    const breaks = data.breakTemplates.map(({ id, name, ...b }) => b);
+    if (jobId === activeJobId) {
+      setDayHours(prev => mergeIcsShifts(prev, shifts, data.timeZone, breaks));
+    } else {
+      saveJobData(jobId, { ...data, dayHours: mergeIcsShifts(data.dayHours, shifts, data.timeZone, breaks) });
+      setJobs(prev => [...prev]);
+    }
+    setIcsDraft(null);
+    notify(`${labels[lang].importedIcs}: ${icsReady}`);
+  };
+
+  const handleTaxTableFile = (ev: React.ChangeEvent<HTMLInputElement>) => {
+    const file = ev.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onload = e => {
+      const { years, issues } = parseTaxTables(String(e.target?.result || ""));
+      setTaxTableIssues(issues);
+      if (issues.length) {
+        notify(labels[lang].invalidTaxTable);
+        return;
+      }
+      setImportedTaxYears(prev => normalizeImportedTaxYears([...prev, ...years]));
+      notify(`${labels[lang].importedTaxTables}: ${years.map(y => y.year).join(", ")}`);
+    };
+    reader.readAsText(file);
+    ev.currentTarget.value = "";
+  };
+
+  const exportTaxTables = () => {
+    const blob = new Blob([taxTablesToJson(taxTables)], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `work-to-buy-tax-tables-${ymd(new Date())}.json`;
+    a.click();
+    URL.revokeObjectURL(url);
+    notify(labels[lang].exportedTaxTables);
+  };
+
+  const removeImportedTaxYears = () => {
+    setImportedTaxYears([]);
+    setTaxTableIssues([]);
+    notify(labels[lang].removedTaxTables);
+  };
+
   const saveAll = () => {
     persistJobData(activeJobId);
     safeSetItem(JOBS_STORAGE_KEY, JSON.stringify(jobs));
@@ -737,9 +1303,22 @@ export default function App(): JSX.Element {
     clearJobStorage(activeJobId);
     setItems(cloneDefaultItems());
     setDayHours([]);
-    setHourlyRate(DEFAULT_HOURLY_RATE);
+    setRateHistory([{ date: ymd(getTorontoToday()), rate: DEFAULT_HOURLY_RATE }]);
     setPayCycle("biweekly");
     setRoster({ weekly: {}, monthly: {} });
+    setOvertime({ ...DEFAULT_OVERTIME_POLICY });
+    setVacation({ ...DEFAULT_VACATION_POLICY });
+    setVacationPayouts([]);
+    setProvince(DEFAULT_PROVINCE);
+    setTaxClaims({ ...DEFAULT_TAX_CLAIMS });
+    setDeductions([]);
+    setShiftPremiums([]);
+    setOvernightRule(DEFAULT_OVERNIGHT_RULE);
+    setBreakTemplates([]);
+    setPeriodAnchors({ ...DEFAULT_PERIOD_ANCHORS });
+    setPaystubs([]);
+    setTimeZone(SHIFT_TIME_ZONE);
+    setCpt30(false);
     setStartDate(ymd(getTorontoToday()));
     setCurrentDate(getTorontoToday());
     setDarkMode(false);
@@ -757,6 +1336,9 @@ export default function App(): JSX.Element {
   const rows = Math.ceil(totalCells / 7);
   const totalGrid = rows * 7;
   const todayStr = ymd(getTorontoToday());
+  // the Ontario ESA holidays are the only ones modelled, so other provinces' calendars have none
+  const holidayMap = useMemo(
+    () => new Map(province === "ON" ? getOntarioHolidays(year).map(h => [h.date, h]) : []), [year, province]);
 
   useLayoutEffect(() => {
     if (!calGridRef.current || rows <= 0) return;
@@ -829,8 +1411,154 @@ export default function App(): JSX.Element {
       addItem: "+ Add Item",
       itemList: "Item List",
       hourlyRate: "Hourly Rate",
+      newRate: "New Rate",
+      rateEffective: "Effective From",
+      addRateChange: "Add Rate Change",
+      removeRateChange: "Remove",
+      rateHistory: "Rate history",
       startDate: "Start Date",
       payCycle: "Pay Cycle",
+      periodStartDay: "Period Starts On Day",
+      secondPeriodStartDay: "Second Period Starts On Day",
+      payDateOffset: "Paid Days After Period Ends",
+      payDate: "Pay Date",
+      province: "Province",
+      federalClaim: "TD1 Federal Claim ($)",
+      provincialClaim: "TD1 Provincial Claim ($)",
+      additionalTax: "Additional Tax per Pay ($)",
+      secondJobClaim: "Second job: claim $0",
+      birthDate: "Date of Birth",
+      cpt30: "CPT30 filed: no CPP after 65",
+      cppAgeNote: "CPP starts the month after your 18th birthday and stops after the month you turn 70 (65 with a CPT30 filed with this job; QPP has none). That year's maximums shrink to the months you contribute. EI has no age limit.",
+      deductionName: "Deduction",
+      deductionNamePlaceholder: "e.g. Group RRSP",
+      deductionKind: "Type",
+      deductionFixed: "Fixed ($ per pay)",
+      deductionPercent: "Percent of gross (%)",
+      deductionAmount: "Amount",
+      deductionPreTax: "Pre-tax",
+      addDeduction: "Add Deduction",
+      removeDeduction: "Remove",
+      premiumName: "Shift Premium",
+      premiumNamePlaceholder: "e.g. Night shift",
+      premiumKind: "Premium",
+      premiumFixed: "+$ per hour",
+      premiumPercent: "+% of rate",
+      premiumAmount: "Premium Amount",
+      premiumFrom: "From",
+      premiumTo: "To",
+      premiumDays: "Premium days",
+      premiumAllDay: "all day",
+      premiumEveryDay: "every day",
+      addPremium: "Add Premium",
+      removePremium: "Remove",
+      premiumColumn: "Shift Premium",
+      weekdaysShort: ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"],
+      extraEarnings: "Extra Earnings",
+      extraDate: "Date",
+      extraType: "Kind",
+      extraAmount: "Amount ($)",
+      addExtra: "Add Earnings",
+      removeExtra: "Remove",
+      paystubs: "Paystubs",
+      paystubFields: { gross: "Gross", cpp: "CPP", ei: "EI", incomeTax: "Income Tax", net: "Net" } as Record<PaystubField, string>,
+      addPaystub: "Add Paystub",
+      removePaystub: "Remove",
+      estimated: "est.",
+      underpaid: "Underpaid",
+      totalUnderpaid: "Total Underpaid",
+      paystubsNote: "Enter what each cheque actually showed. Amounts more than 5¢ off the estimate are highlighted, and the stubs go out with the job export.",
+      statement: "Statement",
+      payStatement: "Pay Statement",
+      employer: "Employer",
+      payPeriod: "Pay Period",
+      printStatement: "Print / Save as PDF",
+      closeStatement: "Close",
+      current: "Current",
+      yearToDate: "Year to Date",
+      hoursHeading: "Hours",
+      regularHours: "Regular",
+      overtimeHours: "Overtime",
+      totalHours: "Total",
+      earningsHeading: "Earnings",
+      regularPay: "Regular Pay",
+      overtimePay: "Overtime Pay",
+      grossPay: "Gross Pay",
+      deductionsHeading: "Deductions",
+      incomeTax: "Income Tax",
+      reimbursements: "Reimbursements",
+      netPay: "Net Pay",
+      statementNote: "Worked out from the hours recorded in this app; year to date covers tax year",
+      extraColumn: "Extra",
+      earningTypes: {
+        "tips-controlled": "Tips (through payroll)",
+        "tips-cash": "Tips (cash)",
+        commission: "Commission",
+        bonus: "Bonus",
+        retro: "Retroactive pay",
+        reimbursement: "Reimbursement",
+      } as Record<EarningType, string>,
+      deductionsColumn: "Deductions",
+      preTaxTag: "pre-tax",
+      postTaxTag: "after tax",
+      weeklyOvertime: "Weekly OT After (h)",
+      dailyOvertime: "Daily OT After (h)",
+      doubleTimeAfter: "Double Time After (h/day)",
+      overtimeMultiplier: "OT Multiplier",
+      doubleTimeMultiplier: "Double Time Multiplier",
+      averagingWeeks: "Averaging (weeks)",
+      noAveraging: "None",
+      overnightRule: "Overnight Hours Count On",
+      overnightRules: { "start-date": "Start date", split: "Split at midnight" } as Record<OvernightRule, string>,
+      nextDay: "ends next day",
+      addShift: "+ Shift",
+      removeShift: "Remove shift",
+      shiftBreak: "Break (min)",
+      breakName: "Break",
+      breakNamePlaceholder: "e.g. Coffee break",
+      breakMinutes: "Minutes",
+      breakPaid: "Paid",
+      breakStart: "Starts at",
+      addBreakTemplate: "Add Break",
+      removeBreakTemplate: "Remove",
+      breakTemplatesNote: "Breaks added to each new shift",
+      addBreak: "Add break to shift",
+      removeBreak: "Remove break",
+      breakPaidTag: "paid",
+      breakUnpaidTag: "unpaid",
+      minutesShort: "min",
+      noEatingPeriod: "no meal break after 5h",
+      noEatingPeriodTitle: "Ontario ESA: a 30-minute eating period is due after no more than five hours of work",
+      off: "Off",
+      holidayPay: "Holiday Pay",
+      holidayWorked: "Worked holiday pay",
+      holidaySubstitute: "Substitute day",
+      holidayPremium: "Premium 1.5x",
+      substituteDate: "Substitute date",
+      vacationPay: "Vacation Pay",
+      vacationRate: "Vacation Pay (%)",
+      vacationMode: "Vacation Pay Paid",
+      vacationPerCheque: "On every cheque",
+      vacationAccrue: "Banked",
+      vacationIncreasedRate: "Increased Rate (%)",
+      vacationIncreaseAfter: "After (years)",
+      vacationBank: "Vacation Bank",
+      payoutDate: "Payout Date",
+      payoutAmount: "Payout Amount",
+      payoutAll: "Whole bank",
+      addPayout: "Add Payout",
+      removePayout: "Remove",
+      holidayNames: {
+        newYearsDay: "New Year's Day",
+        familyDay: "Family Day",
+        goodFriday: "Good Friday",
+        victoriaDay: "Victoria Day",
+        canadaDay: "Canada Day",
+        labourDay: "Labour Day",
+        thanksgiving: "Thanksgiving",
+        christmasDay: "Christmas Day",
+        boxingDay: "Boxing Day",
+      } as Record<HolidayKey, string>,
       roster: "Roster",
       rosterPeriod: "Roster Period",
       rosterWeekly: "Weekly",
@@ -846,6 +1574,65 @@ export default function App(): JSX.Element {
       rosterClose: "Close",
       export: "Export Data",
       exportAll: "Export All Jobs",
+      csvExport: "CSV Export",
+      csvTable: "Table",
+      csvDetails: "Daily details",
+      csvPeriods: "Pay periods",
+      csvFrom: "Export From",
+      csvTo: "Export To",
+      csvNumbers: "Number Format",
+      csvAllJobs: "All jobs, with a job column",
+      exportCsv: "Export CSV",
+      exportedCsv: "Exported CSV",
+      csvNote: "Daily details are picked by work date, pay periods by pay date. Leave a date blank for no limit.",
+      icsCalendar: "Calendar (.ics)",
+      icsAllJobs: "Every job's shifts",
+      exportIcs: "Export Calendar",
+      exportedIcs: "Exported calendar",
+      icsJob: "Import Into Job",
+      importIcs: "Import Calendar",
+      importedIcs: "Shifts imported",
+      noIcsShifts: "No timed events found in that calendar",
+      icsPreview: "Calendar Preview",
+      icsEvent: "Event",
+      icsIssues: {
+        recurring: "Repeating event: not imported",
+        overDay: "More than 24 hours on this date",
+      } as Record<IcsIssue, string>,
+      importIcsShifts: "Import Shifts",
+      icsNote: "Days with start and end times are exported in each job's time zone, with the day's estimated earnings. An imported calendar's events are previewed first, then replace the shifts on their dates and take the job's break templates. Repeating events are not imported: add their dates one by one.",
+      timeZone: "Time Zone",
+      timesheetImport: "Timesheet Import (CSV)",
+      chooseTimesheet: "Choose CSV File",
+      timesheetColumns: {
+        date: "Date Column", start: "Start Column", end: "End Column", hours: "Hours Column", breakMinutes: "Break Column",
+      } as Record<TimesheetField, string>,
+      timesheetFields: { date: "Date", start: "Start", end: "End", hours: "Hours", breakMinutes: "Break (min)" } as Record<TimesheetField, string>,
+      timesheetNoColumn: "(none)",
+      timesheetColumn: "Column",
+      timesheetDateFormat: "Date Format",
+      timesheetJob: "Into Job",
+      timesheetHeader: "First row is a header",
+      timesheetPreview: "Timesheet Preview",
+      timesheetRow: "Row",
+      timesheetStatus: "Status",
+      timesheetOk: "OK",
+      timesheetIssues: {
+        date: "Date not in the chosen format",
+        start: "Start time not recognized",
+        end: "End time not recognized",
+        incomplete: "Needs both a start and an end",
+        shift: "Not a valid shift",
+        hours: "Hours must be between 0 and 24",
+        break: "Break must be 0-180 minutes and less than the hours",
+        noHours: "No times or hours",
+        mixed: "Date mixes shifts with plain hours",
+        overDay: "More than 24 hours on this date",
+      } as Record<TimesheetIssue, string>,
+      importTimesheet: "Import Rows",
+      importedTimesheet: "Imported timesheet",
+      invalidTimesheet: "No rows found in that file",
+      timesheetNote: "Each imported date's hours are replaced by its rows; dates not in the file are left alone. Rows with a problem are skipped. Several rows on a date make a split shift.",
       import: "Import Data",
       job: "Job",
       removeJob: "Remove Job",
@@ -880,6 +1667,51 @@ export default function App(): JSX.Element {
       jobHours: "Hours",
       jobAfterTax: "After Tax",
       combinedTotal: "Combined Total",
+      contributionsTitle: "CPP & EI Across Employers",
+      contributionCpp: "CPP / QPP",
+      contributionCpp2: "CPP2",
+      contributionEi: "EI",
+      overContribution: "Refund",
+      maxShort: "max",
+      taxYear: "Tax Year",
+      residence: "Province of Residence",
+      taxTables: "Tax Tables",
+      taxTableMissing: "No tax table for",
+      taxTableUsing: "taxes are estimated with the rates of",
+      builtInTaxYears: "Built-in years",
+      importedTaxYears: "Imported years",
+      importTaxTables: "Import Tax Tables",
+      exportTaxTables: "Export Tax Tables",
+      exportedTaxTables: "Exported tax tables",
+      importedTaxTables: "Tax tables imported",
+      removeTaxTables: "Remove Imported Tables",
+      removedTaxTables: "Imported tax tables removed",
+      invalidTaxTable: "Tax table not imported",
+      taxTableProblems: {
+        json: "Not a JSON file",
+        object: "Missing, or not an object",
+        year: "Year must be a whole number from 2000 to 2100",
+        duplicate: "Year appears more than once",
+        amount: "Must be an amount of 0 or more",
+        rate: "Must be a rate from 0 to 1",
+        brackets: "Must be a list of brackets",
+        ascending: "Must be above the one before",
+        top: "Only the top bracket is unbounded, with upTo null",
+        bands: "Must be a list of premium bands",
+        segments: "Must be a list of dated changes",
+        from: "Must be a date in the entry's year, after the change before it",
+      } as Record<TaxTableProblem, string>,
+      taxTableNote: "A tax table is a JSON file in the format Export Tax Tables writes: one year, or a list of years. Imported years add to the built-in ones or replace them, for every job. Brackets must rise, the top one with upTo null, and rates are fractions from 0 to 1. A year's segments change the rates withheld from a pay date on; the return keeps the year's own figures.",
+      employmentIncome: "Employment Income",
+      returnDeductions: "Pension, RRSP & Union Dues",
+      federalTax: "Federal Tax",
+      provincialTax: "Provincial Tax",
+      liftCredit: "Ontario LIFT Credit",
+      workersBenefit: "Canada Workers Benefit",
+      taxPayable: "Tax Payable",
+      taxWithheld: "Tax Withheld",
+      projectedRefund: "Projected Refund",
+      balanceOwing: "Balance Owing",
       combinedEarned: "All Jobs After Tax",
       disclaimerLine1: "This website is generated by Ming and his AI friend, actual results may vary.",
       privacyLine: "Privacy: This is a front-end only app. All data stays in your browser local storage.",
@@ -903,8 +1735,154 @@ export default function App(): JSX.Element {
       addItem: "+ 新增項目",
       itemList: "項目清單",
       hourlyRate: "時薪",
+      newRate: "新時薪",
+      rateEffective: "生效日期",
+      addRateChange: "新增調薪",
+      removeRateChange: "移除",
+      rateHistory: "時薪紀錄",
       startDate: "開始日期",
       payCycle: "發薪週期",
+      periodStartDay: "週期起始日",
+      secondPeriodStartDay: "第二週期起始日",
+      payDateOffset: "週期結束後幾天發薪",
+      payDate: "發薪日",
+      province: "省份",
+      federalClaim: "TD1 聯邦申報額($)",
+      provincialClaim: "TD1 省申報額($)",
+      additionalTax: "每期額外扣稅($)",
+      secondJobClaim: "第二份工作:申報 $0",
+      birthDate: "出生日期",
+      cpt30: "已遞交 CPT30:65 歲後不扣 CPP",
+      cppAgeNote: "CPP 從 18 歲生日的下個月開始扣,到滿 70 歲的那個月後停止(向此工作遞交 CPT30 則為 65 歲;QPP 無此選項)。當年的上限依供款月數按比例減少。EI 沒有年齡限制。",
+      deductionName: "扣款",
+      deductionNamePlaceholder: "例如:團體 RRSP",
+      deductionKind: "類型",
+      deductionFixed: "固定金額(每期 $)",
+      deductionPercent: "總薪資百分比(%)",
+      deductionAmount: "金額",
+      deductionPreTax: "稅前",
+      addDeduction: "新增扣款",
+      removeDeduction: "移除",
+      premiumName: "輪班津貼",
+      premiumNamePlaceholder: "例如:夜班",
+      premiumKind: "津貼",
+      premiumFixed: "每小時 +$",
+      premiumPercent: "時薪 +%",
+      premiumAmount: "津貼金額",
+      premiumFrom: "開始",
+      premiumTo: "結束",
+      premiumDays: "津貼日",
+      premiumAllDay: "全天",
+      premiumEveryDay: "每天",
+      addPremium: "新增津貼",
+      removePremium: "移除",
+      premiumColumn: "輪班津貼",
+      weekdaysShort: ["日", "一", "二", "三", "四", "五", "六"],
+      extraEarnings: "其他收入",
+      extraDate: "日期",
+      extraType: "種類",
+      extraAmount: "金額($)",
+      addExtra: "新增收入",
+      removeExtra: "移除",
+      paystubs: "薪資單",
+      paystubFields: { gross: "總薪資", cpp: "CPP", ei: "EI", incomeTax: "所得稅", net: "淨額" } as Record<PaystubField, string>,
+      addPaystub: "新增薪資單",
+      removePaystub: "移除",
+      estimated: "估計",
+      underpaid: "短付",
+      totalUnderpaid: "累計短付",
+      paystubsNote: "輸入每張薪資單的實際金額。與估計相差超過 5¢ 的金額會標示出來；薪資單會隨工作匯出檔一起匯出。",
+      statement: "薪資明細",
+      payStatement: "薪資明細表",
+      employer: "雇主",
+      payPeriod: "發薪週期",
+      printStatement: "列印 / 儲存為 PDF",
+      closeStatement: "關閉",
+      current: "本期",
+      yearToDate: "年初至今",
+      hoursHeading: "工時",
+      regularHours: "正常",
+      overtimeHours: "加班",
+      totalHours: "合計",
+      earningsHeading: "收入",
+      regularPay: "正常工資",
+      overtimePay: "加班工資",
+      grossPay: "總薪資",
+      deductionsHeading: "扣款",
+      incomeTax: "所得稅",
+      reimbursements: "報銷",
+      netPay: "實發薪資",
+      statementNote: "依本程式記錄的工時計算；年初至今為稅務年度",
+      extraColumn: "其他",
+      earningTypes: {
+        "tips-controlled": "小費(經由薪資)",
+        "tips-cash": "小費(現金)",
+        commission: "佣金",
+        bonus: "獎金",
+        retro: "追溯加薪",
+        reimbursement: "費用報銷",
+      } as Record<EarningType, string>,
+      deductionsColumn: "扣款",
+      preTaxTag: "稅前",
+      postTaxTag: "稅後",
+      weeklyOvertime: "每週加班門檻(小時)",
+      dailyOvertime: "每日加班門檻(小時)",
+      doubleTimeAfter: "雙倍工資門檻(小時/日)",
+      overtimeMultiplier: "加班倍率",
+      doubleTimeMultiplier: "雙倍工資倍率",
+      averagingWeeks: "平均計算(週)",
+      noAveraging: "無",
+      overnightRule: "跨夜工時計入",
+      overnightRules: { "start-date": "開始日", split: "以午夜分開" } as Record<OvernightRule, string>,
+      nextDay: "隔天結束",
+      addShift: "+ 班次",
+      removeShift: "移除班次",
+      shiftBreak: "休息(分鐘)",
+      breakName: "休息",
+      breakNamePlaceholder: "例如:茶歇",
+      breakMinutes: "分鐘",
+      breakPaid: "有薪",
+      breakStart: "開始時間",
+      addBreakTemplate: "新增休息",
+      removeBreakTemplate: "移除",
+      breakTemplatesNote: "每個新班次自動加入的休息",
+      addBreak: "為班次新增休息",
+      removeBreak: "移除休息",
+      breakPaidTag: "有薪",
+      breakUnpaidTag: "無薪",
+      minutesShort: "分鐘",
+      noEatingPeriod: "逾5小時無用餐時間",
+      noEatingPeriodTitle: "安大略省僱傭標準法:連續工作不得超過五小時而無30分鐘用餐時間",
+      off: "關閉",
+      holidayPay: "假日工資",
+      holidayWorked: "假日上班工資",
+      holidaySubstitute: "補休日",
+      holidayPremium: "1.5倍加給",
+      substituteDate: "補休日期",
+      vacationPay: "假期薪資",
+      vacationRate: "假期薪資(%)",
+      vacationMode: "假期薪資發放",
+      vacationPerCheque: "每期發放",
+      vacationAccrue: "累積",
+      vacationIncreasedRate: "提高後比率(%)",
+      vacationIncreaseAfter: "年資(年)後",
+      vacationBank: "累積假期薪資",
+      payoutDate: "發放日期",
+      payoutAmount: "發放金額",
+      payoutAll: "全部",
+      addPayout: "新增發放",
+      removePayout: "移除",
+      holidayNames: {
+        newYearsDay: "元旦",
+        familyDay: "家庭日",
+        goodFriday: "耶穌受難日",
+        victoriaDay: "維多利亞日",
+        canadaDay: "加拿大國慶日",
+        labourDay: "勞動節",
+        thanksgiving: "感恩節",
+        christmasDay: "聖誕節",
+        boxingDay: "節禮日",
+      } as Record<HolidayKey, string>,
       roster: "排班",
       rosterPeriod: "排班週期",
       rosterWeekly: "每週",
@@ -920,6 +1898,65 @@ export default function App(): JSX.Element {
       rosterClose: "關閉",
       export: "匯出資料",
       exportAll: "匯出所有工作",
+      csvExport: "CSV 匯出",
+      csvTable: "表格",
+      csvDetails: "每日明細",
+      csvPeriods: "發薪週期",
+      csvFrom: "匯出起始日",
+      csvTo: "匯出結束日",
+      csvNumbers: "數字格式",
+      csvAllJobs: "所有工作（含工作欄）",
+      exportCsv: "匯出 CSV",
+      exportedCsv: "已匯出 CSV",
+      csvNote: "每日明細依工作日期篩選，發薪週期依發薪日篩選。日期留空表示不限。",
+      icsCalendar: "行事曆（.ics）",
+      icsAllJobs: "所有工作的班次",
+      exportIcs: "匯出行事曆",
+      exportedIcs: "已匯出行事曆",
+      icsJob: "匯入至工作",
+      importIcs: "匯入行事曆",
+      importedIcs: "已匯入班次",
+      noIcsShifts: "行事曆中找不到有時間的活動",
+      icsPreview: "行事曆預覽",
+      icsEvent: "活動",
+      icsIssues: {
+        recurring: "重複活動：不會匯入",
+        overDay: "此日期超過 24 小時",
+      } as Record<IcsIssue, string>,
+      importIcsShifts: "匯入班次",
+      icsNote: "有開始與結束時間的日子會依各工作的時區匯出，並附上當天的預估收入。匯入行事曆時會先預覽，活動會取代當天的班次，並套用工作的休息範本。重複活動不會匯入，請逐一加入日期。",
+      timeZone: "時區",
+      timesheetImport: "工時表匯入（CSV）",
+      chooseTimesheet: "選擇 CSV 檔案",
+      timesheetColumns: {
+        date: "日期欄", start: "開始欄", end: "結束欄", hours: "時數欄", breakMinutes: "休息欄",
+      } as Record<TimesheetField, string>,
+      timesheetFields: { date: "日期", start: "開始", end: "結束", hours: "時數", breakMinutes: "休息（分）" } as Record<TimesheetField, string>,
+      timesheetNoColumn: "（無）",
+      timesheetColumn: "欄",
+      timesheetDateFormat: "日期格式",
+      timesheetJob: "匯入至工作",
+      timesheetHeader: "第一列為標題",
+      timesheetPreview: "工時表預覽",
+      timesheetRow: "列",
+      timesheetStatus: "狀態",
+      timesheetOk: "正常",
+      timesheetIssues: {
+        date: "日期不符所選格式",
+        start: "無法辨識開始時間",
+        end: "無法辨識結束時間",
+        incomplete: "需要開始與結束時間",
+        shift: "不是有效的班次",
+        hours: "時數須介於 0 到 24",
+        break: "休息須為 0-180 分鐘且少於時數",
+        noHours: "沒有時間或時數",
+        mixed: "同一天混用班次與時數",
+        overDay: "這天超過 24 小時",
+      } as Record<TimesheetIssue, string>,
+      importTimesheet: "匯入資料列",
+      importedTimesheet: "已匯入工時表",
+      invalidTimesheet: "檔案中找不到資料列",
+      timesheetNote: "匯入日期的工時會由檔案中的資料取代，檔案沒有的日期不變。有問題的資料列會略過。同一天的多列會成為分段班。",
       import: "匯入資料",
       job: "工作",
       removeJob: "移除工作",
@@ -954,6 +1991,51 @@ export default function App(): JSX.Element {
       jobHours: "工時",
       jobAfterTax: "稅後",
       combinedTotal: "合併總計",
+      contributionsTitle: "跨雇主 CPP 與 EI",
+      contributionCpp: "CPP / QPP",
+      contributionCpp2: "CPP2",
+      contributionEi: "EI",
+      overContribution: "退還",
+      maxShort: "上限",
+      taxYear: "稅務年度",
+      residence: "居住省份",
+      taxTables: "稅率表",
+      taxTableMissing: "沒有稅率表：",
+      taxTableUsing: "暫以此年度的稅率估算",
+      builtInTaxYears: "內建年度",
+      importedTaxYears: "已匯入年度",
+      importTaxTables: "匯入稅率表",
+      exportTaxTables: "匯出稅率表",
+      exportedTaxTables: "已匯出稅率表",
+      importedTaxTables: "已匯入稅率表",
+      removeTaxTables: "移除匯入的稅率表",
+      removedTaxTables: "已移除匯入的稅率表",
+      invalidTaxTable: "稅率表未匯入",
+      taxTableProblems: {
+        json: "不是 JSON 檔案",
+        object: "缺少此欄位或格式不是物件",
+        year: "年度須為 2000 至 2100 的整數",
+        duplicate: "年度重複出現",
+        amount: "須為 0 以上的金額",
+        rate: "須為 0 至 1 之間的稅率",
+        brackets: "須為級距清單",
+        ascending: "須大於前一項",
+        top: "只有最高級距沒有上限，upTo 為 null",
+        bands: "須為保費級距清單",
+        segments: "須為附日期的變更清單",
+        from: "須為該年度內的日期，且晚於前一項變更",
+      } as Record<TaxTableProblem, string>,
+      taxTableNote: "稅率表是 JSON 檔案，格式與「匯出稅率表」相同：單一年度或多個年度的清單。匯入的年度會新增或取代內建年度，適用於所有工作。級距須遞增，最高級距的 upTo 為 null，稅率為 0 至 1 之間的小數。年度的 segments 會自某個發薪日起變更扣繳稅率；報稅仍以該年度本身的數字計算。",
+      employmentIncome: "受僱收入",
+      returnDeductions: "退休金、RRSP 與工會會費",
+      federalTax: "聯邦稅",
+      provincialTax: "省稅",
+      liftCredit: "安省 LIFT 抵免",
+      workersBenefit: "加拿大工人福利",
+      taxPayable: "應繳稅額",
+      taxWithheld: "已預扣稅額",
+      projectedRefund: "預估退稅",
+      balanceOwing: "應補稅額",
       combinedEarned: "所有工作稅後收入",
       disclaimerLine1: "此網站由 Ming 及其 AI 朋友建立，實際結果可能會不同。",
       privacyLine: "隱私權：此為純前端應用，所有資料僅保存在你的瀏覽器本機儲存中。",
@@ -1053,7 +2135,7 @@ export default function App(): JSX.Element {
               {allJobsSummary.jobs.map(job => (
                 <tr key={job.id} className={job.id === activeJobId ? "active-job-row" : ""}>
                   <td className="aj-name">{job.name}</td>
-                  <td>${job.hourlyRate.toFixed(2)}</td>
+                  <td>{(job.rates.length > 1 ? job.rates : [job.hourlyRate]).map(rate => `$${rate.toFixed(2)}`).join(" → ")}</td>
                   <td>{job.hours.toFixed(2)}</td>
                   <td>${job.afterTax.toFixed(2)}</td>
                 </tr>
@@ -1074,15 +2156,116 @@ export default function App(): JSX.Element {
             />
             <span>{labels[lang].combineJobsLabel}</span>
           </label>
+          {allJobsSummary.contributions.length > 0 && (
+            <>
+              <h3 className="contributions-title">{labels[lang].contributionsTitle}</h3>
+              <table className="all-jobs-table contributions-table">
+                <thead>
+                  <tr>
+                    <th className="aj-name">{labels[lang].taxYear}</th>
+                    <th>{labels[lang].contributionCpp}</th>
+                    <th>{labels[lang].contributionCpp2}</th>
+                    <th>{labels[lang].contributionEi}</th>
+                    <th>{labels[lang].overContribution}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {allJobsSummary.contributions.map(c => (
+                    <tr key={c.year} className={c.refund > 0 ? "tax-refund" : ""}>
+                      <td className="aj-name">{c.year}</td>
+                      <td>${c.cpp.toFixed(2)}<div className="aj-max">{labels[lang].maxShort} ${c.maxCpp.toFixed(2)}</div></td>
+                      <td>${c.cpp2.toFixed(2)}<div className="aj-max">{labels[lang].maxShort} ${c.maxCpp2.toFixed(2)}</div></td>
+                      <td>${c.ei.toFixed(2)}<div className="aj-max">{labels[lang].maxShort} ${c.maxEi.toFixed(2)}</div></td>
+                      <td>${c.refund.toFixed(2)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </>
+          )}
+        </div>
+      )}
+
+      {/* Year-end return: every job's income together, against what was withheld */}
+      {taxReturn && (
+        <div className="card tax-year-card">
+          <div className="tax-year-head">
+            <h3>{labels[lang].taxYear}</h3>
+            <select aria-label={labels[lang].taxYear} className="control-input" value={taxReturn.year}
+              onChange={e => setReturnYear(Number(e.target.value))}>
+              {taxYears.map(y => <option key={y} value={y}>{y}</option>)}
+            </select>
+            <select aria-label={labels[lang].residence} className="control-input" value={residence}
+              onChange={e => setProfile(prev => normalizeProfile({ ...prev, province: e.target.value }))}>
+              {PROVINCE_CODES.map(code => <option key={code} value={code}>{PROVINCES[code].name}</option>)}
+            </select>
+          </div>
+          <table className="all-jobs-table tax-year-table">
+            <tbody>
+              <tr><td className="aj-name">{labels[lang].employmentIncome}</td><td>${taxReturn.employmentIncome.toFixed(2)}</td></tr>
+              {taxReturn.deductions > 0 && (
+                <tr><td className="aj-name">{labels[lang].returnDeductions}</td><td>−${taxReturn.deductions.toFixed(2)}</td></tr>
+              )}
+              <tr><td className="aj-name">{labels[lang].federalTax}</td><td>${taxReturn.federalTax.toFixed(2)}</td></tr>
+              <tr>
+                <td className="aj-name">{labels[lang].provincialTax} ({PROVINCES[taxReturn.province].name})</td>
+                <td>${taxReturn.provincialTax.toFixed(2)}</td>
+              </tr>
+              {taxReturn.province === "ON" && (
+                <tr><td className="aj-name">{labels[lang].liftCredit}</td><td>−${taxReturn.lift.toFixed(2)}</td></tr>
+              )}
+              <tr><td className="aj-name">{labels[lang].workersBenefit}</td><td>−${taxReturn.cwb.toFixed(2)}</td></tr>
+              <tr><td className="aj-name">{labels[lang].taxPayable}</td><td>${taxReturn.netTax.toFixed(2)}</td></tr>
+              <tr><td className="aj-name">{labels[lang].taxWithheld}</td><td>${taxReturn.withheld.toFixed(2)}</td></tr>
+              <tr className={`all-jobs-total ${taxReturn.balance >= 0 ? "tax-refund" : "tax-owing"}`}>
+                <td className="aj-name">{taxReturn.balance >= 0 ? labels[lang].projectedRefund : labels[lang].balanceOwing}</td>
+                <td>${Math.abs(taxReturn.balance).toFixed(2)}</td>
+              </tr>
+            </tbody>
+          </table>
         </div>
       )}
 
+      {/* Tax tables: built-in years, imported ones, and any year priced on another's rates */}
+      <div className="card tax-tables-card">
+        <h3>{labels[lang].taxTables}</h3>
+        {clampedTaxYears.map(({ year, usedYear }) => (
+          <p key={year} className="tax-table-warning" role="alert">
+            {labels[lang].taxTableMissing} {year}: {labels[lang].taxTableUsing} {usedYear}.
+          </p>
+        ))}
+        <p className="small-label">
+          {labels[lang].builtInTaxYears}: {Object.keys(TAX_YEARS).join(", ")}
+          {importedTaxYears.length > 0 && ` · ${labels[lang].importedTaxYears}: ${importedTaxYears.map(y => y.year).join(", ")}`}
+        </p>
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center" }}>
+          <label className="btn primary">
+            {labels[lang].importTaxTables}
+            <input type="file" accept="application/json,.json" onChange={handleTaxTableFile} style={{ display: "none" }} />
+          </label>
+          <button className="btn" onClick={exportTaxTables}>{labels[lang].exportTaxTables}</button>
+          {importedTaxYears.length > 0 && (
+            <button className="btn danger" onClick={removeImportedTaxYears}>{labels[lang].removeTaxTables}</button>
+          )}
+        </div>
+        {taxTableIssues.length > 0 && (
+          <ul className="tax-table-issues" aria-label={labels[lang].invalidTaxTable}>
+            {taxTableIssues.slice(0, 10).map(issue => (
+              <li key={`${issue.path}-${issue.problem}`}>
+                {issue.path && `${issue.path}: `}{labels[lang].taxTableProblems[issue.problem]}
+              </li>
+            ))}
+          </ul>
+        )}
+        <p className="small-label">{labels[lang].taxTableNote}</p>
+      </div>
+
       {/* Controls (note: Prev / Next moved to calendar header) */}
       <div className="card controls">
         <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center" }}>
           <div>
             <label className="small-label">{labels[lang].hourlyRate}</label>
-            <input className="control-input" type="number" value={hourlyRate} onChange={e => setHourlyRate(Number(e.target.value))} />
+            <input className="control-input" type="number" value={hourlyRate} onChange={e => setCurrentRate(Number(e.target.value))} />
           </div>
 
           <div>
@@ -1091,14 +2274,44 @@ export default function App(): JSX.Element {
           </div>
 
           <div>
-            <label className="small-label">{labels[lang].payCycle}</label>
-            <select className="control-input" value={payCycle} onChange={e => setPayCycle(e.target.value as PaymentCycle)} >
+            <label className="small-label" htmlFor="pay-cycle">{labels[lang].payCycle}</label>
+            <select id="pay-cycle" className="control-input" value={payCycle} onChange={e => setPayCycle(e.target.value as PaymentCycle)} >
+              <option value="weekly">Weekly</option>
               <option value="biweekly">Bi-weekly</option>
               <option value="semi-monthly">Semi-monthly</option>
               <option value="monthly">Monthly</option>
             </select>
           </div>
 
+          {(useSemiMonthlyRule || useMonthlyRule) && (
+            <div>
+              <label className="small-label" htmlFor="period-start-day">{labels[lang].periodStartDay}</label>
+              <input id="period-start-day" className="control-input" type="number" min={1} max={MAX_ANCHOR_DAY}
+                value={periodAnchors.startDay} onChange={e => updatePeriodAnchors("startDay", e.target.value)} />
+            </div>
+          )}
+
+          {useSemiMonthlyRule && (
+            <div>
+              <label className="small-label" htmlFor="second-period-start-day">{labels[lang].secondPeriodStartDay}</label>
+              <input id="second-period-start-day" className="control-input" type="number" min={1} max={MAX_ANCHOR_DAY}
+                value={periodAnchors.secondStartDay} onChange={e => updatePeriodAnchors("secondStartDay", e.target.value)} />
+            </div>
+          )}
+
+          <div>
+            <label className="small-label" htmlFor="pay-date-offset">{labels[lang].payDateOffset}</label>
+            <input id="pay-date-offset" className="control-input" type="number" min={0} max={MAX_PAY_DATE_OFFSET_DAYS}
+              value={periodAnchors.payDateOffsetDays} onChange={e => updatePeriodAnchors("payDateOffsetDays", e.target.value)} />
+          </div>
+
+          <div>
+            <label className="small-label" htmlFor="job-province">{labels[lang].province}</label>
+            <select id="job-province" className="control-input" value={province} onChange={e => setProvince(e.target.value as ProvinceCode)}>
+              {PROVINCE_CODES.map(code => <option key={code} value={code}>{PROVINCES[code].name}</option>)}
+            </select>
+          </div>
+
           <div style={{ marginTop: 25, display: "flex", gap: 8, flexWrap: "wrap" }}>
             <button className="btn" onClick={autoFillWeekdays}>{labels[lang].autoFill}</button>
             <button className="btn warn" onClick={resetMonthHours}>{labels[lang].reset}</button>
@@ -1107,6 +2320,308 @@ export default function App(): JSX.Element {
           </div>
         </div>
 
+        {/* Rate history: each day is paid at the rate in effect on its date */}
+        <div className="rate-history" style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center", marginTop: 12 }}>
+          <div>
+            <label className="small-label" htmlFor="rate-new">{labels[lang].newRate}</label>
+            <input id="rate-new" className="control-input" type="number" min={0} step={0.01}
+              value={rateDraft.rate} onChange={e => setRateDraft(prev => ({ ...prev, rate: e.target.value }))} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="rate-date">{labels[lang].rateEffective}</label>
+            <input id="rate-date" className="control-input" type="date"
+              value={rateDraft.date} onChange={e => setRateDraft(prev => ({ ...prev, date: e.target.value }))} />
+          </div>
+          <button className="btn" style={{ marginTop: 25 }} onClick={addRateChange}
+            disabled={!rateDraft.date || !(Number(rateDraft.rate) > 0)}>
+            {labels[lang].addRateChange}
+          </button>
+        </div>
+        {rateHistory.length > 1 && (
+          <ul className="pay-deduction-list" aria-label={labels[lang].rateHistory}>
+            {rateHistory.map(change => (
+              <li key={change.date}>
+                {change.date} · ${change.rate.toFixed(2)}/h
+                <button className="btn small soft-danger" onClick={() => removeRateChange(change.date)}>{labels[lang].removeRateChange}</button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Overtime policy for this job; ignored by the "3495" rule */}
+        <div className="overtime-policy" style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center", marginTop: 12 }}>
+          <div>
+            <label className="small-label" htmlFor="ot-weekly">{labels[lang].weeklyOvertime}</label>
+            <input id="ot-weekly" className="control-input" type="number" min={0} placeholder={labels[lang].off}
+              value={overtime.weeklyThreshold ?? ""} onChange={e => updateOvertime("weeklyThreshold", e.target.value)} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="ot-daily">{labels[lang].dailyOvertime}</label>
+            <input id="ot-daily" className="control-input" type="number" min={0} placeholder={labels[lang].off}
+              value={overtime.dailyThreshold ?? ""} onChange={e => updateOvertime("dailyThreshold", e.target.value)} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="ot-double">{labels[lang].doubleTimeAfter}</label>
+            <input id="ot-double" className="control-input" type="number" min={0} placeholder={labels[lang].off}
+              value={overtime.doubleTimeThreshold ?? ""} onChange={e => updateOvertime("doubleTimeThreshold", e.target.value)} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="ot-multiplier">{labels[lang].overtimeMultiplier}</label>
+            <input id="ot-multiplier" className="control-input" type="number" min={1} step={0.25}
+              value={overtime.overtimeMultiplier} onChange={e => updateOvertime("overtimeMultiplier", e.target.value)} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="ot-double-multiplier">{labels[lang].doubleTimeMultiplier}</label>
+            <input id="ot-double-multiplier" className="control-input" type="number" min={1} step={0.25}
+              value={overtime.doubleTimeMultiplier} onChange={e => updateOvertime("doubleTimeMultiplier", e.target.value)} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="ot-averaging">{labels[lang].averagingWeeks}</label>
+            <select id="ot-averaging" className="control-input" value={overtime.averagingWeeks} onChange={e => updateOvertime("averagingWeeks", e.target.value)}>
+              {[1, 2, 3, 4].map(w => <option key={w} value={w}>{w === 1 ? labels[lang].noAveraging : w}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="small-label" htmlFor="time-zone">{labels[lang].timeZone}</label>
+            <select id="time-zone" className="control-input" value={timeZone} onChange={e => changeTimeZone(e.target.value)}>
+              {(TIME_ZONES.includes(timeZone) ? TIME_ZONES : [timeZone, ...TIME_ZONES]).map(zone => (
+                <option key={zone} value={zone}>{zone.replace(/^America\//, "").replace(/_/g, " ")}</option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="small-label" htmlFor="overnight-rule">{labels[lang].overnightRule}</label>
+            <select id="overnight-rule" className="control-input" value={overnightRule}
+              onChange={e => setOvernightRule(e.target.value as OvernightRule)}>
+              {(["start-date", "split"] as OvernightRule[]).map(rule => (
+                <option key={rule} value={rule}>{labels[lang].overnightRules[rule]}</option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        {/* TD1 claims: blank is the basic personal amount; a second job claims $0 */}
+        <div className="td1-claims" style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center", marginTop: 12 }}>
+          <div>
+            <label className="small-label" htmlFor="td1-federal">{labels[lang].federalClaim}</label>
+            <input id="td1-federal" className="control-input" type="number" min={0}
+              placeholder={String(basicPersonalAmounts.federal)}
+              value={taxClaims.federal ?? ""} onChange={e => updateTaxClaims("federal", e.target.value)} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="td1-provincial">{labels[lang].provincialClaim}</label>
+            <input id="td1-provincial" className="control-input" type="number" min={0}
+              placeholder={String(basicPersonalAmounts.provincial)}
+              value={taxClaims.provincial ?? ""} onChange={e => updateTaxClaims("provincial", e.target.value)} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="td1-additional">{labels[lang].additionalTax}</label>
+            <input id="td1-additional" className="control-input" type="number" min={0}
+              value={taxClaims.additionalTax || ""} placeholder="0" onChange={e => updateTaxClaims("additionalTax", e.target.value)} />
+          </div>
+          <button className="btn" style={{ marginTop: 25 }}
+            onClick={() => setTaxClaims(prev => ({ ...prev, federal: 0, provincial: 0 }))}>{labels[lang].secondJobClaim}</button>
+        </div>
+
+        {/* CPP by age: none before 18 or after 70, or after 65 with a CPT30 filed with this employer */}
+        <div className="cpp-age" style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center", marginTop: 12 }}>
+          <div>
+            <label className="small-label" htmlFor="birth-date">{labels[lang].birthDate}</label>
+            <input id="birth-date" className="control-input" type="date" value={birthDate ?? ""}
+              onChange={e => setProfile(prev => normalizeProfile({ ...prev, birthDate: e.target.value }))} />
+          </div>
+          <label className="combine-jobs-toggle">
+            <input type="checkbox" checked={cpt30} onChange={e => setCpt30(e.target.checked)} />
+            <span>{labels[lang].cpt30}</span>
+          </label>
+        </div>
+        <p className="small-label">{labels[lang].cppAgeNote}</p>
+
+        {/* Vacation pay: on every cheque, or banked until a payout */}
+        <div className="vacation-policy" style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center", marginTop: 12 }}>
+          <div>
+            <label className="small-label" htmlFor="vac-rate">{labels[lang].vacationRate}</label>
+            <input id="vac-rate" className="control-input" type="number" min={0} step={0.5}
+              value={round2(vacation.rate * 100)} onChange={e => updateVacation("rate", e.target.value)} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="vac-mode">{labels[lang].vacationMode}</label>
+            <select id="vac-mode" className="control-input" value={vacation.mode} onChange={e => updateVacation("mode", e.target.value as VacationPayMode)}>
+              <option value="per-cheque">{labels[lang].vacationPerCheque}</option>
+              <option value="accrue">{labels[lang].vacationAccrue}</option>
+            </select>
+          </div>
+          <div>
+            <label className="small-label" htmlFor="vac-increased">{labels[lang].vacationIncreasedRate}</label>
+            <input id="vac-increased" className="control-input" type="number" min={0} step={0.5} placeholder={labels[lang].off}
+              value={vacation.increasedRate == null ? "" : round2(vacation.increasedRate * 100)}
+              onChange={e => updateVacation("increasedRate", e.target.value)} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="vac-years">{labels[lang].vacationIncreaseAfter}</label>
+            <input id="vac-years" className="control-input" type="number" min={1}
+              value={vacation.increaseAfterYears} onChange={e => updateVacation("increaseAfterYears", e.target.value)} />
+          </div>
+          {vacation.mode === "accrue" && (
+            <>
+              <div>
+                <span className="small-label">{labels[lang].vacationBank}</span>
+                <div className="vacation-bank">${vacationBank.toFixed(2)}</div>
+              </div>
+              <div>
+                <label className="small-label" htmlFor="vac-payout-date">{labels[lang].payoutDate}</label>
+                <input id="vac-payout-date" className="control-input" type="date" value={payoutDate} onChange={e => setPayoutDate(e.target.value)} />
+              </div>
+              <div>
+                <label className="small-label" htmlFor="vac-payout-amount">{labels[lang].payoutAmount}</label>
+                <input id="vac-payout-amount" className="control-input" type="number" min={0} placeholder={labels[lang].payoutAll}
+                  value={payoutAmount} onChange={e => setPayoutAmount(e.target.value)} />
+              </div>
+              <button className="btn" style={{ marginTop: 25 }} onClick={addVacationPayout} disabled={!payoutDate}>{labels[lang].addPayout}</button>
+            </>
+          )}
+        </div>
+        {vacationPayouts.length > 0 && (
+          <ul className="vacation-payouts">
+            {vacationPayouts.map(p => (
+              <li key={p.id}>
+                {p.date} · {p.amount == null ? labels[lang].payoutAll : `$${p.amount.toFixed(2)}`}
+                <button className="btn small soft-danger" onClick={() => removeVacationPayout(p.id)}>{labels[lang].removePayout}</button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Recurring deductions: pre-tax ones lower the income tax withheld */}
+        <div className="pay-deductions" style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center", marginTop: 12 }}>
+          <div>
+            <label className="small-label" htmlFor="deduction-name">{labels[lang].deductionName}</label>
+            <input id="deduction-name" className="control-input" type="text" placeholder={labels[lang].deductionNamePlaceholder}
+              value={deductionName} onChange={e => setDeductionName(e.target.value)} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="deduction-kind">{labels[lang].deductionKind}</label>
+            <select id="deduction-kind" className="control-input" value={deductionKind} onChange={e => setDeductionKind(e.target.value as DeductionKind)}>
+              <option value="fixed">{labels[lang].deductionFixed}</option>
+              <option value="percent">{labels[lang].deductionPercent}</option>
+            </select>
+          </div>
+          <div>
+            <label className="small-label" htmlFor="deduction-amount">{labels[lang].deductionAmount}</label>
+            <input id="deduction-amount" className="control-input" type="number" min={0}
+              value={deductionAmount} onChange={e => setDeductionAmount(e.target.value)} />
+          </div>
+          <label className="deduction-pretax">
+            <input type="checkbox" checked={deductionPreTax} onChange={e => setDeductionPreTax(e.target.checked)} />
+            <span>{labels[lang].deductionPreTax}</span>
+          </label>
+          <button className="btn" style={{ marginTop: 25 }} onClick={addDeduction} disabled={!(Number(deductionAmount) > 0)}>
+            {labels[lang].addDeduction}
+          </button>
+        </div>
+        {deductions.length > 0 && (
+          <ul className="pay-deduction-list">
+            {deductions.map(d => (
+              <li key={d.id}>
+                {d.name || labels[lang].deductionName} · {d.kind === "percent" ? `${round2(d.amount * 100)}%` : `$${d.amount.toFixed(2)}`}
+                {" · "}{d.preTax ? labels[lang].preTaxTag : labels[lang].postTaxTag}
+                <button className="btn small soft-danger" onClick={() => removeDeduction(d.id)}>{labels[lang].removeDeduction}</button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Shift premiums: extra per hour in a time window, on some weekdays */}
+        <div className="shift-premiums" style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center", marginTop: 12 }}>
+          <div>
+            <label className="small-label" htmlFor="premium-name">{labels[lang].premiumName}</label>
+            <input id="premium-name" className="control-input" type="text" placeholder={labels[lang].premiumNamePlaceholder}
+              value={premiumDraft.name} onChange={e => setPremiumDraft(prev => ({ ...prev, name: e.target.value }))} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="premium-kind">{labels[lang].premiumKind}</label>
+            <select id="premium-kind" className="control-input" value={premiumDraft.kind}
+              onChange={e => setPremiumDraft(prev => ({ ...prev, kind: e.target.value as ShiftPremiumKind }))}>
+              <option value="fixed">{labels[lang].premiumFixed}</option>
+              <option value="percent">{labels[lang].premiumPercent}</option>
+            </select>
+          </div>
+          <div>
+            <label className="small-label" htmlFor="premium-amount">{labels[lang].premiumAmount}</label>
+            <input id="premium-amount" className="control-input" type="number" min={0}
+              value={premiumDraft.amount} onChange={e => setPremiumDraft(prev => ({ ...prev, amount: e.target.value }))} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="premium-start">{labels[lang].premiumFrom}</label>
+            <input id="premium-start" className="control-input" type="time"
+              value={premiumDraft.start} onChange={e => setPremiumDraft(prev => ({ ...prev, start: e.target.value }))} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="premium-end">{labels[lang].premiumTo}</label>
+            <input id="premium-end" className="control-input" type="time"
+              value={premiumDraft.end} onChange={e => setPremiumDraft(prev => ({ ...prev, end: e.target.value }))} />
+          </div>
+          <div className="premium-days" role="group" aria-label={labels[lang].premiumDays}>
+            {labels[lang].weekdaysShort.map((name, day) => (
+              <label key={day}>
+                <input type="checkbox" checked={premiumDraft.days.includes(day)} onChange={() => togglePremiumDay(day)} />
+                <span>{name}</span>
+              </label>
+            ))}
+          </div>
+          <button className="btn" style={{ marginTop: 25 }} onClick={addShiftPremium} disabled={!(Number(premiumDraft.amount) > 0)}>
+            {labels[lang].addPremium}
+          </button>
+        </div>
+        {shiftPremiums.length > 0 && (
+          <ul className="pay-deduction-list">
+            {shiftPremiums.map(p => (
+              <li key={p.id}>
+                {p.name || labels[lang].premiumName} · {p.kind === "percent" ? `+${round2(p.amount * 100)}%` : `+$${p.amount.toFixed(2)}/h`}
+                {" · "}{p.start && p.end ? `${p.start}–${p.end}` : labels[lang].premiumAllDay}
+                {" · "}{p.days.length ? p.days.map(d => labels[lang].weekdaysShort[d]).join(", ") : labels[lang].premiumEveryDay}
+                <button className="btn small soft-danger" onClick={() => removeShiftPremium(p.id)}>{labels[lang].removePremium}</button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {/* Break templates: the job's usual breaks, added to each new shift */}
+        <div className="break-templates" style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center", marginTop: 12 }}>
+          <div>
+            <label className="small-label" htmlFor="break-name">{labels[lang].breakName}</label>
+            <input id="break-name" className="control-input" type="text" placeholder={labels[lang].breakNamePlaceholder}
+              value={breakDraft.name} onChange={e => setBreakDraft(prev => ({ ...prev, name: e.target.value }))} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="break-minutes">{labels[lang].breakMinutes}</label>
+            <input id="break-minutes" className="control-input" type="number" min={0} max={180} step={5}
+              value={breakDraft.minutes} onChange={e => setBreakDraft(prev => ({ ...prev, minutes: e.target.value }))} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="break-start">{labels[lang].breakStart}</label>
+            <input id="break-start" className="control-input" type="time"
+              value={breakDraft.start} onChange={e => setBreakDraft(prev => ({ ...prev, start: e.target.value }))} />
+          </div>
+          <label className="deduction-pretax">
+            <input type="checkbox" checked={breakDraft.paid} onChange={e => setBreakDraft(prev => ({ ...prev, paid: e.target.checked }))} />
+            <span>{labels[lang].breakPaid}</span>
+          </label>
+          <button className="btn" style={{ marginTop: 25 }} onClick={addBreakTemplate} disabled={!(Number(breakDraft.minutes) > 0)}>
+            {labels[lang].addBreakTemplate}
+          </button>
+        </div>
+        {breakTemplates.length > 0 && (
+          <ul className="pay-deduction-list" aria-label={labels[lang].breakTemplatesNote}>
+            {breakTemplates.map(b => (
+              <li key={b.id}>
+                {b.name || labels[lang].breakName} · {describeBreak(b)}
+                <button className="btn small soft-danger" onClick={() => removeBreakTemplate(b.id)}>{labels[lang].removeBreakTemplate}</button>
+              </li>
+            ))}
+          </ul>
+        )}
+
       </div>
 
       {/* Items */}
@@ -1190,17 +2705,40 @@ export default function App(): JSX.Element {
               const rawEntry = dayHours.find(h => h.date === dateStr);
               const isToday = dateStr === todayStr;
               const isStart = dateStr === startDate;
+              const holiday = holidayMap.get(dateStr);
+              const workedHoliday = holiday && !useUnlawfulRule && (rawEntry?.hours ?? 0) > 0;
+              const holidayOption = rawEntry?.holidayOption ?? "substitute";
 
-              const { biWeekIndex } = getIndexInfo(dateStr);
-              const periodIndex = useMonthlyRule
-                ? getMonthlyInfo(dateStr).index
-                : useSemiMonthlyRule
-                  ? getSemiMonthlyInfo(dateStr).index
-                  : biWeekIndex;
+              const periodIndex = getPayPeriod(dateStr).index;
               const bgColor = BIWEEK_COLORS[periodIndex % BIWEEK_COLORS.length];
+              const shifts = getShifts(rawEntry);
+              const timed = hasShiftTimes(rawEntry);
+              // a shift's own breaks, and one of the job's templates to add
+              const renderBreaks = (shift: WorkShift, index: number) => (
+                <>
+                  {(shift.breaks ?? []).length > 0 && (
+                    <ul className="cal-breaks">
+                      {(shift.breaks ?? []).map((b, j) => (
+                        <li key={j}>
+                          {describeBreak(b)}
+                          <button className="btn small" aria-label={`${labels[lang].removeBreak} ${index + 1}.${j + 1}`}
+                            onClick={() => removeShiftBreak(dateStr, index, j)}>×</button>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                  {breakTemplates.length > 0 && shift.start && shift.end && (
+                    <select className="cal-input cal-add-break" aria-label={`${labels[lang].addBreak} ${index + 1}`} value=""
+                      onChange={e => addShiftBreak(dateStr, index, Number(e.target.value))}>
+                      <option value="">+ {labels[lang].breakName}</option>
+                      {breakTemplates.map(t => <option key={t.id} value={t.id}>{t.name || describeBreak(t)}</option>)}
+                    </select>
+                  )}
+                </>
+              );
 
               return (
-                <div key={idx} className={`cal-cell ${isToday ? "today" : ""} ${isStart ? "start" : ""}`} style={{
+                <div key={idx} className={`cal-cell ${isToday ? "today" : ""} ${isStart ? "start" : ""} ${holiday ? "holiday" : ""}`} style={{
                   background: bgColor,
                   border: isToday ? "2px solid #1976d2" : undefined,
                   display: "flex",
@@ -1211,23 +2749,61 @@ export default function App(): JSX.Element {
                   position: "relative",
                 }}>
                   <div className="cal-daynum">{dayNum}</div>
+                  {holiday && <div className="cal-holiday" title={holiday.name}>{labels[lang].holidayNames[holiday.key]}</div>}
 
                   {/* Start/End time input, larger for mobile */}
                   <div style={{ display: "flex", flexDirection: "column", gap: 2, width: "100%", alignItems: "center" }}>
                     <TimePicker
                       className="cal-input"
-                      value={rawEntry?.start ? dayjs(rawEntry?.start, 'HH:mm') : undefined}
+                      value={shifts[0]?.start ? dayjs(shifts[0].start, 'HH:mm') : undefined}
                       onChange={e => handleTimeInput(dateStr, "start", e)}
                       defaultOpenValue={dayjs('00:00', 'HH:mm')} format={'HH:mm'}
                       needConfirm={true}
                     />
                     <TimePicker
                       className="cal-input"
-                      value={rawEntry?.end ? dayjs(rawEntry?.end, 'HH:mm') : undefined}
+                      value={shifts[0]?.end ? dayjs(shifts[0].end, 'HH:mm') : undefined}
                       onChange={e => handleTimeInput(dateStr, "end", e)}
                       defaultOpenValue={dayjs('00:00', 'HH:mm')} format={'HH:mm'}
                       needConfirm={true} />
                   </div>
+                  {shifts[0] && renderBreaks(shifts[0], 0)}
+
+                  {/* later shifts of a split shift, each with its own break */}
+                  {shifts.slice(1).map((shift, i) => (
+                    <div key={i + 1} className="cal-shift">
+                      <TimePicker
+                        className="cal-input"
+                        value={shift.start ? dayjs(shift.start, 'HH:mm') : undefined}
+                        onChange={e => handleTimeInput(dateStr, "start", e, i + 1)}
+                        defaultOpenValue={dayjs('00:00', 'HH:mm')} format={'HH:mm'}
+                        needConfirm={true}
+                      />
+                      <TimePicker
+                        className="cal-input"
+                        value={shift.end ? dayjs(shift.end, 'HH:mm') : undefined}
+                        onChange={e => handleTimeInput(dateStr, "end", e, i + 1)}
+                        defaultOpenValue={dayjs('00:00', 'HH:mm')} format={'HH:mm'}
+                        needConfirm={true} />
+                      <input
+                        className="cal-input lunch-minutes-input"
+                        type="number"
+                        min={0}
+                        max={180}
+                        step={5}
+                        aria-label={`${labels[lang].shiftBreak} ${i + 2}`}
+                        placeholder={labels[lang].shiftBreak}
+                        value={shift.lunchMinutes ?? ""}
+                        onChange={e => handleLunchMinutesInput(dateStr, e.target.value, i + 1)}
+                      />
+                      <button className="btn small" aria-label={`${labels[lang].removeShift} ${i + 2}`}
+                        onClick={() => removeShift(dateStr, i + 1)}>×</button>
+                      {renderBreaks(shift, i + 1)}
+                    </div>
+                  ))}
+                  {timed && shifts.every(s => s.start && s.end) && (
+                    <button className="btn small cal-add-shift" onClick={() => addShift(dateStr)}>{labels[lang].addShift}</button>
+                  )}
 
                   {/* Old: Direct hours input for backward compatibility */}
                   <input
@@ -1244,9 +2820,9 @@ export default function App(): JSX.Element {
                       boxSizing: "border-box",
                     }}
                     value={
-                      rawEntry?.originalHours != null && (!rawEntry?.start && !rawEntry?.end)
+                      rawEntry?.originalHours != null && !timed
                         ? rawEntry.originalHours
-                        : rawEntry?.hours != null && (!rawEntry?.start && !rawEntry?.end)
+                        : rawEntry?.hours != null && !timed
                           ? rawEntry.hours
                           : ""
                     }
@@ -1258,12 +2834,43 @@ export default function App(): JSX.Element {
                   <div className="cal-hours" style={{ fontSize: 13, marginTop: 2 }}>
                     {rawEntry?.hours != null && !isNaN(rawEntry.hours) ? `${rawEntry.hours.toFixed(2)}h` : ""}
                   </div>
+                  {shifts.some(s => s.start && s.end && endsNextDay(s.start, s.end)) && (
+                    <div className="cal-next-day">{labels[lang].nextDay}</div>
+                  )}
+                  {shifts.some(s => missingEatingPeriod(dateStr, s, timeZone)) && (
+                    <div className="cal-esa-warning" title={labels[lang].noEatingPeriodTitle}>{labels[lang].noEatingPeriod}</div>
+                  )}
 
                   {/* daily after-tax (if exists) */}
                   <div className="cal-earn" style={{ fontSize: 13 }}>
                     {rec ? `$${rec.afterTax.toFixed(2)}` : ""}
                   </div>
 
+                  {/* worked public holiday: substitute day off, or premium pay */}
+                  {workedHoliday && (
+                    <div className="holiday-work" style={{ width: "100%", display: "flex", flexDirection: "column", alignItems: "center", gap: 2, marginTop: 4 }}>
+                      <select
+                        className="cal-input"
+                        aria-label={labels[lang].holidayWorked}
+                        value={holidayOption}
+                        onChange={e => handleHolidayOption(dateStr, e.target.value as HolidayWorkOption)}
+                      >
+                        <option value="substitute">{labels[lang].holidaySubstitute}</option>
+                        <option value="premium">{labels[lang].holidayPremium}</option>
+                      </select>
+                      {holidayOption === "substitute" && (
+                        <input
+                          className="cal-input"
+                          type="date"
+                          aria-label={labels[lang].substituteDate}
+                          value={rawEntry?.substituteDate ?? ""}
+                          min={dateStr}
+                          onChange={e => handleSubstituteDate(dateStr, e.target.value)}
+                        />
+                      )}
+                    </div>
+                  )}
+
                   {/* Lunch minutes (placed above reset button) */}
                   <div style={{ width: "100%", display: "flex", flexDirection: "column", alignItems: "center", gap: 6, marginTop: 6 }}>
                     <div className="lunch-minutes">
@@ -1277,7 +2884,7 @@ export default function App(): JSX.Element {
                         min={0}
                         max={180}
                         step={5}
-                        value={rawEntry?.lunchMinutes ?? ""}
+                        value={(timed ? shifts[0]?.lunchMinutes : rawEntry?.lunchMinutes) ?? ""}
                         onChange={e => handleLunchMinutesInput(dateStr, e.target.value)}
                       />
                     </div>
@@ -1380,6 +2987,215 @@ export default function App(): JSX.Element {
       </div>
       </div>
 
+      {/* Extra earnings: tips, commission, bonuses and reimbursements, dated */}
+      <div className="card extra-earnings-card">
+        <h3>{labels[lang].extraEarnings}</h3>
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center" }}>
+          <div>
+            <label className="small-label" htmlFor="extra-date">{labels[lang].extraDate}</label>
+            <input id="extra-date" className="control-input" type="date" value={extraDate} onChange={e => setExtraDate(e.target.value)} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="extra-type">{labels[lang].extraType}</label>
+            <select id="extra-type" className="control-input" value={extraType} onChange={e => setExtraType(e.target.value as EarningType)}>
+              {EARNING_TYPES.map(t => <option key={t} value={t}>{labels[lang].earningTypes[t]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="small-label" htmlFor="extra-amount">{labels[lang].extraAmount}</label>
+            <input id="extra-amount" className="control-input" type="number" min={0}
+              value={extraAmount} onChange={e => setExtraAmount(e.target.value)} />
+          </div>
+          <button className="btn" style={{ marginTop: 25 }} onClick={addExtraEarning}
+            disabled={!extraDate || !(Number(extraAmount) > 0)}>{labels[lang].addExtra}</button>
+        </div>
+        {monthExtras.length > 0 && (
+          <ul className="pay-deduction-list">
+            {monthExtras.map(e => (
+              <li key={`${e.date}-${e.id}`}>
+                {e.date} · {labels[lang].earningTypes[e.type]} · ${e.amount.toFixed(2)}
+                <button className="btn small soft-danger" onClick={() => removeExtraEarning(e.date, e.id)}>{labels[lang].removeExtra}</button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* CSV for spreadsheets: daily details or pay periods, in a date range */}
+      <div className="card csv-export-card">
+        <h3>{labels[lang].csvExport}</h3>
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center" }}>
+          <div>
+            <label className="small-label" htmlFor="csv-table">{labels[lang].csvTable}</label>
+            <select id="csv-table" className="control-input" value={csvOptions.table}
+              onChange={e => setCsvOptions(prev => ({ ...prev, table: e.target.value as CsvTable }))}>
+              <option value="details">{labels[lang].csvDetails}</option>
+              <option value="periods">{labels[lang].csvPeriods}</option>
+            </select>
+          </div>
+          <div>
+            <label className="small-label" htmlFor="csv-from">{labels[lang].csvFrom}</label>
+            <input id="csv-from" className="control-input" type="date" value={csvOptions.from}
+              onChange={e => setCsvOptions(prev => ({ ...prev, from: e.target.value }))} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="csv-to">{labels[lang].csvTo}</label>
+            <input id="csv-to" className="control-input" type="date" value={csvOptions.to}
+              onChange={e => setCsvOptions(prev => ({ ...prev, to: e.target.value }))} />
+          </div>
+          <div>
+            <label className="small-label" htmlFor="csv-locale">{labels[lang].csvNumbers}</label>
+            <select id="csv-locale" className="control-input" value={csvOptions.locale}
+              onChange={e => setCsvOptions(prev => ({ ...prev, locale: e.target.value }))}>
+              {CSV_LOCALES.map(locale => (
+                <option key={locale} value={locale}>{new Intl.NumberFormat(locale, { minimumFractionDigits: 2 }).format(1234.5)} ({locale})</option>
+              ))}
+            </select>
+          </div>
+          <label className="combine-jobs-toggle">
+            <input type="checkbox" checked={csvOptions.allJobs}
+              onChange={e => setCsvOptions(prev => ({ ...prev, allJobs: e.target.checked }))} />
+            {labels[lang].csvAllJobs}
+          </label>
+          <button className="btn primary" style={{ marginTop: 25 }} onClick={exportCsv}>{labels[lang].exportCsv}</button>
+        </div>
+        <p className="small-label">{labels[lang].csvNote}</p>
+      </div>
+
+      {/* Timed shifts out to a phone calendar, and a schedule's events back in */}
+      <div className="card ics-card">
+        <h3>{labels[lang].icsCalendar}</h3>
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center" }}>
+          <label className="combine-jobs-toggle">
+            <input type="checkbox" checked={icsOptions.allJobs}
+              onChange={e => setIcsOptions(prev => ({ ...prev, allJobs: e.target.checked }))} />
+            {labels[lang].icsAllJobs}
+          </label>
+          <button className="btn primary" onClick={exportIcs}>{labels[lang].exportIcs}</button>
+          <div>
+            <label className="small-label" htmlFor="ics-job">{labels[lang].icsJob}</label>
+            <select id="ics-job" className="control-input" value={icsOptions.jobId ?? activeJobId}
+              onChange={e => setIcsOptions(prev => ({ ...prev, jobId: e.target.value }))}>
+              {jobs.map(job => <option key={job.id} value={job.id}>{job.name}</option>)}
+            </select>
+          </div>
+          <label className="btn primary">
+            {labels[lang].importIcs}
+            <input type="file" accept=".ics,text/calendar" onChange={handleIcsFile} style={{ display: "none" }} />
+          </label>
+        </div>
+        {icsDraft && (
+          <>
+            <div className="details-scroll">
+              <table className="all-jobs-table timesheet-table" aria-label={labels[lang].icsPreview}>
+                <thead>
+                  <tr>
+                    <th>{labels[lang].timesheetFields.date}</th>
+                    <th>{labels[lang].timesheetFields.start}</th>
+                    <th>{labels[lang].timesheetFields.end}</th>
+                    <th>{labels[lang].icsEvent}</th>
+                    <th>{labels[lang].timesheetStatus}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {icsDraft.shifts.map((s, i) => (
+                    <tr key={i} className={s.issue ? "timesheet-issue" : undefined}>
+                      <td>{s.date}</td>
+                      <td>{s.start}</td>
+                      <td>{s.end}</td>
+                      <td>{s.summary}</td>
+                      <td>{s.issue ? labels[lang].icsIssues[s.issue] : labels[lang].timesheetOk}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+              <button className="btn primary" disabled={icsReady === 0} onClick={importIcs}>
+                {labels[lang].importIcsShifts} ({icsReady}/{icsDraft.shifts.length})
+              </button>
+              <button className="btn" onClick={() => setIcsDraft(null)}>{labels[lang].cancel}</button>
+            </div>
+          </>
+        )}
+        <p className="small-label">{labels[lang].icsNote}</p>
+      </div>
+
+      {/* Punches from a scheduling app's CSV export, mapped onto a job's days */}
+      <div className="card timesheet-import-card">
+        <h3>{labels[lang].timesheetImport}</h3>
+        <label className="btn primary">
+          {labels[lang].chooseTimesheet}
+          <input type="file" accept=".csv,text/csv" onChange={handleTimesheetFile} style={{ display: "none" }} />
+        </label>
+        {timesheet && (
+          <>
+            <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center", marginTop: 12 }}>
+              {TIMESHEET_FIELDS.map(field => (
+                <div key={field}>
+                  <label className="small-label" htmlFor={`timesheet-${field}`}>{labels[lang].timesheetColumns[field]}</label>
+                  <select id={`timesheet-${field}`} className="control-input" value={timesheet.mapping[field] ?? ""}
+                    onChange={e => setTimesheetColumn(field, e.target.value)}>
+                    <option value="">{labels[lang].timesheetNoColumn}</option>
+                    {Array.from({ length: timesheetWidth }, (_, i) => <option key={i} value={i}>{timesheetColumnName(i)}</option>)}
+                  </select>
+                </div>
+              ))}
+              <div>
+                <label className="small-label" htmlFor="timesheet-date-format">{labels[lang].timesheetDateFormat}</label>
+                <select id="timesheet-date-format" className="control-input" value={timesheet.dateFormat}
+                  onChange={e => setTimesheet(prev => prev && { ...prev, dateFormat: e.target.value })}>
+                  {TIMESHEET_DATE_FORMATS.map(format => <option key={format} value={format}>{format}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className="small-label" htmlFor="timesheet-job">{labels[lang].timesheetJob}</label>
+                <select id="timesheet-job" className="control-input" value={timesheet.jobId}
+                  onChange={e => setTimesheet(prev => prev && { ...prev, jobId: e.target.value })}>
+                  {jobs.map(job => <option key={job.id} value={job.id}>{job.name}</option>)}
+                </select>
+              </div>
+              <label className="combine-jobs-toggle">
+                <input type="checkbox" checked={timesheet.hasHeader}
+                  onChange={e => setTimesheet(prev => prev && draftTimesheet(prev.rows, e.target.checked, prev.jobId))} />
+                {labels[lang].timesheetHeader}
+              </label>
+            </div>
+            <div className="details-scroll">
+              <table className="all-jobs-table timesheet-table" aria-label={labels[lang].timesheetPreview}>
+                <thead>
+                  <tr>
+                    <th>{labels[lang].timesheetRow}</th>
+                    {TIMESHEET_FIELDS.map(field => <th key={field}>{labels[lang].timesheetFields[field]}</th>)}
+                    <th>{labels[lang].timesheetStatus}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {timesheetRows.map(r => (
+                    <tr key={r.row} className={r.issue ? "timesheet-issue" : undefined}>
+                      <td>{r.row}</td>
+                      <td>{r.date ?? timesheetCell(r.row, "date")}</td>
+                      <td>{r.shift?.start ?? timesheetCell(r.row, "start")}</td>
+                      <td>{r.shift?.end ?? timesheetCell(r.row, "end")}</td>
+                      <td>{r.hours != null ? r.hours.toFixed(2) : timesheetCell(r.row, "hours")}</td>
+                      <td>{r.breakMinutes || timesheetCell(r.row, "breakMinutes")}</td>
+                      <td>{r.issue ? labels[lang].timesheetIssues[r.issue] : labels[lang].timesheetOk}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <div style={{ display: "flex", gap: 8, marginTop: 8 }}>
+              <button className="btn primary" disabled={timesheetReady === 0} onClick={importTimesheet}>
+                {labels[lang].importTimesheet} ({timesheetReady}/{timesheetRows.length})
+              </button>
+              <button className="btn" onClick={() => setTimesheet(null)}>{labels[lang].cancel}</button>
+            </div>
+            <p className="small-label">{labels[lang].timesheetNote}</p>
+          </>
+        )}
+      </div>
+
       {/* Export / Import / Save / Clear */}
       <div style={{ display: "flex", gap: 8, justifyContent: "flex-end", alignItems: "center", flexWrap: "wrap" }}>
         <button className="btn primary" onClick={exportData}>{labels[lang].export}</button>
@@ -1395,7 +3211,7 @@ export default function App(): JSX.Element {
       </div>
 
       <div className="card biweekly-card">
-        <h3>{useMonthlyRule ? "Monthly Summary" : useSemiMonthlyRule ? "Pay Period Summary" : "Bi-weekly Summary"}</h3>
+        <h3>{useMonthlyRule ? "Monthly Summary" : useSemiMonthlyRule ? "Pay Period Summary" : useWeeklyRule ? "Weekly Summary" : "Bi-weekly Summary"}</h3>
         <table className="items-table">
           <thead>
             <tr>
@@ -1403,18 +3219,26 @@ export default function App(): JSX.Element {
                 <th key="period">Period</th>,
                 <th key="hrs">Hrs</th>,
                 <th key="period-date">Period Date</th>,
+                ...(paidLater ? [<th key="pay-date">{labels[lang].payDate}</th>] : []),
                 <th key="earnings">{useUnlawfulRule ? "Earnings (<=88)" : "Earnings"}</th>,
                 <th key="overtime">{useUnlawfulRule ? "Earnings (>88)" : "Overtime Earnings"}</th>,
+                ...(hasPremiums ? [<th key="premium">{labels[lang].premiumColumn}</th>] : []),
+                <th key="holiday">{labels[lang].holidayPay}</th>,
+                <th key="vacation">{labels[lang].vacationPay}</th>,
+                ...(hasExtras ? [<th key="extra">{labels[lang].extraColumn}</th>] : []),
                 <th key="tax">Income Tax</th>,
                 <th key="ei">EI</th>,
-                <th key="cpp">CPP</th>,
+                <th key="cpp">{inQuebec ? "QPP" : "CPP"}</th>,
+                ...(inQuebec ? [<th key="qpip">QPIP</th>] : []),
+                ...(hasDeductions ? [<th key="deductions">{labels[lang].deductionsColumn}</th>] : []),
                 <th key="net">{useUnlawfulRule ? "Net (<88)" : "Net"}</th>,
                 <th key="takehome">Take-Home Pay</th>,
+                <th key="statement" />,
               ]}
             </tr>
           </thead>
           <tbody>
-            {biWeeklySummary.length === 0 && <tr><td colSpan={10} style={{ textAlign: "center" }}>No data</td></tr>}
+            {biWeeklySummary.length === 0 && <tr><td colSpan={13 + [paidLater, inQuebec, hasPremiums, hasExtras, hasDeductions].filter(Boolean).length} style={{ textAlign: "center" }}>No data</td></tr>}
             {biWeeklySummary.map((b, i) => {
               const periodDays = b.days || [];
               const periodDates = (useSemiMonthlyRule || useMonthlyRule) && b.start && b.end
@@ -1426,7 +3250,12 @@ export default function App(): JSX.Element {
               // Calculate earnings split for this period
               let regularEarnings = 0;
               let overtimeEarnings = 0;
-              const bonusMultiplier = 1 + BIWEEKLY_BONUS_RATE;
+              // over-threshold cash under the bi-weekly rule, with its vacation pay
+              let untaxedCash = 0;
+              const holidayPay = periodDetails.reduce((sum, d) => sum + d.holidayPay, 0);
+              const vacationPay = periodDetails.reduce((sum, d) => sum + d.vacationPay, 0);
+              const extraEarnings = periodDetails.reduce((sum, d) => sum + d.extraEarnings, 0);
+              const shiftPremium = periodDetails.reduce((sum, d) => sum + d.shiftPremium, 0);
               if (useUnlawfulRule) {
                 let taxedHours = 0;
                 for (const d of periodDetails) {
@@ -1435,19 +3264,17 @@ export default function App(): JSX.Element {
                   const thisTaxed = Math.min(h, taxedLeft);
                   const thisOver = h - thisTaxed;
                   taxedHours += thisTaxed;
-                  regularEarnings += thisTaxed * hourlyRate * bonusMultiplier;
-                  overtimeEarnings += thisOver * hourlyRate * bonusMultiplier;
+                  regularEarnings += thisTaxed * d.hourlyRate;
+                  overtimeEarnings += thisOver * d.hourlyRate;
+                  const vacationRate = vacation.mode === "per-cheque" ? vacationRateOn(d.date, startDate, vacation) : 0;
+                  untaxedCash += thisOver * d.hourlyRate * (1 + vacationRate);
                 }
               } else {
-                const weeklyWorked = new Map<number, number>();
+                // the calculator already split each day by the job's overtime policy
                 for (const d of periodDetails) {
-                  const { weekIndex } = getIndexInfo(d.date);
-                  const workedSoFar = weeklyWorked.get(weekIndex) || 0;
-                  const regularHours = Math.max(0, Math.min(d.hours, WEEKLY_OVERTIME_THRESHOLD - workedSoFar));
-                  const overtimeHours = Math.max(0, d.hours - regularHours);
-                  weeklyWorked.set(weekIndex, workedSoFar + d.hours);
-                  regularEarnings += regularHours * hourlyRate * bonusMultiplier;
-                  overtimeEarnings += overtimeHours * hourlyRate * OVERTIME_MULTIPLIER * bonusMultiplier;
+                  regularEarnings +=
+                    d.earnings - d.overtimeEarnings - d.shiftPremium - d.holidayPay - d.vacationPay - d.extraEarnings;
+                  overtimeEarnings += d.overtimeEarnings;
                 }
               }
 
@@ -1456,10 +3283,12 @@ export default function App(): JSX.Element {
               const displayIncomeTax = periodDetails.reduce((sum, d) => sum + d.incomeTax, 0);
               const displayEmployeeInsurance = periodDetails.reduce((sum, d) => sum + d.employeeInsurance, 0);
               const displayCpp = periodDetails.reduce((sum, d) => sum + d.cpp, 0);
+              const displayQpip = periodDetails.reduce((sum, d) => sum + d.qpip, 0);
+              const displayDeductions = periodDetails.reduce((sum, d) => sum + d.preTaxDeductions + d.postTaxDeductions, 0);
               const displayTakeHome = periodDetails.reduce((sum, d) => sum + d.afterTax, 0);
               // Under the bi-weekly rule the over-threshold hours are paid untaxed,
               // so net pay on the taxed portion is take-home less that cash.
-              const displayNet = useUnlawfulRule ? displayTakeHome - overtimeEarnings : displayTakeHome;
+              const displayNet = useUnlawfulRule ? displayTakeHome - untaxedCash : displayTakeHome;
 
               return (
                 <tr key={b.index}>
@@ -1467,13 +3296,23 @@ export default function App(): JSX.Element {
                     <td key="index">{b.index}</td>,
                     <td key="hours">{round2(hours)}</td>,
                     <td key="dates">{periodDates}</td>,
+                    ...(paidLater ? [<td key="pay-date">{b.payDate}</td>] : []),
                     <td key="regular">${round2(regularEarnings).toFixed(2)}</td>,
                     <td key="overtime">${round2(overtimeEarnings).toFixed(2)}</td>,
+                    ...(hasPremiums ? [<td key="premium">${round2(shiftPremium).toFixed(2)}</td>] : []),
+                    <td key="holiday">${round2(holidayPay).toFixed(2)}</td>,
+                    <td key="vacation">${round2(vacationPay).toFixed(2)}</td>,
+                    ...(hasExtras ? [<td key="extra">${round2(extraEarnings).toFixed(2)}</td>] : []),
                     <td key="income-tax">${round2(displayIncomeTax).toFixed(2)}</td>,
                     <td key="ei">${round2(displayEmployeeInsurance).toFixed(2)}</td>,
                     <td key="cpp">${round2(displayCpp).toFixed(2)}</td>,
+                    ...(inQuebec ? [<td key="qpip">${round2(displayQpip).toFixed(2)}</td>] : []),
+                    ...(hasDeductions ? [<td key="deductions">${round2(displayDeductions).toFixed(2)}</td>] : []),
                     <td key="net">${round2(displayNet).toFixed(2)}</td>,
                     <td key="take-home">${round2(displayTakeHome).toFixed(2)}</td>,
+                    <td key="statement">
+                      <button className="btn small" onClick={() => setStatementPayDate(b.payDate)}>{labels[lang].statement}</button>
+                    </td>,
                   ]}
                 </tr>
               );
@@ -1482,6 +3321,70 @@ export default function App(): JSX.Element {
         </table>
       </div>
 
+      {/* Paystubs: what each cheque actually showed, against the estimate */}
+      <div className="card paystubs-card">
+        <h3>{labels[lang].paystubs}</h3>
+        <div style={{ display: "flex", gap: 12, flexWrap: "wrap", alignItems: "center" }}>
+          <div>
+            <label className="small-label" htmlFor="paystub-date">{labels[lang].payDate}</label>
+            <select id="paystub-date" className="control-input" value={paystubDraft.payDate || payDates[0] || ""}
+              onChange={e => setPaystubDraft(prev => ({ ...prev, payDate: e.target.value }))}>
+              {payDates.map(date => <option key={date} value={date}>{date}</option>)}
+            </select>
+          </div>
+          {PAYSTUB_FIELDS.map(f => (
+            <div key={f}>
+              <label className="small-label" htmlFor={`paystub-${f}`}>{paystubFieldLabel(f)} ($)</label>
+              <input id={`paystub-${f}`} className="control-input" type="number" min={0} step="0.01"
+                value={paystubDraft[f]} onChange={e => setPaystubDraft(prev => ({ ...prev, [f]: e.target.value }))} />
+            </div>
+          ))}
+          <button className="btn" style={{ marginTop: 25 }} onClick={addPaystub}
+            disabled={payDates.length === 0 || PAYSTUB_FIELDS.every(f => paystubDraft[f] === "")}>{labels[lang].addPaystub}</button>
+        </div>
+        <p className="small-label">{labels[lang].paystubsNote}</p>
+        {paystubChecks.length > 0 && (
+          <div className="details-scroll">
+            <table className="all-jobs-table paystubs-table" aria-label={labels[lang].paystubs}>
+              <thead>
+                <tr>
+                  <th>{labels[lang].payDate}</th>
+                  {PAYSTUB_FIELDS.map(f => <th key={f}>{paystubFieldLabel(f)}</th>)}
+                  <th>{labels[lang].underpaid}</th>
+                  <th>{labels[lang].totalUnderpaid}</th>
+                  <th />
+                </tr>
+              </thead>
+              <tbody>
+                {paystubChecks.map(c => (
+                  <tr key={c.payDate}>
+                    <td className="aj-name">{c.payDate}</td>
+                    {PAYSTUB_FIELDS.map(f => {
+                      const actual = c.actual[f];
+                      const diff = c.diff[f];
+                      return (
+                        <td key={f} className={c.flagged.includes(f) ? "paystub-diff" : undefined}>
+                          {actual == null ? "—" : `$${actual.toFixed(2)}`}
+                          <div className="paystub-est">
+                            {labels[lang].estimated} ${c.expected[f].toFixed(2)}
+                            {diff != null && c.flagged.includes(f) && ` (${diff < 0 ? "−" : "+"}$${Math.abs(diff).toFixed(2)})`}
+                          </div>
+                        </td>
+                      );
+                    })}
+                    <td>${c.underpaid.toFixed(2)}</td>
+                    <td>${c.runningUnderpaid.toFixed(2)}</td>
+                    <td>
+                      <button className="btn small soft-danger" onClick={() => removePaystub(c.payDate)}>{labels[lang].removePaystub}</button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+
       {/* Details / History */}
       <div className="card">
         <h3>{labels[lang].details}</h3>
@@ -1493,9 +3396,12 @@ export default function App(): JSX.Element {
                   <th key="date">Date</th>,
                   <th key="hours">Hours</th>,
                   <th key="earnings">Earnings</th>,
+                  ...(hasPremiums ? [<th key="premium">{labels[lang].premiumColumn}</th>] : []),
+                  <th key="holiday">{labels[lang].holidayPay}</th>,
                   <th key="tax">Income Tax</th>,
                   <th key="ei">Employee Insurance</th>,
-                  <th key="cpp">CPP</th>,
+                  <th key="cpp">{inQuebec ? "QPP" : "CPP"}</th>,
+                  ...(inQuebec ? [<th key="qpip">QPIP</th>] : []),
                   <th key="after">After Tax</th>,
                 ]}
               </tr>
@@ -1503,7 +3409,7 @@ export default function App(): JSX.Element {
             <tbody>
               {detailedHistory.length === 0 && (
                 <tr>
-                  <td colSpan={7} style={{ textAlign: "center" }}>{labels[lang].noRecords}</td>
+                  <td colSpan={8 + [inQuebec, hasPremiums].filter(Boolean).length} style={{ textAlign: "center" }}>{labels[lang].noRecords}</td>
                 </tr>
               )}
               {detailedHistory.map(d => (
@@ -1512,9 +3418,12 @@ export default function App(): JSX.Element {
                     <td key="date">{d.date}</td>,
                     <td key="hours">{d.hours.toFixed(2)}</td>,
                     <td key="earnings">${d.earnings.toFixed(2)}</td>,
+                    ...(hasPremiums ? [<td key="premium">${d.shiftPremium.toFixed(2)}</td>] : []),
+                    <td key="holiday">${d.holidayPay.toFixed(2)}</td>,
                     <td key="tax">${d.incomeTax.toFixed(2)}</td>,
                     <td key="ei">${d.employeeInsurance.toFixed(2)}</td>,
                     <td key="cpp">${d.cpp.toFixed(2)}</td>,
+                    ...(inQuebec ? [<td key="qpip">${d.qpip.toFixed(2)}</td>] : []),
                     <td key="after">${d.afterTax.toFixed(2)}</td>,
                   ]}
                 </tr>
@@ -1524,6 +3433,69 @@ export default function App(): JSX.Element {
         </div>
       </div>
 
+      {/* pay statement for one pay date, printable on its own */}
+      {statement && (
+        <div className="modal-backdrop pay-statement-backdrop" onClick={() => setStatementPayDate(null)}>
+          <div className="modal pay-statement" role="dialog" aria-label={labels[lang].payStatement} onClick={e => e.stopPropagation()}>
+            <div className="pay-statement-actions">
+              <div>
+                <label className="small-label" htmlFor="statement-employer">{labels[lang].employer}</label>
+                <input id="statement-employer" className="control-input" value={activeJob?.employer ?? ""}
+                  onChange={e => setEmployer(e.target.value)} />
+              </div>
+              <button className="btn primary" onClick={() => window.print()}>{labels[lang].printStatement}</button>
+              <button className="btn" onClick={() => setStatementPayDate(null)}>{labels[lang].closeStatement}</button>
+            </div>
+            <h2>{labels[lang].payStatement}</h2>
+            <table className="pay-statement-table">
+              <tbody>
+                <tr><th>{labels[lang].employer}</th><td>{activeJob?.employer || activeJob?.name}</td></tr>
+                <tr><th>{labels[lang].job}</th><td>{activeJob?.name}</td></tr>
+                <tr>
+                  <th>{labels[lang].payPeriod}</th>
+                  <td>{ymdLocal(getPayPeriod(statement.firstDay).start)} ~ {ymdLocal(getPayPeriod(statement.firstDay).end)}</td>
+                </tr>
+                <tr><th>{labels[lang].payDate}</th><td>{statement.payDate}</td></tr>
+              </tbody>
+            </table>
+            <table className="pay-statement-table">
+              <thead>
+                <tr><th /><th>{labels[lang].current}</th><th>{labels[lang].yearToDate}</th></tr>
+              </thead>
+              <tbody>
+                <tr className="pay-statement-heading"><th colSpan={3}>{labels[lang].hoursHeading}</th></tr>
+                {statementRow(labels[lang].regularHours, "regularHours", false)}
+                {statementRow(labels[lang].overtimeHours, "overtimeHours", false)}
+                {statementRow(labels[lang].totalHours, "hours", false)}
+                <tr className="pay-statement-heading"><th colSpan={3}>{labels[lang].earningsHeading}</th></tr>
+                {statementRow(labels[lang].regularPay, "regular")}
+                {statementRow(labels[lang].overtimePay, "overtime")}
+                {statement.ytd.shiftPremium > 0 && statementRow(labels[lang].premiumColumn, "shiftPremium")}
+                {statementRow(labels[lang].holidayPay, "holiday")}
+                {statementRow(labels[lang].vacationPay, "vacation")}
+                {statement.ytd.extra > 0 && statementRow(labels[lang].extraColumn, "extra")}
+                {statementRow(labels[lang].grossPay, "gross")}
+                <tr className="pay-statement-heading"><th colSpan={3}>{labels[lang].deductionsHeading}</th></tr>
+                {statementRow(labels[lang].incomeTax, "incomeTax")}
+                {statementRow(inQuebec ? "QPP" : "CPP", "cpp")}
+                {statementRow("EI", "ei")}
+                {inQuebec && statementRow("QPIP", "qpip")}
+                {statement.deductions.map((d, i) => (
+                  <tr key={`deduction-${i}`}><td>{d.name}</td><td>${d.amount.toFixed(2)}</td><td /></tr>
+                ))}
+                {statement.ytd.reimbursement > 0 && statementRow(labels[lang].reimbursements, "reimbursement")}
+                <tr className="pay-statement-total">
+                  <td>{labels[lang].netPay}</td>
+                  <td>${statement.current.net.toFixed(2)}</td>
+                  <td>${statement.ytd.net.toFixed(2)}</td>
+                </tr>
+              </tbody>
+            </table>
+            <p className="small-label">{labels[lang].statementNote} {statement.taxYear}.</p>
+          </div>
+        </div>
+      )}
+
       {/* roster viewer modal */}
       {rosterViewer && (
         <div className="modal-backdrop" onClick={() => setRosterViewer(null)}>
@@ -1600,6 +3572,18 @@ export default function App(): JSX.Element {
   );
 }
 
+type PaystubDraft = Record<"payDate" | PaystubField, string>;
+/** A timesheet CSV being mapped, before its rows go into `jobId`. */
+type TimesheetDraft = { rows: string[][]; hasHeader: boolean; mapping: TimesheetMapping; dateFormat: string; jobId: string };
+/** Canadian time zones offered for a job; one set by an import is listed as well. */
+const TIME_ZONES = [
+  "America/St_Johns", "America/Halifax", "America/Toronto", "America/Winnipeg", "America/Regina", "America/Edmonton",
+  "America/Vancouver", "America/Whitehorse",
+];
+/** Number formats offered for CSV; a decimal comma switches the file to semicolons. */
+const CSV_LOCALES = ["en-CA", "fr-CA", "de-DE", "zh-TW"];
+const EMPTY_PAYSTUB_DRAFT: PaystubDraft = { payDate: "", gross: "", cpp: "", ei: "", incomeTax: "", net: "" };
+
 const BIWEEK_COLORS = [
   "#e3f2fd", // light blue
   "#fce4ec", // light pink
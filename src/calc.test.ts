@@ -1,16 +1,41 @@
 import {
+  DEFAULT_OVERTIME_POLICY,
+  DEFAULT_VACATION_POLICY,
   DayHours,
+  DetailedDay,
+  EarningType,
+  OvertimePolicy,
+  PayDeduction,
   PaymentCycle,
+  ShiftPremium,
+  VacationPayout,
+  VacationPolicy,
   clampLunchMinutes,
   computeDetailedDays,
   computeJobEarnings,
   getIndexInfo,
   getLunchMinutes,
+  getPeriodInfo,
   getPeriodKey,
   getOriginalHours,
+  getShifts,
+  isTimeZone,
   isUnlawfulRuleJob,
+  latestRate,
+  missingEatingPeriod,
+  payPeriodsInYear,
+  rateOn,
+  round2,
+  shiftHours,
+  shiftPremiumPay,
+  shiftsHours,
+  splitOvertimeHours,
   summarizeJobs,
+  unpaidBreakMinutes,
+  utcToZonedTime,
+  vacationRateOn,
 } from './calc';
+import { PROVINCES, ProvinceCode, TAX_YEARS, TaxClaims, maxCpp2, maxCppBase, maxEi, prorateCpp } from './tax';
 
 const START = '2026-01-01';
 const day = (date: string, hours: number): DayHours => ({ date, hours });
@@ -121,6 +146,635 @@ describe('computeDetailedDays - lawful rule', () => {
   });
 });
 
+describe('per-job overtime policy', () => {
+  const policy = (p: Partial<OvertimePolicy>): OvertimePolicy => ({ ...DEFAULT_OVERTIME_POLICY, ...p });
+  const union = policy({ weeklyThreshold: 40, dailyThreshold: 8, doubleTimeThreshold: 12 });
+
+  test('the default policy is the ESA 44 hour week at 1.5x', () => {
+    expect(DEFAULT_OVERTIME_POLICY).toMatchObject({ weeklyThreshold: 44, dailyThreshold: null, overtimeMultiplier: 1.5 });
+  });
+
+  test('daily tiers come off the top of the day', () => {
+    expect(splitOvertimeHours(13, 0, union)).toEqual({ regular: 8, overtime: 4, doubleTime: 1 });
+  });
+
+  test('daily overtime hours do not count toward the weekly threshold', () => {
+    // 36 straight hours already this week: 4 more straight, the rest is overtime
+    expect(splitOvertimeHours(10, 36, union)).toEqual({ regular: 4, overtime: 6, doubleTime: 0 });
+  });
+
+  test('pays daily overtime and double time at their own multipliers', () => {
+    const [d] = computeDetailedDays({ dayHours: [day('2026-01-01', 13)], hourlyRate: 20, startDate: START, overtime: union });
+    // (8 + 4 * 1.5 + 1 * 2) * 20 * 1.04
+    expect(d.earnings).toBe(332.8);
+    expect(d.overtimeHours).toBe(5);
+    // (4 * 1.5 + 1 * 2) * 20, before vacation pay
+    expect(d.overtimeEarnings).toBe(160);
+  });
+
+  test('a blank weekly threshold turns weekly overtime off', () => {
+    const week = Array.from({ length: 6 }, (_, i) => day(`2026-01-0${i + 1}`, 10));
+    const days = computeDetailedDays({
+      dayHours: week, hourlyRate: 20, startDate: START, overtime: policy({ weeklyThreshold: null }),
+    });
+    days.forEach(d => expect(d.overtimeHours).toBe(0));
+  });
+
+  test('an averaging agreement applies the threshold to the block of weeks', () => {
+    // 50h in week one, 30h in week two: 80h over two weeks is under 2 x 44
+    const hours = [
+      ...Array.from({ length: 5 }, (_, i) => day(`2026-01-0${i + 1}`, 10)),
+      ...Array.from({ length: 3 }, (_, i) => day(`2026-01-${String(i + 8).padStart(2, '0')}`, 10)),
+    ];
+    const weekly = computeDetailedDays({ dayHours: hours, hourlyRate: 20, startDate: START });
+    const averaged = computeDetailedDays({
+      dayHours: hours, hourlyRate: 20, startDate: START, overtime: policy({ averagingWeeks: 2 }),
+    });
+    expect(weekly.reduce((s, d) => s + d.overtimeHours, 0)).toBe(6);
+    expect(averaged.reduce((s, d) => s + d.overtimeHours, 0)).toBe(0);
+  });
+
+  test('overtime past the averaged threshold lands on the last days of the block', () => {
+    const hours = Array.from({ length: 10 }, (_, i) => day(`2026-01-${String(i + 1).padStart(2, '0')}`, 10));
+    const days = computeDetailedDays({
+      dayHours: hours, hourlyRate: 20, startDate: START, overtime: policy({ averagingWeeks: 2 }),
+    });
+    // 100h against an 88h two-week threshold
+    expect(days.map(d => d.overtimeHours)).toEqual([0, 0, 0, 0, 0, 0, 0, 0, 2, 10]);
+  });
+
+  test('summarizeJobs prices each job with its own policy', () => {
+    const hours = [day('2026-01-01', 10)];
+    const summary = summarizeJobs([
+      { id: 'a', name: 'Plant', hourlyRate: 20, startDate: START, dayHours: hours, overtime: policy({ dailyThreshold: 8 }) },
+      { id: 'b', name: 'Cafe', hourlyRate: 20, startDate: START, dayHours: hours },
+    ]);
+    expect(summary.jobs.map(j => j.gross)).toEqual([228.8, 208]);
+  });
+});
+
+describe('public holidays', () => {
+  // 2026-02-16 is Family Day; the job starts four full weeks before it
+  const FAMILY_DAY = '2026-02-16';
+  const JOB_START = '2026-01-19';
+  const fourWeeks = Array.from({ length: 28 }, (_, i) => new Date(2026, 0, 19 + i))
+    .filter(d => d.getDay() !== 0 && d.getDay() !== 6)
+    .map(d => day(`2026-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`, 8));
+  const on = (days: DetailedDay[], date: string): DetailedDay | undefined => days.find(d => d.date === date);
+
+  test('a holiday off work earns a twentieth of the last four weeks', () => {
+    const days = computeDetailedDays({
+      dayHours: [...fourWeeks, day('2026-02-17', 8)], hourlyRate: 20, startDate: JOB_START,
+    });
+    // 20 days * 8h * $20 * 1.04 = $3,328, / 20, plus 4% vacation pay on it
+    expect(on(days, FAMILY_DAY)).toMatchObject({ hours: 0, holidayPay: 166.4, vacationPay: 6.66, earnings: 173.06 });
+  });
+
+  test('holiday pay earns vacation pay into the bank when the job banks it', () => {
+    const days = computeDetailedDays({
+      dayHours: [...fourWeeks, day('2026-02-17', 8)],
+      hourlyRate: 20,
+      startDate: JOB_START,
+      vacation: { ...DEFAULT_VACATION_POLICY, mode: 'accrue' },
+    });
+    const before = on(days, '2026-02-13')!.vacationBank;
+    expect(on(days, FAMILY_DAY)).toMatchObject({ holidayPay: 166.4, vacationPay: 0, earnings: 166.4 });
+    expect(on(days, FAMILY_DAY)!.vacationBank).toBeCloseTo(before + 6.66, 2);
+  });
+
+  test('overtime pay is not part of the holiday pay base', () => {
+    const long = fourWeeks.map(d => ({ ...d, hours: 10 }));
+    const days = computeDetailedDays({
+      dayHours: [...long, day('2026-02-17', 8)], hourlyRate: 20, startDate: JOB_START,
+    });
+    // 44 regular hours a week, not 50
+    expect(on(days, FAMILY_DAY)!.holidayPay).toBe(183.04);
+  });
+
+  test('working the holiday defaults to regular pay plus holiday pay', () => {
+    const days = computeDetailedDays({
+      dayHours: [...fourWeeks, day(FAMILY_DAY, 8)], hourlyRate: 20, startDate: JOB_START,
+    });
+    expect(on(days, FAMILY_DAY)).toMatchObject({ hours: 8, holidayPay: 166.4, earnings: 339.46 });
+  });
+
+  test('a chosen substitute day carries the holiday pay instead', () => {
+    const days = computeDetailedDays({
+      dayHours: [...fourWeeks, { ...day(FAMILY_DAY, 8), substituteDate: '2026-02-20' }],
+      hourlyRate: 20,
+      startDate: JOB_START,
+    });
+    expect(on(days, FAMILY_DAY)).toMatchObject({ holidayPay: 0, earnings: 166.4 });
+    expect(on(days, '2026-02-20')).toMatchObject({ hours: 0, holidayPay: 166.4 });
+  });
+
+  test('premium pay is 1.5x on top of holiday pay and ignores the substitute day', () => {
+    const days = computeDetailedDays({
+      dayHours: [...fourWeeks, { ...day(FAMILY_DAY, 8), holidayOption: 'premium', substituteDate: '2026-02-20' }],
+      hourlyRate: 20,
+      startDate: JOB_START,
+    });
+    // 8h * $20 * 1.5 * 1.04 premium, plus $166.40 holiday pay and its vacation pay
+    expect(on(days, FAMILY_DAY)).toMatchObject({ holidayPay: 166.4, earnings: 422.66 });
+    expect(on(days, '2026-02-20')).toBeUndefined();
+  });
+
+  test('no wages in the four weeks before means no holiday row', () => {
+    const days = computeDetailedDays({ dayHours: [day('2026-01-02', 8)], hourlyRate: 20, startDate: START });
+    expect(on(days, '2026-01-01')).toBeUndefined();
+  });
+
+  test('holiday pay is withheld on like any other wages', () => {
+    const days = computeDetailedDays({
+      dayHours: [...fourWeeks, day('2026-02-17', 8)], hourlyRate: 20, startDate: JOB_START,
+    });
+    expect(on(days, FAMILY_DAY)!.cpp).toBeGreaterThan(0);
+    expect(on(days, FAMILY_DAY)!.employeeInsurance).toBeGreaterThan(0);
+  });
+
+  test('a job outside Ontario gets no Ontario holiday pay', () => {
+    const days = computeDetailedDays({
+      dayHours: [...fourWeeks, day('2026-02-17', 8)], hourlyRate: 20, startDate: JOB_START, province: 'BC',
+    });
+    expect(on(days, FAMILY_DAY)).toBeUndefined();
+  });
+
+  test('the "3495" rule pays no holidays', () => {
+    const days = computeDetailedDays({
+      dayHours: [...fourWeeks, day('2026-02-17', 8)], hourlyRate: 20, startDate: JOB_START, useUnlawfulRule: true,
+    });
+    expect(on(days, FAMILY_DAY)).toBeUndefined();
+  });
+});
+
+describe('vacation pay', () => {
+  const accrue = (over: Partial<VacationPolicy> = {}): VacationPolicy =>
+    ({ ...DEFAULT_VACATION_POLICY, mode: 'accrue', ...over });
+  const payout = (date: string, amount: number | null = null): VacationPayout => ({ id: 1, date, amount });
+
+  test('is paid on every cheque by default', () => {
+    const [d] = computeDetailedDays({ dayHours: [day('2026-01-02', 8)], hourlyRate: 20, startDate: START });
+    expect(d).toMatchObject({ earnings: 166.4, vacationPay: 6.4, vacationBank: 0 });
+  });
+
+  test('banked vacation pay is left out of earnings until paid out', () => {
+    const days = computeDetailedDays({
+      dayHours: [day('2026-01-02', 8), day('2026-01-05', 8)], hourlyRate: 20, startDate: START, vacation: accrue(),
+    });
+    expect(days.map(d => d.earnings)).toEqual([160, 160]);
+    expect(days.map(d => d.vacationBank)).toEqual([6.4, 12.8]);
+  });
+
+  test('a payout without an amount empties the bank on its date', () => {
+    const days = computeDetailedDays({
+      dayHours: [day('2026-01-02', 8), day('2026-01-05', 8)], hourlyRate: 20, startDate: START,
+      vacation: accrue(), vacationPayouts: [payout('2026-01-09')],
+    });
+    const paid = days.find(d => d.date === '2026-01-09')!;
+    expect(paid).toMatchObject({ hours: 0, earnings: 12.8, vacationPay: 12.8, vacationBank: 0 });
+  });
+
+  test('a payout never releases more than the bank holds', () => {
+    const days = computeDetailedDays({
+      dayHours: [day('2026-01-02', 8)], hourlyRate: 20, startDate: START,
+      vacation: accrue(), vacationPayouts: [payout('2026-01-03', 5), payout('2026-01-04', 50)],
+    });
+    expect(days.map(d => d.vacationPay)).toEqual([0, 5, 1.4]);
+    expect(days[2].vacationBank).toBe(0);
+  });
+
+  test('a payout is withheld on as a lump sum, not annualized', () => {
+    const days = computeDetailedDays({
+      dayHours: [day('2026-01-02', 8)], hourlyRate: 1000, startDate: START,
+      vacation: accrue(), vacationPayouts: [payout('2026-02-20')],
+    });
+    const paid = days.find(d => d.date === '2026-02-20')!;
+    expect(paid.earnings).toBe(320);
+    // $320 on its own: pensionable and insurable, but far under the personal amounts
+    expect(paid.incomeTax).toBe(0);
+    expect(paid.cpp).toBeGreaterThan(0);
+    expect(paid.employeeInsurance).toBeGreaterThan(0);
+  });
+
+  test('the rate steps up on the service anniversary', () => {
+    expect(vacationRateOn('2025-01-01', '2020-01-01', DEFAULT_VACATION_POLICY)).toBe(0.06);
+    expect(vacationRateOn('2024-12-31', '2020-01-01', DEFAULT_VACATION_POLICY)).toBe(0.04);
+    expect(vacationRateOn('2030-01-01', '2020-01-01', { ...DEFAULT_VACATION_POLICY, increasedRate: null })).toBe(0.04);
+
+    const [d] = computeDetailedDays({ dayHours: [day('2026-01-02', 8)], hourlyRate: 20, startDate: '2020-01-01' });
+    expect(d.vacationPay).toBe(9.6);
+  });
+
+  test('holiday pay counts banked vacation pay too', () => {
+    const fourWeeks = ['2026-01-19', '2026-01-26', '2026-02-02', '2026-02-09'].map(d => day(d, 40));
+    const days = computeDetailedDays({
+      dayHours: [...fourWeeks, day('2026-02-17', 8)], hourlyRate: 20, startDate: START, vacation: accrue(),
+    });
+    // 160h * $20 * 1.04 / 20
+    expect(days.find(d => d.date === '2026-02-16')!.holidayPay).toBe(166.4);
+  });
+});
+
+describe('time zones', () => {
+  test('recognises IANA names only', () => {
+    expect(isTimeZone('America/Vancouver')).toBe(true);
+    expect(isTimeZone('Eastern Standard Time')).toBe(false);
+    expect(isTimeZone('')).toBe(false);
+    expect(isTimeZone(null)).toBe(false);
+  });
+
+  test('an instant reads as the wall clock of the zone, across midnight too', () => {
+    expect(utcToZonedTime(Date.UTC(2026, 0, 2, 14, 0))).toEqual({ date: '2026-01-02', time: '09:00' });
+    expect(utcToZonedTime(Date.UTC(2026, 0, 2, 14, 0), 'America/Vancouver')).toEqual({ date: '2026-01-02', time: '06:00' });
+    expect(utcToZonedTime(Date.UTC(2026, 0, 2, 3, 30), 'America/Vancouver')).toEqual({ date: '2026-01-01', time: '19:30' });
+    expect(utcToZonedTime(Date.UTC(2026, 6, 2, 13, 0))).toEqual({ date: '2026-07-02', time: '09:00' });
+  });
+
+  test('a zone without daylight saving keeps the full night', () => {
+    expect(shiftHours('2026-03-07', '22:00', '06:00', 0, 'America/Regina')).toBe(8);
+    expect(shiftsHours('2026-03-07', [{ start: '22:00', end: '06:00' }], 'America/Regina')).toBe(8);
+    expect(shiftsHours('2026-03-07', [{ start: '22:00', end: '06:00' }])).toBe(7);
+  });
+
+  test('hours split at midnight by the job\'s own clock', () => {
+    const night: DayHours = { date: '2026-03-07', start: '22:00', end: '06:00', hours: 8 };
+    const priced = computeDetailedDays({
+      dayHours: [night], hourlyRate: 20, startDate: START, overnightRule: 'split', timeZone: 'America/Regina',
+    });
+    expect(priced.map(d => [d.date, d.hours])).toEqual([['2026-03-07', 2], ['2026-03-08', 6]]);
+  });
+});
+
+describe('province', () => {
+  const fortnight = Array.from({ length: 10 }, (_, i) => day(`2026-01-${String(i + 5).padStart(2, '0')}`, 8));
+  const tax = (province?: ProvinceCode) =>
+    computeDetailedDays({ dayHours: fortnight, hourlyRate: 40, startDate: START, province })
+      .reduce((sum, d) => sum + d.incomeTax, 0);
+
+  test('defaults to Ontario', () => {
+    expect(tax()).toBe(tax('ON'));
+  });
+
+  test('each province withholds its own provincial tax', () => {
+    // ~$3,578 a fortnight: Alberta's 8% bracket and big BPA beat Ontario and Manitoba
+    expect(tax('AB')).toBeLessThan(tax('ON'));
+    expect(tax('MB')).toBeGreaterThan(tax('ON'));
+  });
+
+  test('a Quebec job pays QPP, reduced EI and QPIP', () => {
+    const run = (province: ProvinceCode) =>
+      computeDetailedDays({ dayHours: fortnight, hourlyRate: 40, startDate: START, province });
+    const total = (days: DetailedDay[], key: 'cpp' | 'employeeInsurance' | 'qpip') =>
+      round2(days.reduce((sum, d) => sum + d[key], 0));
+    const qc = run('QC');
+    const on = run('ON');
+    // gross at 0.43%
+    const gross = qc.reduce((sum, d) => sum + d.earnings, 0);
+    expect(total(qc, 'qpip')).toBeCloseTo(round2(gross * 0.0043), 2);
+    expect(total(on, 'qpip')).toBe(0);
+    expect(total(qc, 'cpp')).toBeGreaterThan(total(on, 'cpp'));
+    expect(total(qc, 'employeeInsurance')).toBeLessThan(total(on, 'employeeInsurance'));
+    qc.forEach(d => expect(d.afterTax).toBeCloseTo(d.earnings - d.incomeTax - d.employeeInsurance - d.cpp - d.qpip, 2));
+  });
+
+  test('a job keeps its own province in a multi-job summary', () => {
+    const job = { id: 'a', name: 'A', hourlyRate: 40, startDate: START, dayHours: fortnight };
+    const summary = summarizeJobs([job, { ...job, id: 'b', province: 'AB' }]);
+    expect(summary.jobs[1].afterTax).toBeGreaterThan(summary.jobs[0].afterTax);
+  });
+});
+
+describe('TD1 claims', () => {
+  const fortnight = [day('2026-01-05', 8), day('2026-01-06', 8)];
+  const tax = (taxClaims?: TaxClaims) =>
+    computeDetailedDays({ dayHours: fortnight, hourlyRate: 20, startDate: START, taxClaims })
+      .reduce((sum, d) => sum + d.incomeTax, 0);
+
+  test('a second job claiming $0 has tax withheld from the first dollar', () => {
+    expect(tax()).toBe(0);
+    expect(tax({ federal: 0, provincial: 0, additionalTax: 0 })).toBeGreaterThan(0);
+  });
+
+  test('additional tax comes off every cheque', () => {
+    const twoPeriods = [day('2026-01-05', 8), day('2026-01-20', 8)];
+    const days = computeDetailedDays({
+      dayHours: twoPeriods, hourlyRate: 20, startDate: START,
+      taxClaims: { federal: null, provincial: null, additionalTax: 25 },
+    });
+    expect(days.map(d => d.incomeTax)).toEqual([25, 25]);
+    expect(days[0].afterTax).toBe(round2(days[0].earnings - 25 - days[0].employeeInsurance - days[0].cpp));
+  });
+});
+
+describe('deductions', () => {
+  // one bi-weekly period: Jan 1 - 14
+  const fortnight = [2, 5, 6, 7, 8, 9, 12, 13, 14].map(d => day(`2026-01-${String(d).padStart(2, '0')}`, 8));
+  const price = (deductions: PayDeduction[]) =>
+    computeDetailedDays({ dayHours: fortnight, hourlyRate: 25, startDate: START, deductions });
+  const total = (days: DetailedDay[], field: keyof DetailedDay) =>
+    round2(days.reduce((sum, d) => sum + (d[field] as number), 0));
+  const rrsp: PayDeduction = { id: 1, name: 'Group RRSP', kind: 'fixed', amount: 100, preTax: true };
+  const parking: PayDeduction = { id: 2, name: 'Parking', kind: 'fixed', amount: 100, preTax: false };
+
+  test('a pre-tax deduction lowers income tax but not CPP or EI', () => {
+    const none = price([]);
+    const days = price([rrsp]);
+    expect(total(days, 'preTaxDeductions')).toBe(100);
+    expect(total(days, 'incomeTax')).toBeLessThan(total(none, 'incomeTax'));
+    expect(total(days, 'cpp')).toBe(total(none, 'cpp'));
+    expect(total(days, 'employeeInsurance')).toBe(total(none, 'employeeInsurance'));
+    const taxSaved = total(none, 'incomeTax') - total(days, 'incomeTax');
+    expect(total(days, 'afterTax')).toBeCloseTo(total(none, 'afterTax') - 100 + taxSaved, 2);
+  });
+
+  test('a post-tax deduction comes off take-home only', () => {
+    const none = price([]);
+    const days = price([parking]);
+    expect(total(days, 'postTaxDeductions')).toBe(100);
+    expect(total(days, 'incomeTax')).toBe(total(none, 'incomeTax'));
+    expect(total(days, 'afterTax')).toBeCloseTo(total(none, 'afterTax') - 100, 2);
+  });
+
+  test('a percentage is of the period gross, vacation pay included', () => {
+    const days = price([{ ...rrsp, kind: 'percent', amount: 0.05 }]);
+    expect(total(days, 'preTaxDeductions')).toBe(round2(total(days, 'earnings') * 0.05));
+  });
+
+  test('deductions are taken every period that pays, never past zero', () => {
+    const twoPeriods = [day('2026-01-05', 2), day('2026-01-20', 2)];
+    const days = computeDetailedDays({
+      dayHours: twoPeriods, hourlyRate: 20, startDate: START,
+      deductions: [{ ...parking, amount: 1000 }],
+    });
+    expect(days.map(d => d.afterTax)).toEqual([0, 0]);
+    expect(days[0].postTaxDeductions).toBeGreaterThan(0);
+  });
+});
+
+describe('extra earnings', () => {
+  const withExtra = (type: EarningType, amount: number, hours = 8): DayHours =>
+    ({ date: '2026-01-06', hours, extras: [{ id: 1, type, amount }] });
+  const price = (dayHours: DayHours[]) =>
+    computeDetailedDays({ dayHours, hourlyRate: 20, startDate: START });
+  const [plain] = price([day('2026-01-06', 8)]);
+
+  test('controlled tips are regular pay, with CPP and EI but no vacation pay', () => {
+    const [d] = price([withExtra('tips-controlled', 100)]);
+    expect(d.extraEarnings).toBe(100);
+    expect(d.earnings).toBe(round2(plain.earnings + 100));
+    expect(d.vacationPay).toBe(plain.vacationPay);
+    expect(d.taxableEarnings).toBe(d.earnings);
+    expect(d.cpp).toBeGreaterThan(plain.cpp);
+    expect(d.employeeInsurance).toBeGreaterThan(plain.employeeInsurance);
+  });
+
+  test('cash tips are take-home with nothing withheld', () => {
+    const [d] = price([withExtra('tips-cash', 100)]);
+    expect(d.cashTips).toBe(100);
+    expect(d.earnings).toBe(round2(plain.earnings + 100));
+    expect(d.taxableEarnings).toBe(plain.taxableEarnings);
+    expect(d.incomeTax).toBe(plain.incomeTax);
+    expect(d.cpp).toBe(plain.cpp);
+    expect(d.afterTax).toBe(round2(plain.afterTax + 100));
+  });
+
+  test('commission earns vacation pay', () => {
+    const [d] = price([withExtra('commission', 100)]);
+    expect(d.vacationPay).toBe(round2(plain.vacationPay + 4));
+  });
+
+  test('a reimbursement is paid back untaxed and is not earnings', () => {
+    const [d] = price([withExtra('reimbursement', 45)]);
+    expect(d.earnings).toBe(plain.earnings);
+    expect(d.reimbursement).toBe(45);
+    expect(d.incomeTax).toBe(plain.incomeTax);
+    expect(d.afterTax).toBe(round2(plain.afterTax + 45));
+  });
+
+  test('a bonus is withheld on with the bonus method, not annualized', () => {
+    const fortnight = [day('2026-01-05', 40)];
+    const paid = (type: EarningType) =>
+      price([...fortnight, { date: '2026-01-09', hours: 0, extras: [{ id: 1, type, amount: 20000 }] }]);
+    const tax = (days: DetailedDay[]) => days.reduce((sum, d) => sum + d.incomeTax, 0);
+    expect(paid('bonus')[1].taxableEarnings).toBe(20000);
+    // annualized, $20,000 a fortnight lands in the top bracket
+    expect(tax(paid('bonus'))).toBeLessThan(tax(paid('commission')) * 0.7);
+    expect(tax(paid('retro'))).toBeLessThan(tax(paid('commission')) * 0.7);
+  });
+
+  test('a day with only extra earnings and no hours is still paid', () => {
+    const days = price([{ date: '2026-01-06', extras: [{ id: 1, type: 'bonus', amount: 500 }] }]);
+    expect(days).toHaveLength(1);
+    expect(days[0]).toMatchObject({ hours: 0, earnings: 500, extraEarnings: 500 });
+    expect(days[0].cpp).toBeGreaterThan(0);
+  });
+
+  test('a second bonus in the year is taxed on top of the first', () => {
+    const bonus = (date: string) => ({ date, extras: [{ id: 1, type: 'bonus' as const, amount: 40000 }] });
+    const days = price([bonus('2026-02-02'), bonus('2026-03-02')]);
+    expect(days[1].incomeTax).toBeGreaterThan(days[0].incomeTax);
+  });
+});
+
+describe('shift premiums', () => {
+  const night: ShiftPremium = { id: 1, name: 'Nights', kind: 'fixed', amount: 2, days: [], start: '23:00', end: '07:00' };
+  const sunday: ShiftPremium = { id: 2, name: 'Sundays', kind: 'percent', amount: 0.1, days: [0], start: null, end: null };
+  // 2026-01-04 is a Sunday, 2026-01-05 a Monday
+  const shift = (date: string, start: string, end: string, hours: number): DayHours => ({ date, start, end, hours });
+
+  test('a windowed premium pays on the hours inside the window', () => {
+    // 15:00-23:30: half an hour of night
+    expect(shiftPremiumPay(shift('2026-01-05', '15:00', '23:30', 8.5), [night], 20)).toBeCloseTo(1, 6);
+    // 05:00-13:00: two hours before 07:00
+    expect(shiftPremiumPay(shift('2026-01-05', '05:00', '13:00', 8), [night], 20)).toBeCloseTo(4, 6);
+    expect(shiftPremiumPay(shift('2026-01-05', '09:00', '17:00', 8), [night], 20)).toBe(0);
+  });
+
+  test('an unpaid break is taken out of the premium hours pro-rata', () => {
+    // 05:00-13:00 with 30 min unpaid: 7.5 paid hours, a quarter of them before 07:00
+    expect(shiftPremiumPay(shift('2026-01-05', '05:00', '13:00', 7.5), [night], 20)).toBeCloseTo(3.75, 6);
+  });
+
+  test('a weekday premium applies only on its days, to every hour', () => {
+    expect(shiftPremiumPay({ date: '2026-01-04', hours: 8 }, [sunday], 20)).toBeCloseTo(16, 6);
+    expect(shiftPremiumPay({ date: '2026-01-05', hours: 8 }, [sunday], 20)).toBe(0);
+  });
+
+  test('premiums stack, and a windowed one needs start and end times', () => {
+    expect(shiftPremiumPay(shift('2026-01-04', '05:00', '13:00', 8), [night, sunday], 20)).toBeCloseTo(4 + 16, 6);
+    expect(shiftPremiumPay({ date: '2026-01-04', hours: 8 }, [night, sunday], 20)).toBeCloseTo(16, 6);
+  });
+
+  test('the premium is priced into the day and earns vacation pay', () => {
+    const [plain] = computeDetailedDays({ dayHours: [{ date: '2026-01-04', hours: 8 }], hourlyRate: 20, startDate: START });
+    const [d] = computeDetailedDays({
+      dayHours: [{ date: '2026-01-04', hours: 8 }], hourlyRate: 20, startDate: START, shiftPremiums: [sunday],
+    });
+    expect(d.shiftPremium).toBe(16);
+    expect(d.earnings).toBe(round2(plain.earnings + 16 * 1.04));
+  });
+
+  test('the "3495" rule pays a flat rate', () => {
+    const [d] = computeDetailedDays({
+      dayHours: [{ date: '2026-01-04', hours: 8 }], hourlyRate: 20, startDate: START,
+      useUnlawfulRule: true, shiftPremiums: [sunday],
+    });
+    expect(d.shiftPremium).toBe(0);
+  });
+});
+
+describe('overnight shifts', () => {
+  test('an end time before the start time is on the next day', () => {
+    expect(shiftHours('2026-01-05', '22:00', '06:00')).toBe(8);
+    expect(shiftHours('2026-01-05', '22:00', '06:00', 30)).toBe(7.5);
+    expect(shiftHours('2026-01-05', '09:00', '17:00', 30)).toBe(7.5);
+  });
+
+  test('hours follow the clock across daylight saving', () => {
+    // clocks spring forward early on 2026-03-08 and fall back early on 2026-11-01
+    expect(shiftHours('2026-03-07', '22:00', '06:00')).toBe(7);
+    expect(shiftHours('2026-10-31', '22:00', '06:00')).toBe(9);
+  });
+
+  test('a windowed premium reaches past midnight, on the next day\'s weekday', () => {
+    const night: ShiftPremium = { id: 1, name: 'Nights', kind: 'fixed', amount: 2, days: [], start: '23:00', end: '07:00' };
+    const sunday: ShiftPremium = { id: 2, name: 'Sundays', kind: 'fixed', amount: 1, days: [0], start: null, end: null };
+    // Saturday 2026-01-10 22:00 to Sunday 06:00: 7 night hours, 6 of them on Sunday
+    const shift: DayHours = { date: '2026-01-10', start: '22:00', end: '06:00', hours: 8 };
+    expect(shiftPremiumPay(shift, [night], 20)).toBeCloseTo(14, 6);
+    expect(shiftPremiumPay(shift, [sunday], 20)).toBeCloseTo(6, 6);
+  });
+
+  // a 40h week, Monday 2026-01-05 to Friday, then a Sunday night shift
+  const week = [5, 6, 7, 8, 9].map(d => day(`2026-01-0${d}`, 8));
+  const sundayNight: DayHours = { date: '2026-01-11', start: '22:00', end: '06:00', hours: 8 };
+
+  test('by default the whole shift counts on the day it started', () => {
+    const priced = computeDetailedDays({ dayHours: [...week, sundayNight], hourlyRate: 20, startDate: '2026-01-05' });
+    expect(priced.find(d => d.date === '2026-01-11')!.hours).toBe(8);
+    expect(priced.find(d => d.date === '2026-01-12')).toBeUndefined();
+    // 48h in the week: 4h past the 44h threshold
+    expect(priced.reduce((s, d) => s + d.overtimeHours, 0)).toBe(4);
+  });
+
+  test('split at midnight, the hours after it count in the next week', () => {
+    const priced = computeDetailedDays({
+      dayHours: [...week, sundayNight], hourlyRate: 20, startDate: '2026-01-05', overnightRule: 'split',
+    });
+    expect(priced.find(d => d.date === '2026-01-11')!.hours).toBe(2);
+    expect(priced.find(d => d.date === '2026-01-12')!.hours).toBe(6);
+    expect(priced.reduce((s, d) => s + d.overtimeHours, 0)).toBe(0);
+  });
+
+  test('split hours join a shift already on the next day', () => {
+    const priced = computeDetailedDays({
+      dayHours: [sundayNight, day('2026-01-12', 4)], hourlyRate: 20, startDate: '2026-01-05', overnightRule: 'split',
+    });
+    expect(priced.find(d => d.date === '2026-01-12')!.hours).toBe(10);
+  });
+
+  test('split at midnight, the period the hours are paid in can change', () => {
+    // 2026-01-14 is the last day of the first bi-weekly period from 2026-01-01
+    const shift: DayHours = { date: '2026-01-14', start: '20:00', end: '04:00', hours: 8 };
+    const priced = computeDetailedDays({ dayHours: [shift], hourlyRate: 20, startDate: START, overnightRule: 'split' });
+    expect(priced.map(d => [d.date, d.hours])).toEqual([['2026-01-14', 4], ['2026-01-15', 4]]);
+  });
+});
+
+describe('split shifts', () => {
+  const split: DayHours = {
+    date: '2026-01-05',
+    shifts: [{ start: '10:00', end: '14:00', lunchMinutes: 0 }, { start: '17:00', end: '22:00', lunchMinutes: 15 }],
+    hours: 8.75,
+  };
+
+  test('a day\'s hours are every shift less its own break', () => {
+    expect(shiftsHours(split.date, split.shifts!)).toBe(8.75);
+    // a shift still being entered does not count yet
+    expect(shiftsHours(split.date, [...split.shifts!, { start: '23:00', end: null }])).toBe(8.75);
+    expect(shiftsHours(split.date, [{ start: '10:00', end: null }])).toBeNull();
+    expect(shiftsHours(split.date, [{ start: '06:00', end: '22:00' }, { start: '22:00', end: '08:00' }])).toBeNull();
+  });
+
+  test('a legacy start and end read as one shift with the day\'s lunch', () => {
+    expect(getShifts({ date: START, start: '09:00', end: '17:00', lunchMinutes: 45, hours: 7.25 }))
+      .toEqual([{ start: '09:00', end: '17:00', lunchMinutes: 45 }]);
+    expect(getShifts({ date: START, hours: 8 })).toEqual([]);
+  });
+
+  test('a windowed premium pays only on the shift inside it', () => {
+    const evening: ShiftPremium = { id: 1, name: 'Evenings', kind: 'fixed', amount: 1, days: [], start: '18:00', end: '23:00' };
+    // 4h of the first shift and 4.75h of the 5h second shift are paid; 4h of
+    // the second is after 18:00, less its share of the break
+    expect(shiftPremiumPay(split, [evening], 20)).toBeCloseTo(8.75 * 4 / 9, 6);
+  });
+
+  test('the second shift of a day counts toward the same day\'s overtime', () => {
+    const [d] = computeDetailedDays({
+      dayHours: [split], hourlyRate: 20, startDate: START,
+      overtime: { ...DEFAULT_OVERTIME_POLICY, dailyThreshold: 8 },
+    });
+    expect(d.hours).toBe(8.75);
+    expect(d.overtimeHours).toBe(0.75);
+  });
+
+  test('under the split rule only a shift past midnight moves', () => {
+    const late: DayHours = {
+      date: '2026-01-05',
+      shifts: [{ start: '10:00', end: '14:00', lunchMinutes: 0 }, { start: '20:00', end: '02:00', lunchMinutes: 0 }],
+      hours: 10,
+    };
+    const priced = computeDetailedDays({ dayHours: [late], hourlyRate: 20, startDate: START, overnightRule: 'split' });
+    expect(priced.map(d => [d.date, d.hours])).toEqual([['2026-01-05', 8], ['2026-01-06', 2]]);
+  });
+});
+
+describe('breaks', () => {
+  const coffee = { minutes: 15, paid: true, start: null };
+  const meal = { minutes: 30, paid: false, start: null };
+
+  test('paid breaks are worked time; the meal and unpaid breaks are not', () => {
+    const shift = { start: '09:00', end: '17:00', lunchMinutes: 0, breaks: [coffee, meal, coffee] };
+    expect(unpaidBreakMinutes(shift)).toBe(30);
+    expect(shiftsHours('2026-01-05', [shift])).toBe(7.5);
+    expect(unpaidBreakMinutes({ ...shift, lunchMinutes: 20 })).toBe(50);
+  });
+
+  test('a shift over five hours needs a 30-minute eating period', () => {
+    const date = '2026-01-05';
+    expect(missingEatingPeriod(date, { start: '09:00', end: '14:00' })).toBe(false);
+    expect(missingEatingPeriod(date, { start: '09:00', end: '15:00', breaks: [coffee] })).toBe(true);
+    expect(missingEatingPeriod(date, { start: '09:00', end: '15:00', lunchMinutes: 30 })).toBe(false);
+    // a paid meal is still an eating period
+    expect(missingEatingPeriod(date, { start: '09:00', end: '15:00', breaks: [{ ...meal, paid: true }] })).toBe(false);
+  });
+
+  test('a timed eating period must come within five hours', () => {
+    const date = '2026-01-05';
+    expect(missingEatingPeriod(date, { start: '09:00', end: '17:00', breaks: [{ ...meal, start: '13:00' }] })).toBe(false);
+    expect(missingEatingPeriod(date, { start: '09:00', end: '17:00', breaks: [{ ...meal, start: '14:30' }] })).toBe(true);
+    // 22:00 to 08:00 with a meal at 02:00: four hours, then five and a half
+    expect(missingEatingPeriod(date, { start: '22:00', end: '08:00', breaks: [{ ...meal, start: '02:00' }] })).toBe(true);
+  });
+
+  test('one untimed eating period covers at most ten hours of work', () => {
+    const date = '2026-01-05';
+    expect(missingEatingPeriod(date, { start: '08:00', end: '18:30', lunchMinutes: 30 })).toBe(false);
+    expect(missingEatingPeriod(date, { start: '07:00', end: '19:00', lunchMinutes: 30 })).toBe(true);
+  });
+
+  test('the five hours are counted in the job\'s time zone', () => {
+    // clocks spring forward overnight in Toronto, but not in Regina
+    const shift = { start: '22:00', end: '03:30' };
+    expect(missingEatingPeriod('2026-03-07', shift, 'America/Toronto')).toBe(false);
+    expect(missingEatingPeriod('2026-03-07', shift, 'America/Regina')).toBe(true);
+    const timed = { ...shift, end: '06:00', breaks: [{ ...meal, start: '04:00' }] };
+    // 22:00 to 04:00 is five hours of work in Toronto that night, six in Regina
+    expect(missingEatingPeriod('2026-03-07', timed, 'America/Toronto')).toBe(false);
+    expect(missingEatingPeriod('2026-03-07', timed, 'America/Regina')).toBe(true);
+  });
+});
+
 describe('computeDetailedDays - "3495" unlawful rule', () => {
   // 10 days x 10h = 100h inside bi-week 0, which is 12h past the 88h threshold
   const biWeek = Array.from({ length: 10 }, (_, i) =>
@@ -159,6 +813,48 @@ describe('computeDetailedDays - "3495" unlawful rule', () => {
   });
 });
 
+describe('rate history', () => {
+  const raise = [{ date: '2026-01-01', rate: 20 }, { date: '2026-03-01', rate: 22 }];
+
+  test('each date is paid the rate in effect on it', () => {
+    expect(rateOn(raise, '2026-02-28', 17)).toBe(20);
+    expect(rateOn(raise, '2026-03-01', 17)).toBe(22);
+    // before the first change, the earliest rate; with no history, the fallback
+    expect(rateOn(raise, '2025-12-01', 17)).toBe(20);
+    expect(rateOn([], '2026-03-01', 17)).toBe(17);
+    expect(latestRate(raise, 17)).toBe(22);
+  });
+
+  test('a raise does not reprice the days before it', () => {
+    const days = computeDetailedDays({
+      dayHours: [day('2026-02-27', 8), day('2026-03-02', 8)], hourlyRate: 22, rateHistory: raise, startDate: START,
+    });
+    expect(days.map(d => d.hourlyRate)).toEqual([20, 22]);
+    // 8h plus 4% vacation pay at each rate
+    expect(days.map(d => d.earnings)).toEqual([166.4, 183.04]);
+  });
+
+  test('overtime is paid at the rate of the day it falls on', () => {
+    // Mon 2026-02-23 to Mon 2026-03-02 in one week from a Monday start: 48h, the last 4 at the new rate
+    const week = ['2026-02-23', '2026-02-24', '2026-02-25', '2026-02-26', '2026-02-27', '2026-02-28'].map(d => day(d, 8));
+    const days = computeDetailedDays({ dayHours: week, hourlyRate: 22, rateHistory: [
+      { date: '2026-01-05', rate: 20 }, { date: '2026-02-28', rate: 22 },
+    ], startDate: '2026-01-05' });
+    const saturday = days.find(d => d.date === '2026-02-28')!;
+    expect(saturday.overtimeHours).toBe(4);
+    expect(saturday.overtimeEarnings).toBe(4 * 22 * 1.5);
+  });
+
+  test('the all-jobs summary lists every rate paid, and the current one', () => {
+    const summary = summarizeJobs([{
+      id: 'cafe', name: 'Cafe', hourlyRate: 22, rateHistory: raise, startDate: START,
+      dayHours: [day('2026-02-27', 8), day('2026-03-02', 8)],
+    }]);
+    expect(summary.jobs[0].hourlyRate).toBe(22);
+    expect(summary.jobs[0].rates).toEqual([20, 22]);
+  });
+});
+
 describe('summarizeJobs', () => {
   const cafe = {
     id: 'cafe',
@@ -221,7 +917,7 @@ describe('summarizeJobs', () => {
   });
 
   test('no jobs means zero, not NaN', () => {
-    expect(summarizeJobs([])).toEqual({ jobs: [], totalHours: 0, totalGross: 0, totalAfterTax: 0 });
+    expect(summarizeJobs([])).toEqual({ jobs: [], totalHours: 0, totalGross: 0, totalAfterTax: 0, contributions: [] });
   });
 
   test('computeJobEarnings matches a single-job summary', () => {
@@ -229,6 +925,95 @@ describe('summarizeJobs', () => {
   });
 });
 
+describe('CPP and EI across employers', () => {
+  const rates = TAX_YEARS[2026];
+  /** Eight hours every weekday of 2026. */
+  const fullYear = Array.from({ length: 365 }, (_, i) => new Date(2026, 0, 1 + i))
+    .filter(d => d.getDay() !== 0 && d.getDay() !== 6)
+    .map(d => day(`2026-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`, 8));
+  const job = (id: string, province?: ProvinceCode) =>
+    ({ id, name: id, hourlyRate: 50, startDate: START, dayHours: fullYear, province });
+
+  test('one employer stops at the maximums, so nothing comes back', () => {
+    const [year] = summarizeJobs([job('a')]).contributions;
+    expect(year.year).toBe(2026);
+    expect(year.cpp).toBeCloseTo(maxCppBase(rates), 1);
+    expect(year.cpp2).toBeCloseTo(maxCpp2(rates), 1);
+    expect(year.ei).toBeCloseTo(maxEi(rates), 1);
+    expect(year.refund).toBeLessThan(0.05);
+  });
+
+  test('two employers each reaching the maximums refund one full set', () => {
+    const [year] = summarizeJobs([job('a'), job('b')]).contributions;
+    expect(year.maxCpp).toBe(round2(maxCppBase(rates)));
+    // within cents: each cheque is rounded on its own
+    expect(year.cppRefund).toBeCloseTo(maxCppBase(rates) + maxCpp2(rates), 0);
+    expect(year.eiRefund).toBeCloseTo(maxEi(rates), 0);
+    expect(year.eiRefund).toBe(round2(year.ei - year.maxEi));
+    expect(year.refund).toBe(round2(year.cppRefund + year.eiRefund));
+  });
+
+  test('contributions under the maximums are not refunded', () => {
+    const cafe = { id: 'cafe', name: 'Cafe', hourlyRate: 20, startDate: START, dayHours: [day('2026-01-02', 8)] };
+    const [year] = summarizeJobs([cafe, { ...cafe, id: 'b' }]).contributions;
+    expect(year.cpp).toBeGreaterThan(0);
+    expect(year.refund).toBe(0);
+  });
+
+  test('each tax year has its own maximums', () => {
+    const split = { ...job('a'), dayHours: [day('2025-12-01', 8), day('2026-03-02', 8)] };
+    const years = summarizeJobs([split]).contributions;
+    expect(years.map(y => y.year)).toEqual([2025, 2026]);
+    expect(years[0].maxEi).toBe(round2(maxEi(TAX_YEARS[2025])));
+  });
+
+  test('Quebec-only years use the QPP and Quebec EI maximums', () => {
+    const quebec = PROVINCES.QC.payrollRates!(rates);
+    const [qc] = summarizeJobs([job('a', 'QC'), job('b', 'QC')]).contributions;
+    expect(qc.maxCpp).toBe(round2(maxCppBase(quebec)));
+    expect(qc.maxEi).toBe(round2(maxEi(quebec)));
+    const [mixed] = summarizeJobs([job('a', 'QC'), job('b')]).contributions;
+    expect(mixed.maxCpp).toBe(round2(maxCppBase(rates)));
+  });
+});
+
+describe('CPP by age', () => {
+  const rates = TAX_YEARS[2026];
+  const weeks = (from: string, to: string) => Array.from({ length: 365 }, (_, i) => new Date(2026, 0, 1 + i))
+    .filter(d => d.getDay() !== 0 && d.getDay() !== 6)
+    .map(d => `2026-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`)
+    .filter(date => date >= from && date <= to)
+    .map(date => day(date, 8));
+  const job = { id: 'a', name: 'a', hourlyRate: 50, startDate: START, dayHours: weeks('2026-01-01', '2026-12-31') };
+
+  test('no CPP under 18, but EI all the same', () => {
+    const days = computeDetailedDays({ dayHours: weeks('2026-03-02', '2026-03-13'), hourlyRate: 20, startDate: START, birthDate: '2010-01-01' });
+    expect(days.every(d => d.cpp === 0)).toBe(true);
+    expect(days.some(d => d.employeeInsurance > 0)).toBe(true);
+  });
+
+  test('the year of the 18th birthday starts the month after, against prorated maximums', () => {
+    const [year] = summarizeJobs([job], TAX_YEARS, '2008-06-15').contributions;
+    const prorated = prorateCpp(rates, 6);
+    expect(year.maxCpp).toBe(round2(maxCppBase(prorated)));
+    expect(year.cpp).toBeCloseTo(maxCppBase(prorated), 1);
+    expect(year.cpp2).toBeCloseTo(maxCpp2(prorated), 1);
+    expect(year.refund).toBeLessThan(0.05);
+    const days = computeDetailedDays({ ...job, birthDate: '2008-06-15' });
+    expect(days.filter(d => d.payDate <= '2026-06-30').every(d => d.cpp === 0)).toBe(true);
+  });
+
+  test('a CPT30 filed with the employer ends CPP after the month of the 65th birthday', () => {
+    const dayHours = weeks('2026-03-02', '2026-04-30');
+    const paidAfter = (days: DetailedDay[]) => days.filter(d => d.payDate >= '2026-04-01');
+    const stays = computeDetailedDays({ dayHours, hourlyRate: 20, startDate: START, birthDate: '1961-03-10' });
+    const elected = computeDetailedDays({ dayHours, hourlyRate: 20, startDate: START, birthDate: '1961-03-10', cpt30: true });
+    expect(paidAfter(stays).some(d => d.cpp > 0)).toBe(true);
+    expect(paidAfter(elected).every(d => d.cpp === 0)).toBe(true);
+    expect(elected.filter(d => d.payDate < '2026-04-01').some(d => d.cpp > 0)).toBe(true);
+  });
+});
+
 describe('pay periods and the tax year', () => {
   test('daylight saving does not shift a date into the wrong week', () => {
     // 2026-03-08 is the spring-forward date; the day before and after must still
@@ -247,9 +1032,11 @@ describe('pay periods and the tax year', () => {
       days.push(day(`${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`, 8));
     }
     const priced = computeDetailedDays({ dayHours: days, hourlyRate: 17.6, startDate: '2026-01-05' });
-    expect(priced).toHaveLength(260);
+    expect(priced.filter(d => d.hours > 0)).toHaveLength(260);
     expect(start.getDay()).toBe(1); // the fixture really does start on a Monday
-    priced.forEach(d => expect(d.earnings).toBe(146.43)); // never the 1.5x rate
+    priced.forEach(d => expect(d.overtimeHours).toBe(0));
+    // public holidays add holiday pay on top; every other day is straight time
+    priced.filter(d => d.holidayPay === 0).forEach(d => expect(d.earnings).toBe(146.43));
   });
 
   test('each period is priced with its own calendar year rates', () => {
@@ -259,8 +1046,23 @@ describe('pay periods and the tax year', () => {
       startDate: '2025-12-01',
       payCycle: 'monthly',
     });
-    expect(days[0].employeeInsurance).toBe(13.64); // 832 * 1.64%, the 2025 rate
-    expect(days[1].employeeInsurance).toBe(13.56); // 832 * 1.63%, the 2026 rate
+    // each month also carries holiday pay (Christmas, Boxing Day, New Year's Day)
+    const month = (prefix: string, k: 'earnings' | 'employeeInsurance') =>
+      days.filter(d => d.date.startsWith(prefix)).reduce((s, d) => s + d[k], 0);
+    expect(month('2025-12', 'employeeInsurance')).toBeCloseTo(month('2025-12', 'earnings') * 0.0164, 2); // the 2025 rate
+    expect(month('2026-01', 'employeeInsurance')).toBeCloseTo(month('2026-01', 'earnings') * 0.0163, 2); // the 2026 rate
+  });
+
+  test('a cheque is withheld on the rates in force on its pay date', () => {
+    const days = computeDetailedDays({
+      dayHours: [day('2025-06-10', 8), day('2025-07-15', 8)],
+      hourlyRate: 100,
+      startDate: '2025-06-02',
+    });
+    const on = (date: string) => days.find(d => d.date === date)!;
+    // the same pay in June and July, but July's cheque is after the federal cut to 14%
+    expect(on('2025-06-10').earnings).toBe(on('2025-07-15').earnings);
+    expect(on('2025-07-15').incomeTax).toBeLessThan(on('2025-06-10').incomeTax);
   });
 
   test('CPP and EI stop at the annual maximums', () => {
@@ -293,4 +1095,68 @@ describe('pay periods and the tax year', () => {
     expect(getPeriodKey('2026-01-15', 'semi-monthly', START)).not.toBe(getPeriodKey('2026-01-16', 'semi-monthly', START));
     expect(getPeriodKey('2026-01-31', 'monthly', START)).toBe(getPeriodKey('2026-01-01', 'monthly', START));
   });
+
+  test('weekly periods run seven days from the start date', () => {
+    expect(getPeriodKey('2026-01-01', 'weekly', '2026-01-01')).toBe(getPeriodKey('2026-01-07', 'weekly', '2026-01-01'));
+    expect(getPeriodKey('2026-01-07', 'weekly', '2026-01-01')).not.toBe(getPeriodKey('2026-01-08', 'weekly', '2026-01-01'));
+    expect(getPeriodInfo('2026-01-09', 'weekly', '2026-01-01').end).toEqual(new Date(2026, 0, 14));
+  });
+
+  test('some years have 53 weekly or 27 bi-weekly pay dates', () => {
+    expect(payPeriodsInYear('weekly', '2026-01-01', 2026)).toBe(52);
+    // a Friday pay date that falls on January 1 comes round again on December 31
+    expect(payPeriodsInYear('weekly', '2025-12-26', 2026)).toBe(53);
+    expect(payPeriodsInYear('biweekly', '2025-12-19', 2026)).toBe(27);
+    expect(payPeriodsInYear('biweekly', '2026-01-01', 2026)).toBe(26);
+    expect(payPeriodsInYear('semi-monthly', '2026-01-01', 2026)).toBe(24);
+  });
+
+  test('semi-monthly and monthly periods start on the job\'s anchor days', () => {
+    const anchors = { startDay: 10, secondStartDay: 25, payDateOffsetDays: 0 };
+    const period = (date: string, cycle: PaymentCycle) => {
+      const info = getPeriodInfo(date, cycle, START, { ...anchors, startDay: cycle === 'monthly' ? 15 : 10 });
+      return [info.start, info.end].map(d => d.toDateString());
+    };
+    expect(period('2026-01-24', 'semi-monthly')).toEqual([new Date(2026, 0, 10), new Date(2026, 0, 24)].map(d => d.toDateString()));
+    expect(period('2026-01-05', 'semi-monthly')).toEqual([new Date(2025, 11, 25), new Date(2026, 0, 9)].map(d => d.toDateString()));
+    expect(period('2026-01-25', 'semi-monthly')).toEqual([new Date(2026, 0, 25), new Date(2026, 1, 9)].map(d => d.toDateString()));
+    expect(period('2026-01-10', 'monthly')).toEqual([new Date(2025, 11, 15), new Date(2026, 0, 14)].map(d => d.toDateString()));
+    expect(getPeriodKey('2026-01-05', 'semi-monthly', START, anchors)).toBe(getPeriodKey('2025-12-31', 'semi-monthly', START, anchors));
+  });
+
+  test('the default anchors keep calendar halves and months', () => {
+    expect(getPeriodInfo('2026-02-20', 'semi-monthly', START).end).toEqual(new Date(2026, 1, 28));
+    expect(getPeriodInfo('2026-02-15', 'semi-monthly', START).end).toEqual(new Date(2026, 1, 15));
+    expect(getPeriodInfo('2026-02-01', 'monthly', START).start).toEqual(new Date(2026, 1, 1));
+  });
+
+  test('the pay date, not the period end, picks the tax year', () => {
+    const priced = (payDateOffsetDays: number) => computeDetailedDays({
+      dayHours: [day('2025-12-22', 8)],
+      hourlyRate: 30,
+      startDate: '2025-12-15',
+      periodAnchors: { startDay: 1, secondStartDay: 16, payDateOffsetDays },
+    })[0];
+    expect(priced(0)).toMatchObject({ payDate: '2025-12-28', taxYear: 2025 });
+    expect(priced(7)).toMatchObject({ payDate: '2026-01-04', taxYear: 2026 });
+    // paid in January, so at the 2026 EI rate
+    expect(priced(7).employeeInsurance).toBeCloseTo(priced(7).earnings * 0.0163, 2);
+  });
+
+  test('a pay-date offset moves which periods are paid in the year', () => {
+    expect(payPeriodsInYear('weekly', '2025-12-26', 2026, 7)).toBe(52);
+    // a job starting January 2 is first paid on the 15th
+    expect(payPeriodsInYear('weekly', '2026-01-02', 2026, 7)).toBe(51);
+    // period ending December 25, 2025 is paid January 1
+    expect(payPeriodsInYear('weekly', '2025-12-19', 2026, 7)).toBe(53);
+  });
+
+  test('a 53-pay-period year spreads the CPP exemption over 53 cheques', () => {
+    const cpp = (startDate: string) =>
+      computeDetailedDays({ dayHours: [day('2026-03-10', 8)], hourlyRate: 40, startDate, payCycle: 'weekly' })
+        .filter(d => d.date === '2026-03-10')[0].cpp;
+    // 8h at $40 plus 4% vacation pay
+    expect(cpp('2026-01-02')).toBeCloseTo((332.8 - 3500 / 52) * 0.0595, 2);
+    expect(cpp('2025-12-26')).toBeCloseTo((332.8 - 3500 / 53) * 0.0595, 2);
+  });
 });
@@ -1,11 +1,29 @@
 import {
   CppYtd,
   EiYtd,
+  PROVINCES,
+  QpipYtd,
+  DEFAULT_TAX_CLAIMS,
+  TaxClaims,
   computeCpp,
   computeEi,
+  computeQpip,
+  IncomeTaxInput,
+  ProvinceCode,
   computeIncomeTax,
+  addTaxInputs,
+  computeLumpSumTax,
+  TAX_YEARS,
+  TaxTables,
+  contributesToCpp,
+  cppMonths,
   getTaxYearRates,
+  maxCpp2,
+  maxCppBase,
+  maxEi,
+  prorateCpp,
 } from "./tax";
+import { getOntarioHolidaysBetween } from "./holidays";
 
 /* ---------------------- Types ---------------------- */
 export type Item = {
@@ -19,43 +37,257 @@ export type Item = {
 export type JobMeta = {
   id: string;
   name: string;
+  /** Printed on pay statements; the job name alone when not set. */
+  employer?: string;
 };
 
+/** The person behind every job. */
+export type Profile = {
+  /** "YYYY-MM-DD"; decides when CPP starts and stops. Null when not given. */
+  birthDate: string | null;
+  /** Where the person lives on December 31: the province the return is filed in, whatever the jobs' provinces. */
+  province: ProvinceCode;
+};
+
+export const DEFAULT_PROFILE: Profile = { birthDate: null, province: "ON" };
+
+/**
+ * How a worked public holiday is paid. The ESA default is a substitute day off
+ * with holiday pay; premium pay (1.5x plus holiday pay) needs the employee's
+ * written agreement, so it is opt-in.
+ */
+export type HolidayWorkOption = "substitute" | "premium";
+
+/**
+ * One stretch of work in a day, such as either half of a split shift. It ends
+ * on the next day when the end time is before the start time.
+ */
+export type WorkShift = {
+  start: string | null; // "HH:MM"
+  end: string | null;   // "HH:MM"
+  lunchMinutes?: number | null; // the unpaid meal break within this shift
+  breaks?: ShiftBreak[] | null; // any other breaks, paid or not
+};
+
+/** A break within a shift. A paid break is still worked time; an unpaid one is not. */
+export type ShiftBreak = {
+  minutes: number;
+  paid: boolean;
+  start: string | null; // "HH:MM", when known
+};
+
+/** A job's usual break, added to each new shift. */
+export type BreakTemplate = ShiftBreak & { id: number; name: string };
+
+/** Ontario ESA: no more than five hours in a row without a 30-minute eating period. */
+export const ESA_EATING_PERIOD_AFTER_HOURS = 5;
+export const ESA_EATING_PERIOD_MINUTES = 30;
+
 export type DayHours = {
   date: string; // "YYYY-MM-DD"
-  start?: string | null; // "HH:MM"
-  end?: string | null;   // "HH:MM"
-  hours?: number | null; // calculated, not user input
+  shifts?: WorkShift[] | null; // timed shifts, in the order entered
+  start?: string | null; // legacy single shift, migrated into `shifts` on load
+  end?: string | null;   // legacy single shift
+  hours?: number | null; // calculated, not user input; the total of every shift
   lunch?: boolean;       // legacy lunch toggle state
-  lunchMinutes?: number | null; // minutes to subtract when lunch is enabled
+  lunchMinutes?: number | null; // minutes to subtract from plain hours (and a legacy shift)
   originalHours?: number | null;
+  holidayOption?: HolidayWorkOption; // only meaningful on a public holiday
+  substituteDate?: string | null; // "YYYY-MM-DD", the day off standing in for the holiday
+  extras?: ExtraEarning[] | null; // paid on top of the hours, or on a day with none
 };
 
+/**
+ * Money paid other than by the hour. Controlled tips and commission are
+ * regular pay; a bonus or retroactive pay is withheld on with the bonus method.
+ * Cash tips never go through payroll: nothing is withheld, but they are still
+ * income on the return. A reimbursement is not income at all.
+ */
+export type EarningType = "tips-cash" | "tips-controlled" | "commission" | "bonus" | "retro" | "reimbursement";
+
+export type ExtraEarning = {
+  id: number;
+  type: EarningType;
+  amount: number;
+};
+
+export const EARNING_TYPES: EarningType[] = ["tips-controlled", "tips-cash", "commission", "bonus", "retro", "reimbursement"];
+
+/** ESA wages, which earn vacation pay: not tips, and a bonus only if it was promised. */
+const VACATIONABLE_EARNINGS: EarningType[] = ["commission", "retro"];
+
 export type DetailedDay = {
   date: string;
   hours: number;
-  earnings: number; // gross
+  hourlyRate: number; // the rate in effect on this date
+  earnings: number; // gross, extra earnings and cash tips included
+  overtimeHours: number;
+  overtimeEarnings: number; // included in earnings, before vacation pay
+  shiftPremium: number; // included in earnings, before vacation pay
+  holidayPay: number; // public holiday pay, included in earnings
+  vacationPay: number; // paid this day: on the day's wages, or released from the bank
+  vacationBank: number; // banked vacation pay still owed after this day
+  extraEarnings: number; // tips, commission, bonus and retro pay, included in earnings
+  cashTips: number; // part of extraEarnings paid in cash: nothing withheld
+  reimbursement: number; // not earnings, but part of afterTax
   incomeTax: number;
   employeeInsurance: number;
-  cpp: number;
-  afterTax: number;
+  cpp: number; // QPP for a Quebec job
+  cpp2: number; // second additional contribution (CPP2 / QPP2), included in cpp
+  qpip: number; // Quebec parental insurance; always 0 outside Quebec
+  preTaxDeductions: number; // RRSP, pension, union dues: taken before income tax
+  postTaxDeductions: number;
+  afterTax: number; // take-home, after every deduction, reimbursements added
+  /** What the employer reports on the T4: less than earnings under the "3495" rule. */
+  taxableEarnings: number;
+  /** When the day's pay period is paid: its end plus the job's pay-date offset. */
+  payDate: string;
+  /** Calendar year of the pay date, which decides the rates and the YTD. */
+  taxYear: number;
 };
 
-export type PaymentCycle = "biweekly" | "semi-monthly" | "monthly";
+export type PaymentCycle = "weekly" | "biweekly" | "semi-monthly" | "monthly";
+
+/**
+ * Where a job's monthly and semi-monthly periods start, and how long after a
+ * period closes it is paid. Days of the month stop at 28 so every month has them.
+ */
+export type PeriodAnchors = {
+  /** First day of a monthly period, and of the first semi-monthly period. */
+  startDay: number;
+  /** First day of the second semi-monthly period, after `startDay`. */
+  secondStartDay: number;
+  /** Days from the end of a period to its pay date. */
+  payDateOffsetDays: number;
+};
 
 export type RosterData = {
   weekly: Record<string, string>;
   monthly: Record<string, string>;
 };
 
+/**
+ * When a job pays overtime, and at what multiplier. Daily thresholds and
+ * double time come from union agreements; the ESA itself only has the weekly
+ * threshold, optionally averaged over a 2-4 week agreement.
+ */
+export type OvertimePolicy = {
+  /** Straight-time hours per week before overtime. Null turns weekly overtime off. */
+  weeklyThreshold: number | null;
+  /** Straight-time hours per day before overtime. Null when only the week counts. */
+  dailyThreshold: number | null;
+  /** Hours in one day past which double time applies. Null for none. */
+  doubleTimeThreshold: number | null;
+  overtimeMultiplier: number;
+  doubleTimeMultiplier: number;
+  /** Weeks averaged together for the weekly threshold; 1 means no averaging. */
+  averagingWeeks: number;
+};
+
+/**
+ * Vacation pay for one job. ESA minimum is 4%, rising to 6% once the employee
+ * has five years of service; many employers bank it instead of paying it on
+ * every cheque.
+ */
+export type VacationPolicy = {
+  rate: number;
+  /** "per-cheque" pays it with the wages; "accrue" banks it until a payout. */
+  mode: VacationPayMode;
+  /** Rate from the anniversary below onward. Null for no increase. */
+  increasedRate: number | null;
+  /** Whole years of service, counted from the job start date. */
+  increaseAfterYears: number;
+};
+
+export type VacationPayMode = "per-cheque" | "accrue";
+
+/** Releases banked vacation pay on `date`; a null amount empties the bank. */
+export type VacationPayout = {
+  id: number;
+  date: string; // "YYYY-MM-DD"
+  amount: number | null;
+};
+
+/**
+ * A deduction taken from every cheque that pays anything. Pre-tax ones (group
+ * RRSP, registered pension, union dues) lower the income tax is withheld on;
+ * CPP and EI are still charged on the gross.
+ */
+export type PayDeduction = {
+  id: number;
+  name: string;
+  kind: DeductionKind;
+  /** Dollars a pay period, or for "percent" a fraction of the period's gross. */
+  amount: number;
+  preTax: boolean;
+};
+
+export type DeductionKind = "fixed" | "percent";
+
+/**
+ * Extra pay per hour worked inside a time window, on some days of the week:
+ * "+$2/h between 23:00 and 07:00", "+10% on Sundays". Premiums stack.
+ */
+export type ShiftPremium = {
+  id: number;
+  name: string;
+  kind: ShiftPremiumKind;
+  /** Dollars an hour, or for "percent" a fraction of the hourly rate. */
+  amount: number;
+  /** Days of the week it applies on, 0 = Sunday; empty for every day. */
+  days: number[];
+  /** "HH:MM" window, which may wrap past midnight; both null for the whole day. */
+  start: string | null;
+  end: string | null;
+};
+
+export type ShiftPremiumKind = "fixed" | "percent";
+
+/**
+ * Which date a shift that crosses midnight is paid on: all of it on the day it
+ * started, or each side of midnight on its own calendar day.
+ */
+export type OvernightRule = "start-date" | "split";
+
+/** What a paystub actually showed for one pay date; null where it was left blank. */
+export type PaystubRecord = {
+  payDate: string; // "YYYY-MM-DD"
+  gross: number | null;
+  cpp: number | null; // QPP for a Quebec job
+  ei: number | null;
+  incomeTax: number | null;
+  net: number | null;
+};
+
+/** An hourly rate, in effect from `date` until the next change. */
+export type RateChange = {
+  date: string; // "YYYY-MM-DD"
+  rate: number;
+};
+
 export type JobExport = {
   items: Item[];
+  /** The current rate, kept for files read by older versions. */
   hourlyRate: number;
+  rateHistory?: RateChange[];
   dayHours: DayHours[];
   startDate: string;
   currentDate?: string;
   payCycle?: PaymentCycle;
   roster?: RosterData;
+  overtime?: OvertimePolicy;
+  vacation?: VacationPolicy;
+  vacationPayouts?: VacationPayout[];
+  province?: ProvinceCode;
+  taxClaims?: TaxClaims;
+  deductions?: PayDeduction[];
+  shiftPremiums?: ShiftPremium[];
+  overnightRule?: OvernightRule;
+  breakTemplates?: BreakTemplate[];
+  periodAnchors?: PeriodAnchors;
+  paystubs?: PaystubRecord[];
+  timeZone?: string;
+  cpt30?: boolean;
 };
 
 export type AllJobsExport = {
@@ -64,16 +296,33 @@ export type AllJobsExport = {
   activeJobId: string;
   jobs: JobMeta[];
   jobData: Record<string, JobExport>;
+  profile?: Profile;
 };
 
 export type NormalizedJobData = {
   items: Item[];
-  hourlyRate: number;
+  hourlyRate: number; // the latest rate in the history
+  rateHistory: RateChange[];
   dayHours: DayHours[];
   startDate: string;
   currentDate: Date;
   payCycle: PaymentCycle;
   roster: RosterData;
+  overtime: OvertimePolicy;
+  vacation: VacationPolicy;
+  vacationPayouts: VacationPayout[];
+  province: ProvinceCode;
+  taxClaims: TaxClaims;
+  deductions: PayDeduction[];
+  shiftPremiums: ShiftPremium[];
+  overnightRule: OvernightRule;
+  breakTemplates: BreakTemplate[];
+  periodAnchors: PeriodAnchors;
+  paystubs: PaystubRecord[];
+  /** IANA name the job's shift times are in. */
+  timeZone: string;
+  /** A CPT30 election filed with this employer: no CPP after the month of the 65th birthday. */
+  cpt30: boolean;
 };
 
 /** One job's inputs, everything needed to price its hours on its own rate. */
@@ -81,46 +330,118 @@ export type JobCalcInput = {
   id: string;
   name: string;
   hourlyRate: number;
+  rateHistory?: RateChange[];
   startDate: string;
   dayHours: DayHours[];
   payCycle?: PaymentCycle;
+  overtime?: OvertimePolicy;
+  vacation?: VacationPolicy;
+  vacationPayouts?: VacationPayout[];
+  province?: ProvinceCode;
+  taxClaims?: TaxClaims;
+  deductions?: PayDeduction[];
+  shiftPremiums?: ShiftPremium[];
+  overnightRule?: OvernightRule;
+  periodAnchors?: PeriodAnchors;
+  timeZone?: string;
+  cpt30?: boolean;
 };
 
-/** One job's computed earnings, priced with that job's own hourly rate. */
+/** One job's computed earnings, priced with that job's own hourly rates. */
 export type JobEarnings = {
   id: string;
   name: string;
+  /** The current rate: the latest in the job's history. */
   hourlyRate: number;
+  /** Every rate its recorded hours were paid at, oldest first. */
+  rates: number[];
   hours: number;
   gross: number;
   afterTax: number;
 };
 
+/**
+ * One tax year's CPP and EI withheld by every employer together, against the
+ * year's maximums. Each employer stops at the maximum on its own, so two jobs
+ * can go past it between them; the excess comes back when the return is filed.
+ */
+export type ContributionYear = {
+  year: number;
+  /** Base and first additional CPP (or QPP); CPP2 is counted separately. */
+  cpp: number;
+  cpp2: number;
+  ei: number;
+  maxCpp: number;
+  maxCpp2: number;
+  maxEi: number;
+  cppRefund: number;
+  eiRefund: number;
+  /** cppRefund + eiRefund */
+  refund: number;
+};
+
 export type AllJobsSummary = {
   jobs: JobEarnings[];
   totalHours: number;
   totalGross: number;
   totalAfterTax: number;
+  /** Combined contributions for each tax year with pay in it, oldest first. */
+  contributions: ContributionYear[];
 };
 
 /* -------------------- Constants -------------------- */
 export const BIWEEKLY_TAXFREE_THRESHOLD = 88;
 export const BIWEEKLY_BONUS_RATE = 0.04; // 4% vacation pay per cycle
+export const ANNIVERSARY_VACATION_RATE = 0.06;
+export const ANNIVERSARY_VACATION_YEARS = 5;
 export const WEEKLY_OVERTIME_THRESHOLD = 44;
 export const OVERTIME_MULTIPLIER = 1.5;
+export const DOUBLE_TIME_MULTIPLIER = 2;
+export const PUBLIC_HOLIDAY_PREMIUM = 1.5;
+/** ESA holiday pay: the last four work weeks' regular wages and vacation pay, divided by 20. */
+export const HOLIDAY_PAY_WEEKS = 4;
+export const HOLIDAY_PAY_DIVISOR = 20;
+export const MAX_AVERAGING_WEEKS = 4;
 export const DEFAULT_LUNCH_MINUTES = 30;
+export const DEFAULT_OVERNIGHT_RULE: OvernightRule = "start-date";
+/**
+ * Shift times are wall-clock times in the job's time zone; a job without one is
+ * on Toronto time, like `getTorontoToday`.
+ */
+export const SHIFT_TIME_ZONE = "America/Toronto";
 
 export const UNLAWFUL_RULE_JOB_NAME = "3495";
 
+/** The ESA default: 1.5x past 44 hours in a week, nothing daily. */
+export const DEFAULT_OVERTIME_POLICY: OvertimePolicy = {
+  weeklyThreshold: WEEKLY_OVERTIME_THRESHOLD,
+  dailyThreshold: null,
+  doubleTimeThreshold: null,
+  overtimeMultiplier: OVERTIME_MULTIPLIER,
+  doubleTimeMultiplier: DOUBLE_TIME_MULTIPLIER,
+  averagingWeeks: 1,
+};
+
 export const defaultItems: Item[] = [
   { id: 1, name: "Rent", price: 0, taxable: false, enabled: true },
   { id: 2, name: "Food / Groceries", price: 0, taxable: true, enabled: true },
   { id: 3, name: "Transportation", price: 0, taxable: true, enabled: true },
 ];
 
+/** 4% paid on every cheque, 6% from the fifth anniversary: the ESA minimums. */
+export const DEFAULT_VACATION_POLICY: VacationPolicy = {
+  rate: BIWEEKLY_BONUS_RATE,
+  mode: "per-cheque",
+  increasedRate: ANNIVERSARY_VACATION_RATE,
+  increaseAfterYears: ANNIVERSARY_VACATION_YEARS,
+};
+
 /* -------------------- Helpers -------------------- */
 export const round2 = (n: number) => Math.round(n * 100) / 100;
 export const ymd = (d: Date) => d.toISOString().slice(0, 10);
+/** Like `ymd`, but on the local calendar date rather than the UTC one. */
+export const ymdLocal = (d: Date) =>
+  `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}-${String(d.getDate()).padStart(2, "0")}`;
 
 export const parseYmdLocal = (dateStr: string) => {
   const [y, m, d] = dateStr.split("-").map(Number);
@@ -147,14 +468,169 @@ export const getLunchMinutes = (entry?: DayHours | null) => {
   return DEFAULT_LUNCH_MINUTES;
 };
 
+/**
+ * The hourly rate in effect on a date: the latest change on or before it. Days
+ * before the first change are paid at the earliest rate, and a job without a
+ * history at `fallback`.
+ */
+export function rateOn(history: RateChange[] | undefined, dateStr: string, fallback: number): number {
+  let current: RateChange | null = null;
+  let earliest: RateChange | null = null;
+  for (const change of history ?? []) {
+    if (change.date <= dateStr && (!current || change.date >= current.date)) current = change;
+    if (!earliest || change.date < earliest.date) earliest = change;
+  }
+  return (current ?? earliest)?.rate ?? fallback;
+}
+
+/** The most recent rate in a history, or `fallback` without one. */
+export const latestRate = (history: RateChange[] | undefined, fallback: number) =>
+  rateOn(history, "9999-12-31", fallback);
+
+/** A day's shifts, reading a legacy single start/end as one shift. */
+export const getShifts = (entry?: DayHours | null): WorkShift[] => {
+  if (!entry) return [];
+  if (entry.shifts) return entry.shifts;
+  if (!entry.start && !entry.end) return [];
+  return [{ start: entry.start ?? null, end: entry.end ?? null, lunchMinutes: getLunchMinutes(entry) }];
+};
+
+/** True when the day was entered as times rather than plain hours. */
+export const hasShiftTimes = (entry?: DayHours | null) => getShifts(entry).some(s => s.start || s.end);
+
+const isComplete = (shift: WorkShift): shift is WorkShift & { start: string; end: string } =>
+  !!shift.start && !!shift.end;
+
 export const getOriginalHours = (entry: DayHours) => {
   if (entry.originalHours != null) return entry.originalHours;
-  if (entry.hours != null && !entry.start && !entry.end) return entry.hours;
+  if (entry.hours != null && !hasShiftTimes(entry)) return entry.hours;
   return null;
 };
 
 const utcDayStart = (d: Date) => Date.UTC(d.getFullYear(), d.getMonth(), d.getDate());
 
+/** The calendar date `days` after a "YYYY-MM-DD" date. */
+export const addDaysYmd = (dateStr: string, days: number) => {
+  const d = parseYmdLocal(dateStr);
+  return ymdLocal(new Date(d.getFullYear(), d.getMonth(), d.getDate() + days));
+};
+
+const toMinutes = (hhmm: string) => {
+  const [h, m] = hhmm.split(":").map(Number);
+  return h * 60 + (m || 0);
+};
+
+/** Minutes `timeZone` is ahead of UTC at the instant `utcMs`. */
+function zoneOffsetMinutes(utcMs: number, timeZone: string) {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone, hourCycle: "h23", year: "numeric", month: "2-digit", day: "2-digit", hour: "2-digit", minute: "2-digit",
+  }).formatToParts(new Date(utcMs));
+  const part = (type: string) => Number(parts.find(p => p.type === type)?.value);
+  const wall = Date.UTC(part("year"), part("month") - 1, part("day"), part("hour"), part("minute"));
+  return Math.round((wall - utcMs) / 60000);
+}
+
+/** True for an IANA time zone name this browser knows, such as "America/Vancouver". */
+export function isTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || value === "") return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The wall-clock date and "HH:MM" time in `timeZone` at the instant `utcMs`. */
+export function utcToZonedTime(utcMs: number, timeZone: string = SHIFT_TIME_ZONE): { date: string; time: string } {
+  const wall = new Date(utcMs + zoneOffsetMinutes(utcMs, timeZone) * 60000).toISOString();
+  return { date: wall.slice(0, 10), time: wall.slice(11, 16) };
+}
+
+/** The instant a wall-clock time happens in `timeZone`; a time skipped by DST lands after the gap. */
+export function zonedTimeToUtc(dateStr: string, hhmm: string, timeZone: string = SHIFT_TIME_ZONE): number {
+  const [y, m, d] = dateStr.split("-").map(Number);
+  const wall = Date.UTC(y, m - 1, d) + toMinutes(hhmm) * 60000;
+  const guess = wall - zoneOffsetMinutes(wall, timeZone) * 60000;
+  return wall - zoneOffsetMinutes(guess, timeZone) * 60000;
+}
+
+/** True when a shift's end time is earlier than its start: it ends the next day. */
+export const endsNextDay = (start: string, end: string) => toMinutes(end) < toMinutes(start);
+
+/**
+ * Paid hours of a shift starting on `dateStr`, by the clock: a 22:00-06:00
+ * shift is 8 hours, 7 on the night clocks spring forward and 9 when they fall
+ * back. Null when the result is not between 0 and 24 hours.
+ */
+export function shiftHours(dateStr: string, start: string, end: string, lunchMinutes = 0, timeZone = SHIFT_TIME_ZONE) {
+  const endDate = endsNextDay(start, end) ? addDaysYmd(dateStr, 1) : dateStr;
+  const minutes = (zonedTimeToUtc(endDate, end, timeZone) - zonedTimeToUtc(dateStr, start, timeZone)) / 60000;
+  const hours = (minutes - lunchMinutes) / 60;
+  return hours >= 0 && hours <= 24 ? round2(hours) : null;
+}
+
+/**
+ * Paid hours of every shift with both times set, less each one's break. Null
+ * when none is complete, when one is not a valid shift, or past 24 hours.
+ */
+export function shiftsHours(dateStr: string, shifts: WorkShift[], timeZone = SHIFT_TIME_ZONE): number | null {
+  const complete = shifts.filter(isComplete);
+  if (complete.length === 0) return null;
+  let total = 0;
+  for (const shift of complete) {
+    const hours = shiftHours(dateStr, shift.start, shift.end, unpaidBreakMinutes(shift), timeZone);
+    if (hours == null) return null;
+    total += hours;
+  }
+  return total <= 24 ? round2(total) : null;
+}
+
+/** A shift's breaks, its meal break first. */
+export const getBreaks = (shift: WorkShift): ShiftBreak[] => [
+  ...(shift.lunchMinutes ? [{ minutes: shift.lunchMinutes, paid: false, start: null }] : []),
+  ...(shift.breaks ?? []),
+];
+
+/** Minutes of a shift that are not paid. */
+export const unpaidBreakMinutes = (shift: WorkShift) =>
+  getBreaks(shift).reduce((sum, b) => sum + (b.paid ? 0 : b.minutes), 0);
+
+/**
+ * True when a shift runs more than five hours in a row without a 30-minute
+ * eating period, paid or unpaid. Eating periods with start times are checked
+ * where they fall; without one, each is assumed to be placed as well as it
+ * could be. Times are read in the job's `timeZone`, as its hours are.
+ */
+export function missingEatingPeriod(dateStr: string, shift: WorkShift, timeZone = SHIFT_TIME_ZONE): boolean {
+  if (!isComplete(shift)) return false;
+  const span = shiftHours(dateStr, shift.start, shift.end, 0, timeZone);
+  if (span == null) return false;
+  const limit = ESA_EATING_PERIOD_AFTER_HOURS * 60;
+  const spanMinutes = span * 60;
+  if (spanMinutes <= limit) return false;
+
+  const meals = getBreaks(shift).filter(b => b.minutes >= ESA_EATING_PERIOD_MINUTES);
+  if (meals.length === 0) return true;
+  if (meals.some(b => !b.start)) {
+    const worked = spanMinutes - meals.reduce((sum, b) => sum + b.minutes, 0);
+    return worked > limit * (meals.length + 1);
+  }
+  // minutes into the shift by the clock, across midnight if need be
+  const from = zonedTimeToUtc(dateStr, shift.start, timeZone);
+  const minutesIn = (time: string) =>
+    (zonedTimeToUtc(time < shift.start ? addDaysYmd(dateStr, 1) : dateStr, time, timeZone) - from) / 60000;
+  const timed = meals
+    .map(b => ({ at: minutesIn(b.start!), minutes: b.minutes }))
+    .sort((a, b) => a.at - b.at);
+  let resumed = 0;
+  for (const meal of timed) {
+    if (meal.at - resumed > limit) return true;
+    resumed = meal.at + meal.minutes;
+  }
+  return spanMinutes - resumed > limit;
+}
+
 /** Week / bi-week buckets are counted from the job's own start date, not the calendar. */
 export const getIndexInfo = (dateStr: string, baseStart: string) => {
   const start = parseYmdLocal(baseStart);
@@ -170,6 +646,14 @@ export const getIndexInfo = (dateStr: string, baseStart: string) => {
   };
 };
 
+/** Vacation pay rate on a date, stepping up on the service anniversary. */
+export function vacationRateOn(dateStr: string, startDate: string, policy: VacationPolicy): number {
+  if (policy.increasedRate == null) return policy.rate;
+  const start = parseYmdLocal(startDate);
+  const anniversary = new Date(start.getFullYear() + policy.increaseAfterYears, start.getMonth(), start.getDate());
+  return parseYmdLocal(dateStr) >= anniversary ? policy.increasedRate : policy.rate;
+}
+
 /** The "unlawful" payroll rule is opted into by naming the job exactly "3495". */
 export const isUnlawfulRuleJob = (jobName?: string | null) =>
   (jobName ?? "").trim() === UNLAWFUL_RULE_JOB_NAME;
@@ -177,133 +661,504 @@ export const isUnlawfulRuleJob = (jobName?: string | null) =>
 /* ------------- Pay periods ------------- */
 
 export const PERIODS_PER_YEAR: Record<PaymentCycle, number> = {
+  weekly: 52,
   biweekly: 26,
   "semi-monthly": 24,
   monthly: 12,
 };
 
 export const DEFAULT_CALC_PAY_CYCLE: PaymentCycle = "biweekly";
-
-const lastDayOfMonth = (y: number, m: number) => new Date(y, m + 1, 0).getDate();
+export const MAX_ANCHOR_DAY = 28;
+export const MAX_PAY_DATE_OFFSET_DAYS = 31;
+/** Calendar months and halves split on the 16th, paid the day they close. */
+export const DEFAULT_PERIOD_ANCHORS: PeriodAnchors = { startDay: 1, secondStartDay: 16, payDateOffsetDays: 0 };
+
+export type PeriodInfo = {
+  key: string;
+  /** Increases by one per period; neighbouring periods differ by one. */
+  index: number;
+  start: Date;
+  end: Date;
+  payDate: Date;
+};
 
 /**
- * Which pay period a date falls in, and when that period ends.
+ * Which pay period a date falls in, when that period ends and when it is paid.
  *
- * Bi-weekly periods are counted from the job's own start date; semi-monthly and
- * monthly ones follow the calendar. The end date is what picks the tax year for
- * the period, matching CRA's use of the payment date.
+ * Weekly and bi-weekly periods are counted from the job's own start date;
+ * semi-monthly and monthly ones start on the job's anchor days of the month.
+ * The pay date, not the period end, picks the tax year for the period, as CRA
+ * taxes pay in the year it is paid.
  */
-export function getPeriodInfo(dateStr: string, payCycle: PaymentCycle, baseStart: string) {
+export function getPeriodInfo(
+  dateStr: string,
+  payCycle: PaymentCycle,
+  baseStart: string,
+  anchors: PeriodAnchors = DEFAULT_PERIOD_ANCHORS
+): PeriodInfo {
   const d = parseYmdLocal(dateStr);
-  const year = d.getFullYear();
-  const month = d.getMonth();
-
-  if (payCycle === "monthly") {
-    const endDay = lastDayOfMonth(year, month);
-    return { key: `m:${year}-${month}`, end: new Date(year, month, endDay) };
+  const payDateOf = (end: Date) => new Date(end.getFullYear(), end.getMonth(), end.getDate() + anchors.payDateOffsetDays);
+
+  if (payCycle === "monthly" || payCycle === "semi-monthly") {
+    const days = payCycle === "monthly"
+      ? [anchors.startDay]
+      : [Math.min(anchors.startDay, anchors.secondStartDay), Math.max(anchors.startDay, anchors.secondStartDay)];
+    // a date before the first anchor belongs to the previous month's last period
+    const before = d.getDate() < days[0];
+    const year = d.getFullYear();
+    const month = d.getMonth() - (before ? 1 : 0);
+    const part = before ? days.length - 1 : days.filter(day => day <= d.getDate()).length - 1;
+    const start = new Date(year, month, days[part]);
+    const end = part + 1 < days.length
+      ? new Date(year, month, days[part + 1] - 1)
+      : new Date(year, month + 1, days[0] - 1);
+    const monthIndex = start.getFullYear() * 12 + start.getMonth();
+    const key = payCycle === "monthly"
+      ? `m:${start.getFullYear()}-${start.getMonth()}`
+      : `sm:${start.getFullYear()}-${start.getMonth()}-${part + 1}`;
+    return { key, index: monthIndex * days.length + part, start, end, payDate: payDateOf(end) };
   }
 
-  if (payCycle === "semi-monthly") {
-    const firstHalf = d.getDate() <= 15;
-    const endDay = firstHalf ? 15 : lastDayOfMonth(year, month);
-    return { key: `sm:${year}-${month}-${firstHalf ? 1 : 2}`, end: new Date(year, month, endDay) };
-  }
+  const step = payCycle === "weekly" ? 7 : 14;
+  const { weekIndex, biWeekIndex } = getIndexInfo(dateStr, baseStart);
+  const index = payCycle === "weekly" ? weekIndex : biWeekIndex;
+  const base = parseYmdLocal(baseStart);
+  const start = new Date(base.getFullYear(), base.getMonth(), base.getDate() + index * step);
+  const end = new Date(base.getFullYear(), base.getMonth(), base.getDate() + (index + 1) * step - 1);
+  return { key: `${payCycle === "weekly" ? "w" : "bw"}:${index}`, index, start, end, payDate: payDateOf(end) };
+}
 
-  const { biWeekIndex } = getIndexInfo(dateStr, baseStart);
-  const start = parseYmdLocal(baseStart);
-  const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + (biWeekIndex + 1) * 14 - 1);
-  return { key: `bw:${biWeekIndex}`, end };
+/**
+ * Pay dates in `year`. A weekly or bi-weekly cycle anchored on the start date
+ * sometimes pays 53 or 27 times in one calendar year; T4127 then uses 53 or 27
+ * as P, so the CPP exemption and the annualized tax are spread over the extra
+ * pay date instead of over-withholding on every cheque.
+ */
+export function payPeriodsInYear(payCycle: PaymentCycle, baseStart: string, year: number, payDateOffsetDays = 0): number {
+  if (payCycle !== "weekly" && payCycle !== "biweekly") return PERIODS_PER_YEAR[payCycle];
+  const step = payCycle === "weekly" ? 7 : 14;
+  // the periods paid in the year are the ones ending `payDateOffsetDays` earlier
+  const { diffDays } = getIndexInfo(ymdLocal(new Date(year, 0, 1 - payDateOffsetDays)), baseStart);
+  // first period end on or after January 1, never before the first period
+  const first = Math.max(1, Math.ceil((diffDays + 1) / step)) * step - 1 - diffDays;
+  const daysInYear = (utcDayStart(new Date(year + 1, 0, 1)) - utcDayStart(new Date(year, 0, 1))) / (1000 * 3600 * 24);
+  return first >= daysInYear ? 0 : Math.floor((daysInYear - 1 - first) / step) + 1;
 }
 
 /** Period key alone, for callers that only need to bucket days together. */
-export const getPeriodKey = (dateStr: string, payCycle: PaymentCycle, baseStart: string) =>
-  getPeriodInfo(dateStr, payCycle, baseStart).key;
+export const getPeriodKey = (dateStr: string, payCycle: PaymentCycle, baseStart: string, anchors?: PeriodAnchors) =>
+  getPeriodInfo(dateStr, payCycle, baseStart, anchors).key;
 
 /* ------------- Per-day earnings ------------- */
 
-type DayGross = { date: string; hours: number; earnings: number; taxable: number };
+type DayGross = {
+  date: string;
+  hours: number;
+  overtimeHours: number;
+  earnings: number;
+  overtimeEarnings: number;
+  shiftPremium: number;
+  holidayPay: number;
+  vacationPay: number;
+  vacationBank: number;
+  /** Annualized with the period's pay for income tax. */
+  taxable: number;
+  /** Taxable, pensionable and insurable, but withheld on as a lump sum. */
+  lumpSum: number;
+  extraEarnings: number;
+  /** In earnings, but never taxable, pensionable or insurable at source. */
+  cashTips: number;
+  /** Not in earnings at all. */
+  reimbursement: number;
+};
+
+/** Everything about a job that decides how its hours are priced. */
+type PayRules = {
+  hourlyRate: number;
+  rateHistory: RateChange[];
+  startDate: string;
+  useUnlawfulRule: boolean;
+  overtime: OvertimePolicy;
+  vacation: VacationPolicy;
+  vacationPayouts: VacationPayout[];
+  shiftPremiums: ShiftPremium[];
+  /** Only the Ontario ESA holidays are modelled, so other provinces pay none. */
+  province: ProvinceCode;
+};
+
+/** A day's entry with its hours as paid on that date. */
+type DayEntry = DayHours & { hours: number; segments?: WorkSegment[] };
+
+/**
+ * Split one day's hours into straight time, overtime and double time.
+ *
+ * Daily tiers come off the top of the day first. Only the straight-time hours
+ * left over count toward the weekly threshold, so an hour is never paid
+ * overtime twice. Under an averaging agreement the weekly threshold applies to
+ * the block of weeks as a whole.
+ */
+export function splitOvertimeHours(
+  hours: number,
+  blockWorked: number,
+  policy: OvertimePolicy
+) {
+  const doubleTime = policy.doubleTimeThreshold != null
+    ? Math.max(0, hours - policy.doubleTimeThreshold)
+    : 0;
+  const belowDouble = hours - doubleTime;
+  const dailyOvertime = policy.dailyThreshold != null
+    ? Math.max(0, belowDouble - policy.dailyThreshold)
+    : 0;
+  const straightCandidate = belowDouble - dailyOvertime;
+
+  let weeklyOvertime = 0;
+  if (policy.weeklyThreshold != null) {
+    const blockThreshold = policy.weeklyThreshold * policy.averagingWeeks;
+    const room = Math.max(0, blockThreshold - blockWorked);
+    weeklyOvertime = Math.max(0, straightCandidate - room);
+  }
+
+  return {
+    regular: straightCandidate - weeklyOvertime,
+    overtime: dailyOvertime + weeklyOvertime,
+    doubleTime,
+  };
+}
+
+/** Minutes of [from, to) inside a daily window that may wrap past midnight. */
+function minutesInWindow(from: number, to: number, windowStart: number, windowEnd: number) {
+  const windows = windowStart < windowEnd
+    ? [[windowStart, windowEnd]]
+    : [[0, windowEnd], [windowStart, 24 * 60]];
+  return windows.reduce((sum, [a, b]) => sum + Math.max(0, Math.min(to, b) - Math.max(from, a)), 0);
+}
+
+/**
+ * Paid time on one calendar day, in wall-clock minutes of that day. A day
+ * entered as plain hours has no times.
+ */
+type WorkSegment = { date: string; from: number | null; to: number | null; hours: number };
+
+/**
+ * A day's paid hours by calendar day: a segment per shift, and two for a shift
+ * that crosses midnight. The day's hours are shared in proportion to the time
+ * in each, so an unpaid break is taken pro-rata.
+ */
+function workSegments(entry: DayHours, timeZone = SHIFT_TIME_ZONE): WorkSegment[] {
+  const hours = entry.hours || 0;
+  const shifts = getShifts(entry).filter(isComplete);
+  if (shifts.length === 0) return [{ date: entry.date, from: null, to: null, hours }];
+
+  // wall-clock spans with their real length in milliseconds
+  const spans: (WorkSegment & { ms: number })[] = [];
+  for (const shift of shifts) {
+    const from = toMinutes(shift.start);
+    const to = toMinutes(shift.end);
+    const startAt = zonedTimeToUtc(entry.date, shift.start, timeZone);
+    if (!endsNextDay(shift.start, shift.end)) {
+      spans.push({ date: entry.date, from, to, hours: 0, ms: zonedTimeToUtc(entry.date, shift.end, timeZone) - startAt });
+      continue;
+    }
+    const nextDay = addDaysYmd(entry.date, 1);
+    const midnight = zonedTimeToUtc(nextDay, "00:00", timeZone);
+    spans.push({ date: entry.date, from, to: 24 * 60, hours: 0, ms: midnight - startAt });
+    spans.push({ date: nextDay, from: 0, to, hours: 0, ms: zonedTimeToUtc(nextDay, shift.end, timeZone) - midnight });
+  }
+  const total = spans.reduce((sum, s) => sum + Math.max(0, s.ms), 0);
+  return spans.map(({ ms, ...segment }) => ({
+    ...segment,
+    hours: total > 0 ? hours * Math.max(0, ms) / total : hours / spans.length,
+  }));
+}
+
+function segmentPremiumPay(segments: WorkSegment[], premiums: ShiftPremium[], hourlyRate: number): number {
+  let pay = 0;
+  for (const segment of segments) {
+    if (segment.hours <= 0) continue;
+    const weekday = parseYmdLocal(segment.date).getDay();
+    const span = segment.from != null && segment.to != null ? segment.to - segment.from : 0;
+    for (const premium of premiums) {
+      if (premium.days.length > 0 && !premium.days.includes(weekday)) continue;
+      let premiumHours = segment.hours;
+      if (premium.start != null && premium.end != null) {
+        if (span <= 0) continue;
+        const inWindow = minutesInWindow(segment.from!, segment.to!, toMinutes(premium.start), toMinutes(premium.end));
+        premiumHours = segment.hours * inWindow / span;
+      }
+      pay += premiumHours * (premium.kind === "percent" ? hourlyRate * premium.amount : premium.amount);
+    }
+  }
+  return pay;
+}
+
+/**
+ * Shift premium pay for one shift. A windowed premium needs the shift's start
+ * and end times and pays on the share of the paid hours inside the window, so
+ * an unpaid break is taken pro-rata. A whole-day premium pays on every hour.
+ * Past midnight, the next day's weekday decides.
+ */
+export function shiftPremiumPay(entry: DayHours, premiums: ShiftPremium[], hourlyRate: number, timeZone = SHIFT_TIME_ZONE): number {
+  if (premiums.length === 0 || (entry.hours || 0) <= 0) return 0;
+  return segmentPremiumPay(workSegments(entry, timeZone), premiums, hourlyRate);
+}
+
+/**
+ * Put each day's hours on the date they are paid on. Under "split" the hours
+ * after midnight join the next day's, for overtime, holidays and the pay
+ * period alike; everything else about the entry stays on the day it started.
+ */
+function attributeHours(entries: DayEntry[], rule: OvernightRule, timeZone: string): DayEntry[] {
+  const byDate = new Map<string, DayEntry>();
+  const put = (entry: DayEntry) => {
+    const existing = byDate.get(entry.date);
+    byDate.set(entry.date, existing
+      ? { ...existing, ...entry, hours: existing.hours + entry.hours, segments: [...existing.segments!, ...entry.segments!] }
+      : entry);
+  };
+  for (const entry of entries) {
+    const segments = workSegments(entry, timeZone);
+    const sameDay = segments.filter(s => s.date === entry.date);
+    if (rule === "start-date" || sameDay.length === segments.length) {
+      put({ ...entry, segments });
+      continue;
+    }
+    const nextDay = segments.filter(s => s.date !== entry.date);
+    const sum = (list: WorkSegment[]) => list.reduce((total, s) => total + s.hours, 0);
+    put({ ...entry, hours: sum(sameDay), segments: sameDay });
+    put({ date: nextDay[0].date, hours: sum(nextDay), segments: nextDay });
+  }
+  return Array.from(byDate.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Each timed shift's paid hours by the date they are paid on, one list per
+ * shift in entry order: all on the day the shift started, or under "split"
+ * the hours past midnight on the next day.
+ */
+export function shiftPaidHours(
+  entry: DayHours, rule: OvernightRule = DEFAULT_OVERNIGHT_RULE, timeZone = SHIFT_TIME_ZONE
+): { date: string; hours: number }[][] {
+  const shifts = getShifts(entry).filter(isComplete);
+  if (shifts.length === 0) return [];
+  // workSegments gives one segment per shift, or two for one past midnight
+  const segments = workSegments(entry, timeZone);
+  let next = 0;
+  return shifts.map(shift => {
+    const count = endsNextDay(shift.start, shift.end) ? 2 : 1;
+    const own = segments.slice(next, next + count);
+    next += count;
+    return own.map(s => ({ date: rule === "split" ? s.date : entry.date, hours: s.hours }));
+  });
+}
 
 /**
  * Gross pay and the taxable share of it, per day. Both payroll rules live here;
  * nothing below this point cares which one produced the numbers.
+ *
+ * Public holidays from the start date through `holidaysThrough` earn holiday
+ * pay whether worked or not; a holiday with nothing owed (no wages in the four
+ * weeks before) adds no row. The "3495" rule pays neither overtime nor holidays,
+ * and a job outside Ontario gets no Ontario holidays.
+ *
+ * Vacation pay, on wages and on holiday pay alike, is either added to each
+ * day's earnings or banked; a payout releases the bank on its date as a lump sum.
+ *
+ * Shift premiums are paid on top of the hours, overtime or not, and earn
+ * vacation pay like any other wages. The "3495" rule pays a flat rate.
  */
-function computeDayGross(
-  sorted: { date: string; hours: number }[],
-  hourlyRate: number,
-  startDate: string,
-  useUnlawfulRule: boolean
-): DayGross[] {
+function computeDayGross(sorted: DayEntry[], rules: PayRules, holidaysThrough: string): DayGross[] {
+  const { startDate, useUnlawfulRule, overtime, vacation } = rules;
   const biWeeklyTotals = new Map<number, number>();
   for (const r of sorted) {
     const { biWeekIndex } = getIndexInfo(r.date, startDate);
     biWeeklyTotals.set(biWeekIndex, (biWeeklyTotals.get(biWeekIndex) || 0) + (r.hours || 0));
   }
 
-  const weeklyWorked = new Map<number, number>();
-  const rows: DayGross[] = [];
-
-  for (const r of sorted) {
-    const h = r.hours || 0;
-    if (h <= 0) {
-      rows.push({ date: r.date, hours: 0, earnings: 0, taxable: 0 });
-      continue;
+  const holidays = useUnlawfulRule || rules.province !== "ON"
+    ? new Map<string, unknown>()
+    : getOntarioHolidaysBetween(startDate, holidaysThrough);
+  const entries = new Map(sorted.map(r => [r.date, r] as const));
+  const payouts = new Map<string, VacationPayout[]>();
+  for (const payout of rules.vacationPayouts) {
+    payouts.set(payout.date, [...(payouts.get(payout.date) || []), payout]);
+  }
+  const substitutes = sorted.map(r => r.substituteDate).filter((d): d is string => !!d);
+  const dates = Array.from(new Set(
+    Array.from(entries.keys()).concat(Array.from(holidays.keys()), Array.from(payouts.keys()), substitutes)
+  )).sort();
+
+  // Straight-time hours per averaging block (a single week without averaging).
+  const blockWorked = new Map<number, number>();
+  // Regular wages plus vacation pay per work week, the base for holiday pay.
+  const regularWages = new Map<number, number>();
+  let bank = 0;
+  const rows = new Map<string, DayGross>();
+  const rowFor = (date: string) => {
+    let row = rows.get(date);
+    if (!row) {
+      row = {
+        date, hours: 0, overtimeHours: 0, earnings: 0, overtimeEarnings: 0, shiftPremium: 0,
+        holidayPay: 0, vacationPay: 0, vacationBank: bank, taxable: 0, lumpSum: 0,
+        extraEarnings: 0, cashTips: 0, reimbursement: 0,
+      };
+      rows.set(date, row);
     }
+    return row;
+  };
 
-    const { weekIndex, biWeekIndex } = getIndexInfo(r.date, startDate);
+  for (const date of dates) {
+    const r = entries.get(date);
+    const h = r?.hours || 0;
+    const hourlyRate = rateOn(rules.rateHistory, date, rules.hourlyRate);
+    const { weekIndex, biWeekIndex } = getIndexInfo(date, startDate);
+    const isHoliday = holidays.has(date);
+    const premium = isHoliday && h > 0 && r?.holidayOption === "premium";
+    const vacationRate = vacationRateOn(date, startDate, vacation);
+
+    if (isHoliday) {
+      let base = 0;
+      for (let w = weekIndex - HOLIDAY_PAY_WEEKS; w < weekIndex; w++) base += regularWages.get(w) || 0;
+      const holidayPay = base / HOLIDAY_PAY_DIVISOR;
+      if (holidayPay > 0) {
+        // A worked holiday on the substitute-day option is paid on the day off
+        // that replaces it, once one is chosen.
+        const target = h > 0 && !premium && r?.substituteDate ? r.substituteDate : date;
+        const row = rowFor(target);
+        row.holidayPay += holidayPay;
+        row.earnings += holidayPay;
+        row.taxable += holidayPay;
+        // public holiday pay counts as wages for vacation pay
+        const holidayVacation = holidayPay * vacationRateOn(target, startDate, vacation);
+        if (vacation.mode === "per-cheque") {
+          row.vacationPay += holidayVacation;
+          row.earnings += holidayVacation;
+          row.taxable += holidayVacation;
+        } else {
+          bank += holidayVacation;
+        }
+      }
+    }
 
-    // 4% vacation pay for all hours in this bi-week
-    const bonusMultiplier = 1 + BIWEEKLY_BONUS_RATE;
+    if (r && h > 0) {
+      const row = rowFor(date);
+      // wages before vacation pay, and the part of them that is taxed
+      let wages = 0;
+      let taxedWages = 0;
+
+      if (useUnlawfulRule) {
+        // Hours past the bi-weekly threshold are paid untaxed, spread pro-rata
+        // across the days of that bi-week.
+        const biWeekHours = biWeeklyTotals.get(biWeekIndex) || 0;
+        let dayTaxFree = 0;
+        if (biWeekHours > BIWEEKLY_TAXFREE_THRESHOLD && biWeekHours > 0) {
+          const extra = biWeekHours - BIWEEKLY_TAXFREE_THRESHOLD;
+          dayTaxFree = round2((h / biWeekHours) * extra);
+          dayTaxFree = Math.min(dayTaxFree, h);
+        }
+
+        wages = h * hourlyRate;
+        taxedWages = Math.max(0, h - dayTaxFree) * hourlyRate;
+      } else if (premium) {
+        // Premium hours are neither regular wages nor counted toward overtime.
+        const shiftPremium = segmentPremiumPay(r.segments ?? workSegments(r), rules.shiftPremiums, hourlyRate);
+        row.shiftPremium += shiftPremium;
+        wages = h * hourlyRate * PUBLIC_HOLIDAY_PREMIUM + shiftPremium;
+        taxedWages = wages;
+      } else {
+        const block = Math.floor(weekIndex / overtime.averagingWeeks);
+        const worked = blockWorked.get(block) || 0;
+        const split = splitOvertimeHours(h, worked, overtime);
+        blockWorked.set(block, worked + split.regular);
+
+        // the premium on straight-time hours is part of the regular wages
+        const shiftPremium = segmentPremiumPay(r.segments ?? workSegments(r), rules.shiftPremiums, hourlyRate);
+        const regularEarnings = split.regular * hourlyRate + shiftPremium * (split.regular / h);
+        // holiday pay is based on the vacation pay payable, paid out or banked
+        regularWages.set(weekIndex, (regularWages.get(weekIndex) || 0) + regularEarnings * (1 + vacationRate));
+        const overtimeEarnings =
+          (split.overtime * overtime.overtimeMultiplier + split.doubleTime * overtime.doubleTimeMultiplier) * hourlyRate;
+        row.overtimeHours += split.overtime + split.doubleTime;
+        row.overtimeEarnings += overtimeEarnings;
+        row.shiftPremium += shiftPremium;
+        wages = split.regular * hourlyRate + overtimeEarnings + shiftPremium;
+        taxedWages = wages;
+      }
 
-    let earnings = 0;
-    let taxable = 0;
+      row.hours += h;
+      row.earnings += wages;
+      row.taxable += taxedWages;
+      if (vacation.mode === "per-cheque") {
+        row.vacationPay += wages * vacationRate;
+        row.earnings += wages * vacationRate;
+        row.taxable += taxedWages * vacationRate;
+      } else {
+        bank += wages * vacationRate;
+      }
+    } else if (r) {
+      rowFor(date);
+    }
 
-    if (useUnlawfulRule) {
-      // Hours past the bi-weekly threshold are paid untaxed, spread pro-rata
-      // across the days of that bi-week.
-      const biWeekHours = biWeeklyTotals.get(biWeekIndex) || 0;
-      let dayTaxFree = 0;
-      if (biWeekHours > BIWEEKLY_TAXFREE_THRESHOLD && biWeekHours > 0) {
-        const extra = biWeekHours - BIWEEKLY_TAXFREE_THRESHOLD;
-        dayTaxFree = round2((h / biWeekHours) * extra);
-        dayTaxFree = Math.min(dayTaxFree, h);
+    for (const extra of r?.extras || []) {
+      const amount = Number(extra.amount);
+      if (!Number.isFinite(amount) || amount <= 0) continue;
+      const row = rowFor(date);
+      if (extra.type === "reimbursement") {
+        row.reimbursement += amount;
+        continue;
       }
+      row.earnings += amount;
+      row.extraEarnings += amount;
+      const lumpSum = extra.type === "bonus" || extra.type === "retro";
+      if (extra.type === "tips-cash") row.cashTips += amount;
+      else if (lumpSum) row.lumpSum += amount;
+      else row.taxable += amount;
+      if (extra.type === "commission") {
+        regularWages.set(weekIndex, (regularWages.get(weekIndex) || 0) + amount * (1 + vacationRate));
+      }
+      if (!VACATIONABLE_EARNINGS.includes(extra.type)) continue;
+      if (vacation.mode === "per-cheque") {
+        row.vacationPay += amount * vacationRate;
+        row.earnings += amount * vacationRate;
+        if (lumpSum) row.lumpSum += amount * vacationRate;
+        else row.taxable += amount * vacationRate;
+      } else {
+        bank += amount * vacationRate;
+      }
+    }
 
-      earnings = h * hourlyRate * bonusMultiplier;
-      const taxableHours = Math.max(0, h - dayTaxFree);
-      taxable = taxableHours * hourlyRate * bonusMultiplier;
-    } else {
-      const workedSoFar = weeklyWorked.get(weekIndex) || 0;
-      const regularHours = Math.max(0, Math.min(h, WEEKLY_OVERTIME_THRESHOLD - workedSoFar));
-      const overtimeHours = Math.max(0, h - regularHours);
-      weeklyWorked.set(weekIndex, workedSoFar + h);
-
-      const regularEarnings = regularHours * hourlyRate * bonusMultiplier;
-      const overtimeEarnings = overtimeHours * hourlyRate * OVERTIME_MULTIPLIER * bonusMultiplier;
-      earnings = regularEarnings + overtimeEarnings;
-      taxable = earnings;
+    for (const payout of payouts.get(date) || []) {
+      const amount = Math.min(bank, payout.amount ?? bank);
+      if (amount <= 0) continue;
+      bank -= amount;
+      const row = rowFor(date);
+      row.vacationPay += amount;
+      row.earnings += amount;
+      row.lumpSum += amount;
     }
 
-    rows.push({ date: r.date, hours: h, earnings, taxable });
+    const row = rows.get(date);
+    if (row) row.vacationBank = bank;
   }
 
-  return rows;
+  return Array.from(rows.values()).sort((a, b) => a.date.localeCompare(b.date));
 }
 
 /**
  * Spread one pay period's deduction across its days, in proportion to each day's
- * taxable earnings. The residual cent goes on the last contributing day so the
- * days always add back up to the period total exactly.
+ * share of what was withheld on (`weights`). The residual cent goes on the last
+ * contributing day so the days always add back up to the period total exactly.
  */
-function distribute(total: number, rows: DayGross[], totalTaxable: number): number[] {
-  const out = rows.map(() => 0);
-  if (total === 0 || totalTaxable <= 0) return out;
+function distribute(total: number, weights: number[]): number[] {
+  const out = weights.map(() => 0);
+  const totalWeight = weights.reduce((sum, w) => sum + w, 0);
+  if (total === 0 || totalWeight <= 0) return out;
 
   let lastIdx = -1;
   let assigned = 0;
-  for (let i = 0; i < rows.length; i++) {
-    if (rows[i].taxable <= 0) continue;
+  for (let i = 0; i < weights.length; i++) {
+    if (weights[i] <= 0) continue;
     if (lastIdx >= 0) {
-      const share = round2((total * rows[lastIdx].taxable) / totalTaxable);
+      const share = round2((total * weights[lastIdx]) / totalWeight);
       out[lastIdx] = share;
       assigned += share;
     }
@@ -313,6 +1168,21 @@ function distribute(total: number, rows: DayGross[], totalTaxable: number): numb
   return out;
 }
 
+/** One deduction for a period; a percentage is of `gross`. */
+export const deductionAmount = (d: PayDeduction, gross: number) => (d.kind === "percent" ? gross * d.amount : d.amount);
+
+/** One period's recurring deductions, pre-tax and post-tax. */
+function deductionsFor(deductions: PayDeduction[], gross: number) {
+  let preTax = 0;
+  let postTax = 0;
+  for (const d of deductions) {
+    const amount = deductionAmount(d, gross);
+    if (d.preTax) preTax += amount;
+    else postTax += amount;
+  }
+  return { preTax, postTax };
+}
+
 /**
  * Price a job's hours and withhold CPP, EI and income tax from them.
  *
@@ -324,84 +1194,210 @@ function distribute(total: number, rows: DayGross[], totalTaxable: number): numb
  * Year-to-date caps (YMPE, MIE) reset each calendar year and are tracked per
  * job, which is correct: the annual maximums restart with each employer, and
  * this function is called once per job.
+ *
+ * A Quebec job pays QPP in the `cpp` column, EI at Quebec's reduced rate, and
+ * QPIP on top, with its own year-to-date cap.
+ *
+ * Bonuses, retroactive pay and vacation payouts are not annualized: each is
+ * taxed with the bonus method on top of the year's earlier lump sums.
+ *
+ * A shift past midnight is paid on the day it started, or under the "split"
+ * rule partly on the next day, which then counts toward that day's week and
+ * pay period.
+ *
+ * Each pay date is taxed on the rates in force that day from `taxTables`, the
+ * built-in years unless tables were imported.
+ *
+ * With a `birthDate`, a cheque carries CPP only in the months `contributesToCpp`
+ * allows, and the year's exemption and maximums are prorated to those months.
  */
 export function computeDetailedDays({
   dayHours,
   hourlyRate,
+  rateHistory = [],
   startDate,
   useUnlawfulRule = false,
   payCycle = DEFAULT_CALC_PAY_CYCLE,
+  overtime = DEFAULT_OVERTIME_POLICY,
+  vacation = DEFAULT_VACATION_POLICY,
+  vacationPayouts = [],
+  province = "ON",
+  taxClaims = DEFAULT_TAX_CLAIMS,
+  deductions = [],
+  shiftPremiums = [],
+  overnightRule = DEFAULT_OVERNIGHT_RULE,
+  periodAnchors = DEFAULT_PERIOD_ANCHORS,
+  timeZone = SHIFT_TIME_ZONE,
+  taxTables = TAX_YEARS,
+  birthDate = null,
+  cpt30 = false,
 }: {
   dayHours: DayHours[];
   hourlyRate: number;
+  rateHistory?: RateChange[];
   startDate: string;
   useUnlawfulRule?: boolean;
   payCycle?: PaymentCycle;
+  overtime?: OvertimePolicy;
+  vacation?: VacationPolicy;
+  vacationPayouts?: VacationPayout[];
+  province?: ProvinceCode;
+  taxClaims?: TaxClaims;
+  deductions?: PayDeduction[];
+  shiftPremiums?: ShiftPremium[];
+  overnightRule?: OvernightRule;
+  periodAnchors?: PeriodAnchors;
+  timeZone?: string;
+  taxTables?: TaxTables;
+  birthDate?: string | null;
+  cpt30?: boolean;
 }): DetailedDay[] {
-  const entries = dayHours.filter(d => d.hours != null && !isNaN(d.hours!)) as { date: string; hours: number; }[];
+  // a day with extra earnings but no hours still pays
+  const entries = dayHours
+    .filter(d => (d.hours != null && !isNaN(d.hours)) || (d.extras?.length ?? 0) > 0)
+    .map(d => (d.hours != null && !isNaN(d.hours) ? d : { ...d, hours: 0 })) as DayEntry[];
   if (entries.length === 0) return [];
 
-  const sorted = [...entries].sort((a, b) => a.date.localeCompare(b.date));
-  const rows = computeDayGross(sorted, hourlyRate, startDate, useUnlawfulRule);
+  const sorted = attributeHours(entries, overnightRule, timeZone);
+  // Holidays count up to the end of the last pay period with recorded hours.
+  const lastPeriod = getPeriodInfo(sorted[sorted.length - 1].date, payCycle, startDate, periodAnchors);
+  const rows = computeDayGross(
+    sorted,
+    { hourlyRate, rateHistory, startDate, useUnlawfulRule, overtime, vacation, vacationPayouts, shiftPremiums, province },
+    ymdLocal(lastPeriod.end)
+  );
 
   // Bucket days into pay periods, keeping first-seen order (already chronological).
-  const periods = new Map<string, { rows: DayGross[]; end: Date }>();
+  const periods = new Map<string, { rows: DayGross[]; payDate: Date }>();
   for (const row of rows) {
-    const { key, end } = getPeriodInfo(row.date, payCycle, startDate);
+    const { key, payDate } = getPeriodInfo(row.date, payCycle, startDate, periodAnchors);
     const bucket = periods.get(key);
     if (bucket) bucket.rows.push(row);
-    else periods.set(key, { rows: [row], end });
+    else periods.set(key, { rows: [row], payDate });
   }
 
-  const periodsPerYear = PERIODS_PER_YEAR[payCycle];
-  const ytdByYear = new Map<number, { cpp: CppYtd; ei: EiYtd }>();
+  const noIncome: IncomeTaxInput = { annualTaxable: 0, annualCppCredit: 0, annualCppDeduction: 0, annualEi: 0, annualQpip: 0 };
+  const ytdByYear = new Map<number, { cpp: CppYtd; ei: EiYtd; qpip: QpipYtd; lumpSums: IncomeTaxInput }>();
+  const inQuebec = province === "QC";
   const byDate = new Map<string, DetailedDay>();
 
-  for (const { rows: periodRows, end } of Array.from(periods.values())) {
-    const taxYear = end.getFullYear();
-    const rates = getTaxYearRates(taxYear);
+  for (const { rows: periodRows, payDate } of Array.from(periods.values())) {
+    const taxYear = payDate.getFullYear();
+    const periodsPerYear = Math.max(
+      PERIODS_PER_YEAR[payCycle],
+      payPeriodsInYear(payCycle, startDate, taxYear, periodAnchors.payDateOffsetDays)
+    );
+    // the rates in force on the pay date, which may change part way through a year
+    const rates = getTaxYearRates(ymdLocal(payDate), taxTables);
+    const payrollRates = PROVINCES[province].payrollRates?.(rates) ?? rates;
+    // no CPP before 18, after 70 or after a CPT30 election, and the maximums shrink to match
+    const election = { cpt30, quebec: inQuebec };
+    const pensionable = contributesToCpp(ymdLocal(payDate), birthDate, election);
+    const cppRates = prorateCpp(payrollRates, cppMonths(taxYear, birthDate, election));
     if (!ytdByYear.has(taxYear)) {
-      ytdByYear.set(taxYear, { cpp: { pensionable: 0, base: 0, cpp2: 0 }, ei: { insurable: 0, premium: 0 } });
+      ytdByYear.set(taxYear, {
+        cpp: { pensionable: 0, base: 0, cpp2: 0 },
+        ei: { insurable: 0, premium: 0 },
+        qpip: { insurable: 0, premium: 0 },
+        lumpSums: noIncome,
+      });
     }
     const ytd = ytdByYear.get(taxYear)!;
 
     // Untaxed earnings are not pensionable or insurable either.
-    const periodTaxable = periodRows.reduce((sum, r) => sum + r.taxable, 0);
-
-    const cpp = computeCpp(periodTaxable, rates.cpp.exemption / periodsPerYear, rates, ytd.cpp);
-    const ei = computeEi(periodTaxable, rates, ytd.ei);
-
-    const { total: annualTax } = computeIncomeTax(
-      {
-        annualTaxable: periodTaxable * periodsPerYear,
-        annualCppCredit: cpp.creditPortion * periodsPerYear,
-        annualCppDeduction: (cpp.enhancedPortion + cpp.cpp2) * periodsPerYear,
-        annualEi: ei * periodsPerYear,
-      },
-      rates
+    const periodRegular = periodRows.reduce((sum, r) => sum + r.taxable, 0);
+    const periodLumpSum = periodRows.reduce((sum, r) => sum + r.lumpSum, 0);
+    const periodTaxable = periodRegular + periodLumpSum;
+    // what the employer pays out: cash tips never pass through payroll
+    const periodGross = periodRows.reduce((sum, r) => sum + r.earnings - r.cashTips, 0);
+    const periodDeductions = periodGross > 0 ? deductionsFor(deductions, periodGross) : { preTax: 0, postTax: 0 };
+    // Pre-tax deductions cannot take the taxed pay below zero.
+    const preTax = Math.min(periodDeductions.preTax, periodRegular);
+
+    // the pay-period exemption is not prorated; only the year's totals are
+    const cpp = pensionable
+      ? computeCpp(periodTaxable, payrollRates.cpp.exemption / periodsPerYear, cppRates, ytd.cpp)
+      : computeCpp(0, 0, cppRates, ytd.cpp);
+    const ei = computeEi(periodTaxable, payrollRates, ytd.ei);
+    const qpip = inQuebec ? computeQpip(periodTaxable, rates, ytd.qpip) : 0;
+
+    // CPP and EI on the lump sum are credited against the lump sum's own tax.
+    const regularShare = periodTaxable > 0 ? periodRegular / periodTaxable : 1;
+    const regularInput: IncomeTaxInput = {
+      annualTaxable: (periodRegular - preTax) * periodsPerYear,
+      annualCppCredit: cpp.creditPortion * regularShare * periodsPerYear,
+      annualCppDeduction: (cpp.enhancedPortion + cpp.cpp2) * regularShare * periodsPerYear,
+      annualEi: ei * regularShare * periodsPerYear,
+      annualQpip: qpip * regularShare * periodsPerYear,
+    };
+    const { total: annualTax } = computeIncomeTax(regularInput, rates, province, taxClaims);
+    const lumpSumInput: IncomeTaxInput = {
+      annualTaxable: periodLumpSum,
+      annualCppCredit: cpp.creditPortion * (1 - regularShare),
+      annualCppDeduction: (cpp.enhancedPortion + cpp.cpp2) * (1 - regularShare),
+      annualEi: ei * (1 - regularShare),
+      annualQpip: qpip * (1 - regularShare),
+    };
+    // Lump sums paid earlier in the year sit on top of the regular pay (T4127's B1).
+    const lumpSumTax = computeLumpSumTax(
+      addTaxInputs(regularInput, ytd.lumpSums), lumpSumInput, rates, province, taxClaims
     );
+    if (periodLumpSum > 0) ytd.lumpSums = addTaxInputs(ytd.lumpSums, lumpSumInput);
 
     ytd.cpp = {
-      pensionable: ytd.cpp.pensionable + periodTaxable,
+      pensionable: ytd.cpp.pensionable + (pensionable ? periodTaxable : 0),
       base: ytd.cpp.base + cpp.base,
       cpp2: ytd.cpp.cpp2 + cpp.cpp2,
     };
     ytd.ei = { insurable: ytd.ei.insurable + periodTaxable, premium: ytd.ei.premium + ei };
-
-    const incomeTaxByDay = distribute(round2(annualTax / periodsPerYear), periodRows, periodTaxable);
-    const eiByDay = distribute(round2(ei), periodRows, periodTaxable);
-    const cppByDay = distribute(round2(cpp.total), periodRows, periodTaxable);
+    ytd.qpip = { insurable: ytd.qpip.insurable + periodTaxable, premium: ytd.qpip.premium + qpip };
+
+    const weights = periodRows.map(r => r.taxable + r.lumpSum);
+    // the TD1 additional tax comes off every cheque that pays anything
+    const additionalTax = periodTaxable > 0 ? taxClaims.additionalTax : 0;
+    const periodTax = round2(annualTax / periodsPerYear + lumpSumTax + additionalTax);
+    const withheld = periodTax + round2(ei) + round2(cpp.total) + round2(qpip) + round2(preTax);
+    // post-tax deductions come out of whatever is left
+    const postTax = Math.min(periodDeductions.postTax, Math.max(0, periodGross - withheld));
+    const incomeTaxByDay = distribute(periodTax, weights);
+    const eiByDay = distribute(round2(ei), weights);
+    const cppByDay = distribute(round2(cpp.total), weights);
+    const cpp2ByDay = distribute(round2(cpp.cpp2), weights);
+    const qpipByDay = distribute(round2(qpip), weights);
+    const grossWeights = periodRows.map(r => r.earnings - r.cashTips);
+    const preTaxByDay = distribute(round2(preTax), grossWeights);
+    const postTaxByDay = distribute(round2(postTax), grossWeights);
 
     periodRows.forEach((row, i) => {
       const earnings = round2(row.earnings);
       byDate.set(row.date, {
         date: row.date,
         hours: row.hours,
+        hourlyRate: rateOn(rateHistory, row.date, hourlyRate),
         earnings,
+        overtimeHours: round2(row.overtimeHours),
+        overtimeEarnings: round2(row.overtimeEarnings),
+        shiftPremium: round2(row.shiftPremium),
+        holidayPay: round2(row.holidayPay),
+        vacationPay: round2(row.vacationPay),
+        vacationBank: round2(row.vacationBank),
+        extraEarnings: round2(row.extraEarnings),
+        cashTips: round2(row.cashTips),
+        reimbursement: round2(row.reimbursement),
         incomeTax: incomeTaxByDay[i],
         employeeInsurance: eiByDay[i],
         cpp: cppByDay[i],
-        afterTax: round2(earnings - incomeTaxByDay[i] - eiByDay[i] - cppByDay[i]),
+        cpp2: cpp2ByDay[i],
+        qpip: qpipByDay[i],
+        preTaxDeductions: preTaxByDay[i],
+        postTaxDeductions: postTaxByDay[i],
+        afterTax: round2(
+          earnings + row.reimbursement
+            - incomeTaxByDay[i] - eiByDay[i] - cppByDay[i] - qpipByDay[i] - preTaxByDay[i] - postTaxByDay[i]
+        ),
+        taxableEarnings: round2(row.taxable + row.lumpSum),
+        payDate: ymdLocal(payDate),
+        taxYear,
       });
     });
   }
@@ -412,36 +1408,120 @@ export function computeDetailedDays({
 
 /* ------------- Multi-job aggregation ------------- */
 
-/** Price one job's hours on its own rate, start date and payroll rule. */
-export function computeJobEarnings(job: JobCalcInput): JobEarnings {
-  const days = computeDetailedDays({
+/**
+ * Price one job's hours on its own rate, start date, province, TD1 claims,
+ * overtime and vacation policies and payroll rule.
+ */
+export function computeJobDays(job: JobCalcInput, taxTables: TaxTables = TAX_YEARS, birthDate: string | null = null): DetailedDay[] {
+  return computeDetailedDays({
     dayHours: job.dayHours,
     hourlyRate: job.hourlyRate,
+    rateHistory: job.rateHistory ?? [],
     startDate: job.startDate,
     useUnlawfulRule: isUnlawfulRuleJob(job.name),
     payCycle: job.payCycle ?? DEFAULT_CALC_PAY_CYCLE,
+    overtime: job.overtime ?? DEFAULT_OVERTIME_POLICY,
+    vacation: job.vacation ?? DEFAULT_VACATION_POLICY,
+    vacationPayouts: job.vacationPayouts ?? [],
+    province: job.province ?? "ON",
+    taxClaims: job.taxClaims ?? DEFAULT_TAX_CLAIMS,
+    deductions: job.deductions ?? [],
+    shiftPremiums: job.shiftPremiums ?? [],
+    overnightRule: job.overnightRule ?? DEFAULT_OVERNIGHT_RULE,
+    periodAnchors: job.periodAnchors ?? DEFAULT_PERIOD_ANCHORS,
+    timeZone: job.timeZone ?? SHIFT_TIME_ZONE,
+    taxTables,
+    birthDate,
+    cpt30: job.cpt30 ?? false,
   });
+}
 
-  return {
-    id: job.id,
-    name: job.name,
-    hourlyRate: job.hourlyRate,
-    hours: round2(days.reduce((s, d) => s + d.hours, 0)),
-    gross: round2(days.reduce((s, d) => s + d.earnings, 0)),
-    afterTax: round2(days.reduce((s, d) => s + d.afterTax, 0)),
-  };
+const jobEarnings = (job: JobCalcInput, days: DetailedDay[]): JobEarnings => ({
+  id: job.id,
+  name: job.name,
+  hourlyRate: latestRate(job.rateHistory, job.hourlyRate),
+  rates: Array.from(new Set(days.filter(d => d.hours > 0).map(d => d.hourlyRate))),
+  hours: round2(days.reduce((s, d) => s + d.hours, 0)),
+  gross: round2(days.reduce((s, d) => s + d.earnings, 0)),
+  afterTax: round2(days.reduce((s, d) => s + d.afterTax, 0)),
+});
+
+/** One job's totals, priced with that job's own settings. */
+export function computeJobEarnings(
+  job: JobCalcInput,
+  taxTables: TaxTables = TAX_YEARS,
+  birthDate: string | null = null
+): JobEarnings {
+  return jobEarnings(job, computeJobDays(job, taxTables, birthDate));
+}
+
+/**
+ * Add up every job's CPP, CPP2 and EI by tax year. The maximums are Quebec's
+ * (QPP and the reduced EI) only when every job paying that year is in Quebec,
+ * and the CPP ones are prorated by age as `computeDetailedDays` prorates them.
+ * A CPT30 is filed per employer, so it leaves the combined maximums alone.
+ */
+export function summarizeContributions(
+  jobs: { province?: ProvinceCode; days: DetailedDay[] }[],
+  taxTables: TaxTables = TAX_YEARS,
+  birthDate: string | null = null
+): ContributionYear[] {
+  const years = new Map<number, { cpp: number; cpp2: number; ei: number; quebecOnly: boolean }>();
+  for (const { province = "ON", days } of jobs) {
+    for (const day of days) {
+      const year = years.get(day.taxYear) ?? { cpp: 0, cpp2: 0, ei: 0, quebecOnly: true };
+      year.cpp += day.cpp - day.cpp2;
+      year.cpp2 += day.cpp2;
+      year.ei += day.employeeInsurance;
+      year.quebecOnly = year.quebecOnly && province === "QC";
+      years.set(day.taxYear, year);
+    }
+  }
+
+  return Array.from(years.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([year, { cpp, cpp2, ei, quebecOnly }]) => {
+      const rates = getTaxYearRates(year, taxTables);
+      const payrollRates = prorateCpp(
+        quebecOnly ? PROVINCES.QC.payrollRates?.(rates) ?? rates : rates,
+        cppMonths(year, birthDate, { quebec: quebecOnly })
+      );
+      const maxCpp = round2(maxCppBase(payrollRates));
+      const maxSecond = round2(maxCpp2(payrollRates));
+      const maxPremium = round2(maxEi(payrollRates));
+      const cppRefund = round2(Math.max(0, cpp - maxCpp) + Math.max(0, cpp2 - maxSecond));
+      const eiRefund = round2(Math.max(0, ei - maxPremium));
+      return {
+        year,
+        cpp: round2(cpp),
+        cpp2: round2(cpp2),
+        ei: round2(ei),
+        maxCpp,
+        maxCpp2: maxSecond,
+        maxEi: maxPremium,
+        cppRefund,
+        eiRefund,
+        refund: round2(cppRefund + eiRefund),
+      };
+    });
 }
 
 /**
  * Combine every job the user holds. Each job keeps its own hourly rate, start
  * date and payroll rule; only the money is summed.
  */
-export function summarizeJobs(jobs: JobCalcInput[]): AllJobsSummary {
-  const perJob = jobs.map(computeJobEarnings);
+export function summarizeJobs(
+  jobs: JobCalcInput[],
+  taxTables: TaxTables = TAX_YEARS,
+  birthDate: string | null = null
+): AllJobsSummary {
+  const priced = jobs.map(job => ({ job, province: job.province, days: computeJobDays(job, taxTables, birthDate) }));
+  const perJob = priced.map(({ job, days }) => jobEarnings(job, days));
   return {
     jobs: perJob,
     totalHours: round2(perJob.reduce((s, j) => s + j.hours, 0)),
     totalGross: round2(perJob.reduce((s, j) => s + j.gross, 0)),
     totalAfterTax: round2(perJob.reduce((s, j) => s + j.afterTax, 0)),
+    contributions: summarizeContributions(priced, taxTables, birthDate),
   };
 }
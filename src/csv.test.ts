@@ -0,0 +1,80 @@
+import { computeDetailedDays } from './calc';
+import { csvDelimiter, detailsCsv, parseCsv, periodsCsv, toCsv } from './csv';
+
+/** A job's days from hours by date, paid bi-weekly from January 1, 2026. */
+const worked = (hourlyRate: number, hours: Record<string, number>) => computeDetailedDays({
+  dayHours: Object.entries(hours).map(([date, h]) => ({ date, hours: h })),
+  hourlyRate,
+  startDate: '2026-01-01',
+});
+
+// the cafe is paid January 14 and 28, the studio January 14
+const cafe = worked(20, { '2026-01-05': 8, '2026-01-06': 8, '2026-01-19': 8 });
+const studio = worked(30, { '2026-01-07': 4 });
+
+const lines = (csv: string) => csv.trimEnd().split('\r\n');
+
+describe('toCsv', () => {
+  test('writes numbers with two decimals and quotes text that needs it', () => {
+    expect(toCsv([['name', 'amount'], ['Tips, cash', 12.5], ['Say "hi"', -3]], 'en-CA'))
+      .toBe('name,amount\r\n"Tips, cash",12.50\r\n"Say ""hi""",-3.00\r\n');
+  });
+
+  test('a decimal-comma locale switches to semicolons', () => {
+    expect(csvDelimiter('en-CA')).toBe(',');
+    expect(csvDelimiter('fr-CA')).toBe(';');
+    expect(toCsv([['Café; bar', 1234.5]], 'fr-CA')).toBe('"Café; bar";1234,50\r\n');
+  });
+});
+
+describe('detailsCsv', () => {
+  test('one row per day in the range, without a job column for one job', () => {
+    const rows = lines(detailsCsv([{ name: 'Cafe', days: cafe }], { from: '2026-01-05', to: '2026-01-06' }, 'en-CA', false));
+    expect(rows[0].startsWith('Date,Pay Date,Hours,Rate,')).toBe(true);
+    expect(rows.slice(1).map(r => r.split(',').slice(0, 4))).toEqual([
+      ['2026-01-05', '2026-01-14', '8.00', '20.00'],
+      ['2026-01-06', '2026-01-14', '8.00', '20.00'],
+    ]);
+  });
+
+  test('every job by date, with a job column', () => {
+    const rows = lines(detailsCsv(
+      [{ name: 'Cafe', days: cafe }, { name: 'Studio', days: studio }], { from: '2026-01-05', to: '' }, 'en-CA', true));
+    expect(rows[0].startsWith('Job,Date,')).toBe(true);
+    expect(rows.slice(1).map(r => r.split(',').slice(0, 2).join(' '))).toEqual([
+      'Cafe 2026-01-05', 'Cafe 2026-01-06', 'Studio 2026-01-07', 'Cafe 2026-01-19',
+    ]);
+  });
+});
+
+describe('periodsCsv', () => {
+  test('one row per cheque, picked by pay date', () => {
+    const rows = lines(periodsCsv([{ name: 'Cafe', days: cafe }], { from: '2026-01-20', to: '' }, 'en-CA', false));
+    expect(rows).toHaveLength(2);
+    const [payDate, firstDay, lastDay, hours] = rows[1].split(',');
+    expect([payDate, firstDay, lastDay, hours]).toEqual(['2026-01-28', '2026-01-19', '2026-01-19', '8.00']);
+  });
+
+  test('the gross adds up the period\'s days', () => {
+    const rows = lines(periodsCsv([{ name: 'Cafe', days: cafe }], { from: '', to: '2026-01-14' }, 'en-CA', false));
+    const gross = cafe.filter(d => d.payDate === '2026-01-14').reduce((s, d) => s + d.earnings, 0);
+    expect(rows[1].split(',')[5]).toBe(gross.toFixed(2));
+  });
+});
+
+describe('parseCsv', () => {
+  test('reads quoted cells, doubled quotes and CRLF, dropping blank lines', () => {
+    expect(parseCsv('\ufeffDate,Note\r\n2026-01-02,"late, ""busy"""\r\n\r\n2026-01-03,"two\nlines"\r\n'))
+      .toEqual([['Date', 'Note'], ['2026-01-02', 'late, "busy"'], ['2026-01-03', 'two\nlines']]);
+  });
+
+  test('picks up semicolon and tab delimiters from the first line', () => {
+    expect(parseCsv('Date;Hours\n2026-01-02;7,5')).toEqual([['Date', 'Hours'], ['2026-01-02', '7,5']]);
+    expect(parseCsv('Date\tStart\n2026-01-02\t09:00')).toEqual([['Date', 'Start'], ['2026-01-02', '09:00']]);
+  });
+
+  test('reads back what toCsv writes', () => {
+    const rows = [['Job', 'Gross'], ['Café; bar', '1234,50']];
+    expect(parseCsv(toCsv([['Job', 'Gross'], ['Café; bar', 1234.5]], 'fr-CA'))).toEqual(rows);
+  });
+});
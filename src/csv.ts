@@ -0,0 +1,132 @@
+/**
+ * CSV export of priced days and pay-period totals, for spreadsheets and an
+ * accountant, and the parsing for CSV files coming the other way.
+ *
+ * Numbers are written in the chosen locale. Where that locale uses a decimal
+ * comma, fields are separated by semicolons instead, as spreadsheets set to
+ * those locales expect.
+ */
+
+import { DetailedDay } from "./calc";
+import { sumPay } from "./payStatement";
+
+export type CsvJob = { name: string; days: DetailedDay[] };
+
+/** Inclusive "YYYY-MM-DD" bounds; a blank bound is open. */
+export type CsvRange = { from: string; to: string };
+
+export type CsvTable = "details" | "periods";
+
+export const inCsvRange = (date: string, { from, to }: CsvRange) => (!from || date >= from) && (!to || date <= to);
+
+export const csvDelimiter = (locale: string) => {
+  const decimal = new Intl.NumberFormat(locale).formatToParts(1.5).find(p => p.type === "decimal")?.value;
+  return decimal === "," ? ";" : ",";
+};
+
+/** Rows to CSV text; numbers get two decimals in `locale`, text is quoted when it has to be. */
+export function toCsv(rows: (string | number)[][], locale: string): string {
+  const delimiter = csvDelimiter(locale);
+  const number = new Intl.NumberFormat(locale, { useGrouping: false, minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  const cell = (value: string | number) => {
+    const text = typeof value === "number" ? number.format(value) : value;
+    return /["\r\n]/.test(text) || text.includes(delimiter) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return rows.map(row => row.map(cell).join(delimiter)).join("\r\n") + "\r\n";
+}
+
+const DETAIL_HEADER = [
+  "Date", "Pay Date", "Hours", "Rate", "Overtime Hours", "Earnings", "Overtime Earnings", "Shift Premium", "Holiday Pay",
+  "Vacation Pay", "Extra Earnings", "Cash Tips", "Reimbursement", "Income Tax", "EI", "CPP/QPP", "CPP2/QPP2", "QPIP",
+  "Pre-tax Deductions", "Post-tax Deductions", "After Tax",
+];
+
+/** One row per priced day in the range, by date; `withJob` adds the job's name first. */
+export function detailsCsv(jobs: CsvJob[], range: CsvRange, locale: string, withJob: boolean): string {
+  const rows = jobs
+    .flatMap(({ name, days }) => days.filter(d => inCsvRange(d.date, range)).map(d => ({ name, d })))
+    .sort((a, b) => a.d.date.localeCompare(b.d.date))
+    .map(({ name, d }) => [
+      ...(withJob ? [name] : []),
+      d.date, d.payDate, d.hours, d.hourlyRate, d.overtimeHours, d.earnings, d.overtimeEarnings, d.shiftPremium, d.holidayPay,
+      d.vacationPay, d.extraEarnings, d.cashTips, d.reimbursement, d.incomeTax, d.employeeInsurance, d.cpp, d.cpp2, d.qpip,
+      d.preTaxDeductions, d.postTaxDeductions, d.afterTax,
+    ]);
+  return toCsv([[...(withJob ? ["Job"] : []), ...DETAIL_HEADER], ...rows], locale);
+}
+
+const PERIOD_HEADER = [
+  "Pay Date", "First Day", "Last Day", "Hours", "Overtime Hours", "Gross", "Income Tax", "EI", "CPP/QPP", "QPIP",
+  "Deductions", "Reimbursement", "Net",
+];
+
+/**
+ * One row per cheque, as the pay statement adds it up. The range applies to
+ * pay dates, so a period is never cut in half.
+ */
+export function periodsCsv(jobs: CsvJob[], range: CsvRange, locale: string, withJob: boolean): string {
+  const rows = jobs
+    .flatMap(({ name, days }) => {
+      const byPayDate = new Map<string, DetailedDay[]>();
+      days.filter(d => inCsvRange(d.payDate, range)).forEach(d => byPayDate.set(d.payDate, [...(byPayDate.get(d.payDate) ?? []), d]));
+      return Array.from(byPayDate.entries()).map(([payDate, periodDays]) => ({ name, payDate, periodDays }));
+    })
+    .sort((a, b) => a.payDate.localeCompare(b.payDate))
+    .map(({ name, payDate, periodDays }) => {
+      const dates = periodDays.map(d => d.date).sort();
+      const t = sumPay(periodDays);
+      return [
+        ...(withJob ? [name] : []),
+        payDate, dates[0], dates[dates.length - 1], t.hours, t.overtimeHours, t.gross, t.incomeTax, t.ei, t.cpp, t.qpip,
+        t.preTaxDeductions + t.postTaxDeductions, t.reimbursement, t.net,
+      ];
+    });
+  return toCsv([[...(withJob ? ["Job"] : []), ...PERIOD_HEADER], ...rows], locale);
+}
+
+/**
+ * CSV text to rows of cells. The delimiter is whichever of comma, semicolon
+ * or tab appears most in the first line outside quotes; a leading byte-order
+ * mark and blank lines are dropped.
+ */
+export function parseCsv(text: string): string[][] {
+  const body = text.replace(/^\ufeff/, "");
+  const firstLine = body.split(/\r?\n/, 1)[0].replace(/"[^"]*"/g, "");
+  const delimiter = [",", ";", "\t"].reduce((best, d) => (firstLine.split(d).length > firstLine.split(best).length ? d : best));
+
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(c => c.trim() !== "")) rows.push(row.map(c => c.trim()));
+    row = [];
+    cell = "";
+  };
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (quoted) {
+      if (ch === '"' && body[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cell += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === delimiter) {
+      row.push(cell);
+      cell = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && body[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      cell += ch;
+    }
+  }
+  if (cell !== "" || row.length > 0) endRow();
+  return rows;
+}
@@ -0,0 +1,53 @@
+import { easterSunday, getOntarioHolidays, getOntarioHolidaysBetween } from './holidays';
+
+const datesFor = (year: number) => Object.fromEntries(getOntarioHolidays(year).map(h => [h.key, h.date]));
+
+describe('Ontario public holidays', () => {
+  test('2026 matches the published list', () => {
+    expect(datesFor(2026)).toEqual({
+      newYearsDay: '2026-01-01',
+      familyDay: '2026-02-16',
+      goodFriday: '2026-04-03',
+      victoriaDay: '2026-05-18',
+      canadaDay: '2026-07-01',
+      labourDay: '2026-09-07',
+      thanksgiving: '2026-10-12',
+      christmasDay: '2026-12-25',
+      boxingDay: '2026-12-26',
+    });
+  });
+
+  test('2025 matches the published list', () => {
+    expect(datesFor(2025)).toMatchObject({
+      familyDay: '2025-02-17',
+      goodFriday: '2025-04-18',
+      victoriaDay: '2025-05-19',
+      labourDay: '2025-09-01',
+      thanksgiving: '2025-10-13',
+    });
+  });
+
+  test('Victoria Day is May 24 itself when that is a Monday', () => {
+    expect(datesFor(2027).victoriaDay).toBe('2027-05-24');
+  });
+
+  test('Easter lands on known dates, including the March extremes', () => {
+    expect(easterSunday(2024)).toEqual({ month: 2, day: 31 });
+    expect(easterSunday(2027)).toEqual({ month: 2, day: 28 });
+    expect(easterSunday(2038)).toEqual({ month: 3, day: 25 });
+  });
+
+  test('a March Easter puts Good Friday in March', () => {
+    expect(datesFor(2027).goodFriday).toBe('2027-03-26');
+  });
+
+  test('only the nine ESA holidays, no Civic Holiday or Easter Monday', () => {
+    expect(getOntarioHolidays(2026)).toHaveLength(9);
+  });
+
+  test('a range spans years and is inclusive at both ends', () => {
+    const range = getOntarioHolidaysBetween('2025-12-25', '2026-01-01');
+    expect(Array.from(range.keys())).toEqual(['2025-12-25', '2025-12-26', '2026-01-01']);
+    expect(range.get('2025-12-26')?.name).toBe('Boxing Day');
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Ontario public holidays under the Employment Standards Act, computed for any
+ * year rather than listed, so the calendar never runs out.
+ *
+ * Only the nine ESA holidays are here. Civic Holiday (August) and Easter Monday
+ * are not public holidays under the ESA, even though many employers give them.
+ */
+
+export type HolidayKey =
+  | "newYearsDay"
+  | "familyDay"
+  | "goodFriday"
+  | "victoriaDay"
+  | "canadaDay"
+  | "labourDay"
+  | "thanksgiving"
+  | "christmasDay"
+  | "boxingDay";
+
+export type Holiday = {
+  date: string; // "YYYY-MM-DD"
+  key: HolidayKey;
+  name: string;
+};
+
+const HOLIDAY_NAMES: Record<HolidayKey, string> = {
+  newYearsDay: "New Year's Day",
+  familyDay: "Family Day",
+  goodFriday: "Good Friday",
+  victoriaDay: "Victoria Day",
+  canadaDay: "Canada Day",
+  labourDay: "Labour Day",
+  thanksgiving: "Thanksgiving Day",
+  christmasDay: "Christmas Day",
+  boxingDay: "Boxing Day",
+};
+
+const pad = (n: number) => String(n).padStart(2, "0");
+const toYmd = (y: number, m: number, d: number) => `${y}-${pad(m + 1)}-${pad(d)}`;
+
+/** Day of the month of the nth `weekday` (0 = Sunday) in a month. */
+const nthWeekday = (year: number, month: number, weekday: number, n: number) => {
+  const first = new Date(year, month, 1).getDay();
+  return 1 + ((weekday - first + 7) % 7) + (n - 1) * 7;
+};
+
+/** Easter Sunday, Gregorian calendar (anonymous / Meeus algorithm). */
+export function easterSunday(year: number): { month: number; day: number } {
+  const a = year % 19;
+  const b = Math.floor(year / 100);
+  const c = year % 100;
+  const d = Math.floor(b / 4);
+  const e = b % 4;
+  const f = Math.floor((b + 8) / 25);
+  const g = Math.floor((b - f + 1) / 3);
+  const h = (19 * a + b - d - g + 15) % 30;
+  const i = Math.floor(c / 4);
+  const k = c % 4;
+  const l = (32 + 2 * e + 2 * i - h - k) % 7;
+  const m = Math.floor((a + 11 * h + 22 * l) / 451);
+  const month = Math.floor((h + l - 7 * m + 114) / 31) - 1;
+  const day = ((h + l - 7 * m + 114) % 31) + 1;
+  return { month, day };
+}
+
+export function getOntarioHolidays(year: number): Holiday[] {
+  const easter = easterSunday(year);
+  const goodFriday = new Date(year, easter.month, easter.day - 2);
+  // Victoria Day is the last Monday before May 25.
+  const may24 = new Date(year, 4, 24).getDay();
+  const victoriaDay = 24 - ((may24 + 6) % 7);
+
+  const dates: [HolidayKey, string][] = [
+    ["newYearsDay", toYmd(year, 0, 1)],
+    ["familyDay", toYmd(year, 1, nthWeekday(year, 1, 1, 3))],
+    ["goodFriday", toYmd(goodFriday.getFullYear(), goodFriday.getMonth(), goodFriday.getDate())],
+    ["victoriaDay", toYmd(year, 4, victoriaDay)],
+    ["canadaDay", toYmd(year, 6, 1)],
+    ["labourDay", toYmd(year, 8, nthWeekday(year, 8, 1, 1))],
+    ["thanksgiving", toYmd(year, 9, nthWeekday(year, 9, 1, 2))],
+    ["christmasDay", toYmd(year, 11, 25)],
+    ["boxingDay", toYmd(year, 11, 26)],
+  ];
+  return dates.map(([key, date]) => ({ date, key, name: HOLIDAY_NAMES[key] }));
+}
+
+/** Every holiday from `from` to `to` inclusive, keyed by date. */
+export function getOntarioHolidaysBetween(from: string, to: string): Map<string, Holiday> {
+  const out = new Map<string, Holiday>();
+  const firstYear = Number(from.slice(0, 4));
+  const lastYear = Number(to.slice(0, 4));
+  if (!Number.isFinite(firstYear) || !Number.isFinite(lastYear)) return out;
+  for (let year = firstYear; year <= lastYear; year++) {
+    for (const holiday of getOntarioHolidays(year)) {
+      if (holiday.date >= from && holiday.date <= to) out.set(holiday.date, holiday);
+    }
+  }
+  return out;
+}
@@ -0,0 +1,187 @@
+import { DayHours, computeDetailedDays } from './calc';
+import { IcsJob, mergeIcsShifts, parseIcs, shiftsToIcs } from './ics';
+
+const dayHours: DayHours[] = [
+  { date: '2026-01-02', shifts: [{ start: '09:00', end: '17:00', lunchMinutes: 30 }], hours: 7.5 },
+  { date: '2026-01-03', hours: 4 },
+  { date: '2026-01-09', shifts: [{ start: '22:00', end: '06:00', lunchMinutes: 0 }], hours: 8 },
+];
+const job = (over: Partial<IcsJob> = {}): IcsJob => ({
+  id: 'cafe',
+  name: 'Cafe',
+  timeZone: 'America/Toronto',
+  dayHours,
+  days: computeDetailedDays({ dayHours, hourlyRate: 20, startDate: '2026-01-01' }),
+  ...over,
+});
+const NOW = new Date(Date.UTC(2026, 0, 15, 12, 0));
+
+/** Unfolded content lines of a calendar. */
+const lines = (ics: string) => ics.replace(/\r\n /g, '').trimEnd().split('\r\n');
+
+const calendar = (...events: string[][]) =>
+  ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flatMap(e => ['BEGIN:VEVENT', ...e, 'END:VEVENT']), 'END:VCALENDAR'].join('\r\n');
+
+describe('shiftsToIcs', () => {
+  test('one event per timed shift, in UTC from the job\'s time zone', () => {
+    const out = lines(shiftsToIcs([job()], NOW));
+    expect(out.filter(l => l.startsWith('DTSTART') || l.startsWith('DTEND'))).toEqual([
+      'DTSTART:20260102T140000Z',
+      'DTEND:20260102T220000Z',
+      // past midnight, ending on the next day
+      'DTSTART:20260110T030000Z',
+      'DTEND:20260110T110000Z',
+    ]);
+    expect(out).toContain('UID:cafe-20260102-1@work-record-keeper');
+    expect(out).toContain('DTSTAMP:20260115T120000Z');
+    expect(out[0]).toBe('BEGIN:VCALENDAR');
+    expect(out[out.length - 1]).toBe('END:VCALENDAR');
+  });
+
+  test('names the job and the shift\'s estimated earnings', () => {
+    const out = lines(shiftsToIcs([job({ name: 'Bar, Grill; Patio' })], NOW));
+    expect(out).toContain('SUMMARY:Bar\\, Grill\\; Patio');
+    // 7.5h at $20 plus 4% vacation pay
+    expect(out).toContain('DESCRIPTION:Bar\\, Grill\\; Patio\\nEstimated earnings: $156.00');
+  });
+
+  test('under the split rule a shift past midnight earns on both of its dates', () => {
+    const split: DayHours[] = [
+      { date: '2026-01-09', shifts: [{ start: '22:00', end: '06:00', lunchMinutes: 0 }], hours: 8 },
+      { date: '2026-01-10', shifts: [{ start: '10:00', end: '14:00', lunchMinutes: 0 }], hours: 4 },
+    ];
+    const days = computeDetailedDays({ dayHours: split, hourlyRate: 20, startDate: '2026-01-01', overnightRule: 'split' });
+    const out = lines(shiftsToIcs([job({ dayHours: split, days, overnightRule: 'split' })], NOW));
+    // 2h on the 9th and 6h on the 10th, then 4h on the 10th, all at $20 plus 4% vacation pay
+    expect(out.filter(l => l.startsWith('DESCRIPTION'))).toEqual([
+      'DESCRIPTION:Cafe\\nEstimated earnings: $166.40',
+      'DESCRIPTION:Cafe\\nEstimated earnings: $83.20',
+    ]);
+  });
+
+  test('the same wall-clock shift is a different instant in another zone', () => {
+    const out = lines(shiftsToIcs([job({ timeZone: 'America/Vancouver' })], NOW));
+    expect(out).toContain('DTSTART:20260102T170000Z');
+  });
+
+  test('long lines are folded at 75 octets', () => {
+    const raw = shiftsToIcs([job({ name: 'Café '.repeat(30) })], NOW).split('\r\n');
+    expect(raw.every(l => Buffer.byteLength(l, 'utf8') <= 75)).toBe(true);
+    expect(raw.some(l => l.startsWith(' '))).toBe(true);
+  });
+});
+
+describe('parseIcs', () => {
+  test('UTC times move to the job\'s time zone', () => {
+    const ics = calendar(['DTSTART:20260102T140000Z', 'DTEND:20260102T220000Z', 'SUMMARY:Opening']);
+    expect(parseIcs(ics, 'America/Toronto'))
+      .toEqual([{ date: '2026-01-02', start: '09:00', end: '17:00', summary: 'Opening', issue: null }]);
+    expect(parseIcs(ics, 'America/Vancouver'))
+      .toEqual([{ date: '2026-01-02', start: '06:00', end: '14:00', summary: 'Opening', issue: null }]);
+  });
+
+  test('a TZID time is converted; a floating time is the job\'s own', () => {
+    const ics = calendar(
+      ['DTSTART;TZID=America/Vancouver:20260102T090000', 'DTEND;TZID=America/Vancouver:20260102T170000'],
+      ['DTSTART:20260103T090000', 'DTEND:20260103T130000'],
+      ['DTSTART;TZID=Eastern Standard Time:20260104T090000', 'DTEND;TZID=Eastern Standard Time:20260104T130000'],
+    );
+    expect(parseIcs(ics, 'America/Toronto').map(s => [s.date, s.start, s.end])).toEqual([
+      ['2026-01-02', '12:00', '20:00'],
+      ['2026-01-03', '09:00', '13:00'],
+      ['2026-01-04', '09:00', '13:00'],
+    ]);
+  });
+
+  test('an overnight event is one shift on the day it starts', () => {
+    const ics = calendar(['DTSTART:20260110T030000Z', 'DTEND:20260110T110000Z']);
+    expect(parseIcs(ics, 'America/Toronto')).toEqual([{ date: '2026-01-09', start: '22:00', end: '06:00', summary: '', issue: null }]);
+  });
+
+  test('an event with a DURATION instead of a DTEND ends that long after it starts', () => {
+    const ics = calendar(
+      ['DTSTART:20260102T220000', 'DURATION:PT7H30M'],
+      ['DTSTART:20260103T090000', 'DURATION:P1D'],
+      ['DTSTART:20260104T090000', 'DURATION:-PT1H'],
+    );
+    expect(parseIcs(ics, 'America/Toronto')).toEqual([{ date: '2026-01-02', start: '22:00', end: '05:30', summary: '', issue: null }]);
+  });
+
+  test('an alarm inside an event does not change its summary or end', () => {
+    const ics = calendar([
+      'DTSTART:20260102T090000', 'DTEND:20260102T170000', 'SUMMARY:Opening',
+      'BEGIN:VALARM', 'ACTION:DISPLAY', 'TRIGGER:-PT15M', 'DURATION:PT5M', 'REPEAT:2', 'SUMMARY:Reminder', 'DESCRIPTION:Leave now', 'END:VALARM',
+    ]);
+    expect(parseIcs(ics, 'America/Toronto'))
+      .toEqual([{ date: '2026-01-02', start: '09:00', end: '17:00', summary: 'Opening', issue: null }]);
+  });
+
+  test('skips all-day, cancelled and over-long events', () => {
+    const ics = calendar(
+      ['DTSTART;VALUE=DATE:20260105', 'DTEND;VALUE=DATE:20260106'],
+      ['DTSTART:20260106T090000', 'DTEND:20260106T170000', 'STATUS:CANCELLED'],
+      ['DTSTART:20260107T090000', 'DTEND:20260108T150000'],
+      ['DTSTART:20260109T090000'],
+    );
+    expect(parseIcs(ics, 'America/Toronto')).toEqual([]);
+  });
+
+  test('repeating events are flagged rather than read as their first date', () => {
+    const ics = calendar(
+      ['DTSTART:20260105T090000', 'DTEND:20260105T170000', 'RRULE:FREQ=WEEKLY;COUNT=4'],
+      ['DTSTART:20260112T100000', 'DTEND:20260112T180000', 'RECURRENCE-ID:20260112T090000'],
+      ['DTSTART:20260106T090000', 'DTEND:20260106T170000'],
+    );
+    expect(parseIcs(ics, 'America/Toronto').map(s => [s.date, s.issue])).toEqual([
+      ['2026-01-05', 'recurring'],
+      ['2026-01-12', 'recurring'],
+      ['2026-01-06', null],
+    ]);
+  });
+
+  test('a date adding up to more than 24 hours is flagged whole', () => {
+    const ics = calendar(
+      ['DTSTART:20260105T000000', 'DTEND:20260105T160000'],
+      ['DTSTART:20260105T120000', 'DTEND:20260106T040000'],
+      ['DTSTART:20260106T090000', 'DTEND:20260106T170000'],
+    );
+    expect(parseIcs(ics, 'America/Toronto').map(s => [s.date, s.issue])).toEqual([
+      ['2026-01-05', 'overDay'],
+      ['2026-01-05', 'overDay'],
+      ['2026-01-06', null],
+    ]);
+  });
+
+  test('reads folded and escaped lines, and its own export', () => {
+    const folded = calendar(['DTSTART:20260102T090000', 'DTEND:20260102T170000', 'SUMMARY:Front\\, cou', ' nter']);
+    expect(parseIcs(folded, 'America/Toronto')[0].summary).toBe('Front, counter');
+    expect(parseIcs(shiftsToIcs([job()], NOW), 'America/Toronto').map(s => [s.date, s.start, s.end])).toEqual([
+      ['2026-01-02', '09:00', '17:00'],
+      ['2026-01-09', '22:00', '06:00'],
+    ]);
+  });
+});
+
+describe('mergeIcsShifts', () => {
+  test('leaves out shifts with an issue', () => {
+    const shifts = [{ date: '2026-01-06', start: '09:00', end: '17:00', summary: '', issue: 'recurring' as const }];
+    expect(mergeIcsShifts(dayHours, shifts, 'America/Toronto')).toEqual(dayHours);
+  });
+
+  test('replaces each date\'s shifts and gives them the breaks', () => {
+    const shifts = [
+      { date: '2026-01-02', start: '10:00', end: '18:00', summary: '', issue: null },
+      { date: '2026-01-05', start: '09:00', end: '13:00', summary: '', issue: null },
+    ];
+    const merged = mergeIcsShifts(dayHours, shifts, 'America/Toronto', [{ minutes: 30, paid: false, start: null }]);
+    expect(merged.map(d => [d.date, d.hours])).toEqual([
+      ['2026-01-03', 4],
+      ['2026-01-09', 8],
+      ['2026-01-02', 7.5],
+      ['2026-01-05', 3.5],
+    ]);
+    expect(merged.find(d => d.date === '2026-01-02')!.shifts).toEqual([
+      { start: '10:00', end: '18:00', lunchMinutes: 0, breaks: [{ minutes: 30, paid: false, start: null }] },
+    ]);
+  });
+});
@@ -0,0 +1,243 @@
+/**
+ * iCalendar (RFC 5545) files for shifts: timed days out to a phone calendar,
+ * and a schedule's events back in as planned shifts.
+ *
+ * Events are written in UTC, computed from each job's own time zone, so they
+ * land at the right time whatever zone the phone is in and need no VTIMEZONE.
+ * On the way in, a UTC time or one with a TZID is moved to the job's time zone;
+ * a floating time, or a TZID this browser does not know (such as a Windows
+ * name), is taken as the job's own wall-clock time.
+ *
+ * An event ends at its DTEND, or else after its DURATION; the properties of
+ * a component inside it, such as a VALARM, are not the event's.
+ *
+ * Repeating events (RRULE, RDATE, or a changed instance of one) are not
+ * expanded: they are flagged, like a date over 24 hours, and left out of the
+ * import rather than landing on their first date only.
+ */
+
+import {
+  DayHours,
+  DetailedDay,
+  OvernightRule,
+  SHIFT_TIME_ZONE,
+  ShiftBreak,
+  WorkShift,
+  addDaysYmd,
+  endsNextDay,
+  getShifts,
+  isTimeZone,
+  round2,
+  shiftPaidHours,
+  shiftsHours,
+  utcToZonedTime,
+  zonedTimeToUtc,
+} from "./calc";
+import { TimesheetRow, mergeTimesheet } from "./timesheet";
+
+/** `days` are computed from `dayHours` with the same `overnightRule`, "start-date" when not given. */
+export type IcsJob = {
+  id: string;
+  name: string;
+  timeZone: string;
+  overnightRule?: OvernightRule;
+  dayHours: DayHours[];
+  days: DetailedDay[];
+};
+
+export type IcsIssue = "recurring" | "overDay";
+
+/** A timed event read from a calendar, in the job's wall-clock time; one with an issue is not imported. */
+export type IcsShift = { date: string; start: string; end: string; summary: string; issue: IcsIssue | null };
+
+/** "YYYYMMDDTHHMMSSZ" for an instant. */
+const icsUtc = (ms: number) => new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+const escapeText = (text: string) =>
+  text.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+
+/** UTF-8 length of one character. */
+const octets = (ch: string) => {
+  const code = ch.codePointAt(0) as number;
+  return code < 0x80 ? 1 : code < 0x800 ? 2 : code < 0x10000 ? 3 : 4;
+};
+
+/** Content lines are folded at 75 octets; a continuation starts with a space. */
+function fold(line: string): string {
+  const out: string[] = [];
+  let current = "";
+  let length = 0;
+  for (const ch of line) {
+    // the space opening a continuation counts toward its 75
+    if (length + octets(ch) > (out.length ? 74 : 75)) {
+      out.push(current);
+      current = "";
+      length = 0;
+    }
+    current += ch;
+    length += octets(ch);
+  }
+  out.push(current);
+  return out.join("\r\n ");
+}
+
+/**
+ * A shift's share of the gross earnings computed for the dates its hours are
+ * paid on, in proportion to its hours there. Extra earnings belong to no
+ * shift. Null when none of its dates has hours.
+ */
+function shiftEarnings(paid: { date: string; hours: number }[], days: Map<string, DetailedDay>): number | null {
+  let total: number | null = null;
+  for (const { date, hours } of paid) {
+    const day = days.get(date);
+    if (!day || day.hours <= 0) continue;
+    total = (total ?? 0) + (day.earnings - day.extraEarnings) * hours / day.hours;
+  }
+  return total == null ? null : round2(total);
+}
+
+/**
+ * A VEVENT for every timed shift of every job, with the job's name and the
+ * shift's estimated gross earnings. Days entered as plain hours have no times
+ * and are left out.
+ */
+export function shiftsToIcs(jobs: IcsJob[], now = new Date()): string {
+  const lines = ["BEGIN:VCALENDAR", "VERSION:2.0", "PRODID:-//Work Record Keeper//Shifts//EN", "CALSCALE:GREGORIAN"];
+  for (const job of jobs) {
+    const timeZone = job.timeZone || SHIFT_TIME_ZONE;
+    const days = new Map(job.days.map(d => [d.date, d]));
+    for (const entry of [...job.dayHours].sort((a, b) => a.date.localeCompare(b.date))) {
+      const shifts = getShifts(entry).filter(s => s.start && s.end);
+      const paidHours = shiftPaidHours(entry, job.overnightRule, timeZone);
+      shifts.forEach((shift, i) => {
+        const start = shift.start as string;
+        const end = shift.end as string;
+        const endDate = endsNextDay(start, end) ? addDaysYmd(entry.date, 1) : entry.date;
+        const estimate = shiftEarnings(paidHours[i], days);
+        const description = [job.name, ...(estimate != null ? [`Estimated earnings: $${estimate.toFixed(2)}`] : [])].join("\n");
+        lines.push(
+          "BEGIN:VEVENT",
+          `UID:${job.id}-${entry.date.replace(/-/g, "")}-${i + 1}@work-record-keeper`,
+          `DTSTAMP:${icsUtc(now.getTime())}`,
+          `DTSTART:${icsUtc(zonedTimeToUtc(entry.date, start, timeZone))}`,
+          `DTEND:${icsUtc(zonedTimeToUtc(endDate, end, timeZone))}`,
+          `SUMMARY:${escapeText(job.name)}`,
+          `DESCRIPTION:${escapeText(description)}`,
+          "END:VEVENT"
+        );
+      });
+    }
+  }
+  lines.push("END:VCALENDAR");
+  return lines.map(fold).join("\r\n") + "\r\n";
+}
+
+const unescapeText = (text: string) =>
+  text.replace(/\\([\\;,nN])/g, (_, ch: string) => (ch.toLowerCase() === "n" ? "\n" : ch));
+
+/** A DTSTART or DTEND value as a date and time in `timeZone`; null for an all-day date. */
+function readDateTime(params: string[], value: string, timeZone: string): { date: string; time: string } | null {
+  const m = value.match(/^(\d{4})(\d{2})(\d{2})T(\d{2})(\d{2})\d{0,2}(Z?)$/);
+  if (!m || params.some(p => p.toUpperCase() === "VALUE=DATE")) return null;
+  const [, y, mo, d, h, mi, utc] = m;
+  const date = `${y}-${mo}-${d}`;
+  const time = `${h}:${mi}`;
+  if (utc) return utcToZonedTime(Date.UTC(+y, +mo - 1, +d, +h, +mi), timeZone);
+  const tzid = params.find(p => /^TZID=/i.test(p))?.slice(5).replace(/^"|"$/g, "");
+  if (tzid && tzid !== timeZone && isTimeZone(tzid)) return utcToZonedTime(zonedTimeToUtc(date, time, tzid), timeZone);
+  return { date, time };
+}
+
+/** A DURATION value in milliseconds, such as "PT8H30M"; null for a negative or unreadable one. */
+function readDuration(value: string): number | null {
+  const m = value.match(/^\+?P(?:(\d+)W|(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?)$/);
+  if (!m) return null;
+  const [weeks, days, hours, minutes, seconds] = m.slice(1).map(n => Number(n || 0));
+  return ((((weeks * 7 + days) * 24 + hours) * 60 + minutes) * 60 + seconds) * 1000;
+}
+
+type IcsEvent = Record<string, { params: string[]; value: string }>;
+
+/** An event's end, from DTEND or else DTSTART plus DURATION. */
+function eventEnd(event: IcsEvent, start: { date: string; time: string }, timeZone: string) {
+  if (event.DTEND) return readDateTime(event.DTEND.params, event.DTEND.value, timeZone);
+  const duration = event.DURATION && readDuration(event.DURATION.value);
+  return duration == null ? null : utcToZonedTime(zonedTimeToUtc(start.date, start.time, timeZone) + duration, timeZone);
+}
+
+/** An event as a shift, or null when it is all-day, cancelled or not under 24 hours. */
+function eventShift(event: IcsEvent, timeZone: string): IcsShift | null {
+  const start = event.DTSTART && readDateTime(event.DTSTART.params, event.DTSTART.value, timeZone);
+  const end = start && eventEnd(event, start, timeZone);
+  if (!start || !end || event.STATUS?.value.toUpperCase() === "CANCELLED") return null;
+  const isShift = end.date === start.date
+    ? end.time > start.time
+    : end.date === addDaysYmd(start.date, 1) && endsNextDay(start.time, end.time);
+  if (!isShift) return null;
+  const recurring = ["RRULE", "RDATE", "RECURRENCE-ID"].some(name => event[name]);
+  return {
+    date: start.date, start: start.time, end: end.time, summary: unescapeText(event.SUMMARY?.value ?? ""),
+    issue: recurring ? "recurring" : null,
+  };
+}
+
+/**
+ * The timed events of a calendar as shifts in `timeZone`, in file order. The
+ * events of a date that adds up to more than 24 hours are flagged together.
+ */
+export function parseIcs(text: string, timeZone: string = SHIFT_TIME_ZONE): IcsShift[] {
+  // unfold continuation lines first
+  const lines = text.replace(/\r?\n[ \t]/g, "").split(/\r?\n/);
+  const shifts: IcsShift[] = [];
+  let event: IcsEvent | null = null;
+  // components inside the event, such as a VALARM, whose properties are not the event's
+  let nested = 0;
+  for (const line of lines) {
+    if (line === "BEGIN:VEVENT") {
+      event = {};
+      nested = 0;
+      continue;
+    }
+    if (line === "END:VEVENT" && event) {
+      const shift = eventShift(event, timeZone);
+      if (shift) shifts.push(shift);
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+    if (/^BEGIN:/i.test(line)) {
+      nested++;
+      continue;
+    }
+    if (/^END:/i.test(line)) {
+      nested = Math.max(0, nested - 1);
+      continue;
+    }
+    if (nested > 0) continue;
+    const colon = line.indexOf(":");
+    if (colon < 0) continue;
+    const [name, ...params] = line.slice(0, colon).split(";");
+    event[name.toUpperCase()] = { params, value: line.slice(colon + 1) };
+  }
+  const byDate = new Map<string, IcsShift[]>();
+  shifts.filter(s => !s.issue).forEach(s => byDate.set(s.date, [...(byDate.get(s.date) ?? []), s]));
+  byDate.forEach((dayShifts, date) => {
+    const hours = shiftsHours(date, dayShifts.map(s => ({ start: s.start, end: s.end, lunchMinutes: 0 })), timeZone);
+    if (hours == null) dayShifts.forEach(s => (s.issue = "overDay"));
+  });
+  return shifts;
+}
+
+/**
+ * `dayHours` with each calendar date's shifts replaced by the calendar's, the
+ * way a timesheet import replaces them. Each shift gets `breaks`, usually the
+ * job's break templates, since a schedule does not list them. Shifts with an
+ * issue are skipped.
+ */
+export function mergeIcsShifts(dayHours: DayHours[], shifts: IcsShift[], timeZone: string, breaks: ShiftBreak[] = []): DayHours[] {
+  const rows = shifts.filter(s => !s.issue).map((s, i): TimesheetRow => {
+    const shift: WorkShift = { start: s.start, end: s.end, lunchMinutes: 0, ...(breaks.length ? { breaks } : {}) };
+    return { row: i + 1, date: s.date, shift, hours: null, rawHours: null, breakMinutes: 0, issue: null };
+  });
+  return mergeTimesheet(dayHours, rows, timeZone);
+}
@@ -0,0 +1,68 @@
+import { PayDeduction, computeDetailedDays } from './calc';
+import { buildPayStatement, sumPay } from './payStatement';
+
+const deductions: PayDeduction[] = [
+  { id: 1, name: 'Pension', kind: 'percent', amount: 0.05, preTax: true },
+  { id: 2, name: 'Union dues', kind: 'fixed', amount: 10, preTax: false },
+];
+
+// bi-weekly from December 18, 2025: paid December 31, January 14 and January 28
+const days = computeDetailedDays({
+  dayHours: ['2025-12-22', '2026-01-05', '2026-01-06', '2026-01-19'].map(date => ({ date, hours: 8 })),
+  hourlyRate: 25,
+  startDate: '2025-12-18',
+  deductions,
+});
+
+describe('sumPay', () => {
+  test('earnings by type add up to the gross, and deductions to the net', () => {
+    const t = sumPay(days);
+    expect(t.regular + t.overtime + t.shiftPremium + t.holiday + t.vacation + t.extra).toBeCloseTo(t.gross, 2);
+    expect(t.gross - t.incomeTax - t.cpp - t.ei - t.qpip - t.preTaxDeductions - t.postTaxDeductions + t.reimbursement)
+      .toBeCloseTo(t.net, 2);
+    expect(t.regularHours + t.overtimeHours).toBe(t.hours);
+  });
+
+  test('overtime hours and pay are split out', () => {
+    const long = computeDetailedDays({
+      dayHours: [{ date: '2026-01-05', hours: 10 }],
+      hourlyRate: 20,
+      startDate: '2026-01-01',
+      overtime: { weeklyThreshold: null, dailyThreshold: 8, doubleTimeThreshold: null, overtimeMultiplier: 1.5, doubleTimeMultiplier: 2, averagingWeeks: 1 },
+    });
+    expect(sumPay(long)).toMatchObject({ regularHours: 8, overtimeHours: 2, regular: 160, overtime: 60 });
+  });
+});
+
+describe('buildPayStatement', () => {
+  test('covers the days paid on the date', () => {
+    const s = buildPayStatement(days, '2026-01-14', deductions)!;
+    // New Year's Day pays holiday pay with no hours
+    expect(s).toMatchObject({ payDate: '2026-01-14', taxYear: 2026, firstDay: '2026-01-01', lastDay: '2026-01-06' });
+    expect(s.current.hours).toBe(16);
+    expect(s.current.holiday).toBeGreaterThan(0);
+  });
+
+  test('the year to date runs to this pay date within its tax year', () => {
+    const jan14 = buildPayStatement(days, '2026-01-14', deductions)!;
+    const jan28 = buildPayStatement(days, '2026-01-28', deductions)!;
+    // December's cheque was paid in 2025
+    expect(jan14.ytd).toEqual(jan14.current);
+    expect(jan28.ytd.gross).toBeCloseTo(jan14.current.gross + jan28.current.gross, 2);
+    expect(jan28.ytd.cpp).toBeCloseTo(jan14.current.cpp + jan28.current.cpp, 2);
+    expect(buildPayStatement(days, '2025-12-31', deductions)!.taxYear).toBe(2025);
+  });
+
+  test('itemizes the job\'s deductions to the amounts taken', () => {
+    const s = buildPayStatement(days, '2026-01-14', deductions)!;
+    expect(s.deductions).toEqual([
+      { name: 'Pension', preTax: true, amount: s.current.preTaxDeductions },
+      { name: 'Union dues', preTax: false, amount: 10 },
+    ]);
+    expect(s.current.preTaxDeductions).toBeCloseTo(s.current.gross * 0.05, 2);
+  });
+
+  test('nothing is paid on a date outside the pay schedule', () => {
+    expect(buildPayStatement(days, '2026-01-15')).toBeNull();
+  });
+});
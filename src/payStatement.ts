@@ -0,0 +1,120 @@
+/**
+ * A pay statement for one pay date, for when the employer's own stub is
+ * missing: hours, earnings by type, every deduction and net pay, with the tax
+ * year to date beside them.
+ *
+ * Everything comes from the priced days, so the statement always agrees with
+ * the period summary. The year to date is the pay dates of the same tax year up
+ * to this one, the same grouping `computeDetailedDays` withholds CPP and EI on.
+ * Cash tips never pass through payroll and are left off.
+ */
+
+import { DetailedDay, PayDeduction, deductionAmount, round2 } from "./calc";
+
+export type PayTotals = {
+  regularHours: number;
+  overtimeHours: number;
+  hours: number;
+  regular: number;
+  overtime: number;
+  shiftPremium: number;
+  holiday: number;
+  vacation: number;
+  /** Tips through payroll, commission, bonus and retro pay. */
+  extra: number;
+  gross: number;
+  incomeTax: number;
+  cpp: number; // QPP for a Quebec job
+  ei: number;
+  qpip: number;
+  preTaxDeductions: number;
+  postTaxDeductions: number;
+  reimbursement: number;
+  net: number;
+};
+
+export type StatementDeduction = {
+  name: string;
+  preTax: boolean;
+  amount: number;
+};
+
+export type PayStatement = {
+  payDate: string;
+  taxYear: number;
+  /** First and last day with pay in the period. */
+  firstDay: string;
+  lastDay: string;
+  current: PayTotals;
+  /** The tax year up to and including this pay date. */
+  ytd: PayTotals;
+  /** The job's own deductions, itemized; they add up to the period's pre- and post-tax totals. */
+  deductions: StatementDeduction[];
+};
+
+/** Add up priced days as one cheque would show them. */
+export function sumPay(days: DetailedDay[]): PayTotals {
+  const sum = (f: (d: DetailedDay) => number) => round2(days.reduce((s, d) => s + f(d), 0));
+  const hours = sum(d => d.hours);
+  const overtimeHours = sum(d => d.overtimeHours);
+  const overtime = sum(d => d.overtimeEarnings);
+  const shiftPremium = sum(d => d.shiftPremium);
+  const holiday = sum(d => d.holidayPay);
+  const vacation = sum(d => d.vacationPay);
+  const extra = sum(d => d.extraEarnings - d.cashTips);
+  const gross = sum(d => d.earnings - d.cashTips);
+  return {
+    regularHours: round2(hours - overtimeHours),
+    overtimeHours,
+    hours,
+    regular: round2(gross - overtime - shiftPremium - holiday - vacation - extra),
+    overtime,
+    shiftPremium,
+    holiday,
+    vacation,
+    extra,
+    gross,
+    incomeTax: sum(d => d.incomeTax),
+    cpp: sum(d => d.cpp),
+    ei: sum(d => d.employeeInsurance),
+    qpip: sum(d => d.qpip),
+    preTaxDeductions: sum(d => d.preTaxDeductions),
+    postTaxDeductions: sum(d => d.postTaxDeductions),
+    reimbursement: sum(d => d.reimbursement),
+    net: sum(d => d.afterTax - d.cashTips),
+  };
+}
+
+/**
+ * Split the period's deduction totals back into the job's deductions. Each
+ * group is scaled to what was actually taken, which differs from the plain
+ * amounts only when pre-tax deductions were capped at the period's pay.
+ */
+function itemize(deductions: PayDeduction[], current: PayTotals): StatementDeduction[] {
+  const lines = deductions.map(d => ({ name: d.name, preTax: d.preTax, amount: deductionAmount(d, current.gross) }));
+  for (const preTax of [true, false]) {
+    const group = lines.filter(l => l.preTax === preTax);
+    const planned = group.reduce((s, l) => s + l.amount, 0);
+    const taken = preTax ? current.preTaxDeductions : current.postTaxDeductions;
+    group.forEach(l => { l.amount = planned > 0 ? round2((l.amount * taken) / planned) : 0; });
+  }
+  return lines.filter(l => l.amount > 0);
+}
+
+/** The statement for `payDate`, or null when nothing is paid on it. */
+export function buildPayStatement(days: DetailedDay[], payDate: string, deductions: PayDeduction[] = []): PayStatement | null {
+  const periodDays = days.filter(d => d.payDate === payDate);
+  if (periodDays.length === 0) return null;
+  const { taxYear } = periodDays[0];
+  const current = sumPay(periodDays);
+  const dates = periodDays.map(d => d.date).sort();
+  return {
+    payDate,
+    taxYear,
+    firstDay: dates[0],
+    lastDay: dates[dates.length - 1],
+    current,
+    ytd: sumPay(days.filter(d => d.taxYear === taxYear && d.payDate <= payDate)),
+    deductions: itemize(deductions, current),
+  };
+}
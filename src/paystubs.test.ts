@@ -0,0 +1,66 @@
+import { DayHours, PaystubRecord, computeDetailedDays } from './calc';
+import { expectedPaystubs, reconcilePaystubs } from './paystubs';
+
+/** One job at $25 an hour, paid bi-weekly from January 1, 2026: on January 14 and 28. */
+const paid = (dayHours: DayHours[]) => computeDetailedDays({ dayHours, hourlyRate: 25, startDate: '2026-01-01' });
+
+const days = paid(['2026-01-05', '2026-01-06', '2026-01-19'].map(date => ({ date, hours: 8 })));
+
+const stub = (payDate: string, over: Partial<PaystubRecord> = {}): PaystubRecord =>
+  ({ payDate, gross: null, cpp: null, ei: null, incomeTax: null, net: null, ...over });
+
+describe('expectedPaystubs', () => {
+  test('adds up each pay date\'s days', () => {
+    const expected = expectedPaystubs(days);
+    expect(Array.from(expected.keys())).toEqual(['2026-01-14', '2026-01-28']);
+    const first = days.filter(d => d.payDate === '2026-01-14');
+    expect(expected.get('2026-01-14')!.gross).toBeCloseTo(first.reduce((s, d) => s + d.earnings, 0), 2);
+    expect(expected.get('2026-01-14')!.net).toBeCloseTo(first.reduce((s, d) => s + d.afterTax, 0), 2);
+  });
+
+  test('leaves cash tips off the cheque', () => {
+    const tipped = paid([{ date: '2026-01-05', hours: 8, extras: [{ id: 1, type: 'tips-cash', amount: 40 }] }]);
+    const plain = paid([{ date: '2026-01-05', hours: 8 }]);
+    expect(expectedPaystubs(tipped).get('2026-01-14')!.gross).toBe(expectedPaystubs(plain).get('2026-01-14')!.gross);
+  });
+});
+
+describe('reconcilePaystubs', () => {
+  const expected = expectedPaystubs(days);
+  const first = expected.get('2026-01-14')!;
+  const second = expected.get('2026-01-28')!;
+
+  test('a stub that matches the estimate is not flagged', () => {
+    const [check] = reconcilePaystubs(days, [stub('2026-01-14', { ...first })]);
+    expect(check.flagged).toEqual([]);
+    expect(check.underpaid).toBe(0);
+  });
+
+  test('cents of rounding are not flagged', () => {
+    const [check] = reconcilePaystubs(days, [stub('2026-01-14', { incomeTax: first.incomeTax + 0.03 })]);
+    expect(check.flagged).toEqual([]);
+  });
+
+  test('flags each amount that is off and only compares what was entered', () => {
+    const [check] = reconcilePaystubs(days, [stub('2026-01-14', { gross: first.gross, incomeTax: first.incomeTax + 12 })]);
+    expect(check.flagged).toEqual(['incomeTax']);
+    expect(check.diff.incomeTax).toBe(12);
+    expect(check.diff.cpp).toBeNull();
+  });
+
+  test('keeps a running total of short cheques; an overpaid one does not offset it', () => {
+    const checks = reconcilePaystubs(days, [
+      stub('2026-01-28', { gross: second.gross - 50 }),
+      stub('2026-01-14', { gross: first.gross - 20 }),
+      stub('2026-02-11', { gross: 100 }),
+    ]);
+    expect(checks.map(c => c.payDate)).toEqual(['2026-01-14', '2026-01-28', '2026-02-11']);
+    expect(checks.map(c => c.underpaid)).toEqual([20, 50, 0]);
+    expect(checks.map(c => c.runningUnderpaid)).toEqual([20, 70, 70]);
+  });
+
+  test('falls back to net when the stub has no gross', () => {
+    const [check] = reconcilePaystubs(days, [stub('2026-01-14', { net: first.net - 15 })]);
+    expect(check.underpaid).toBe(15);
+  });
+});
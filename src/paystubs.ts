@@ -0,0 +1,72 @@
+/**
+ * Paystub reconciliation: what each cheque actually showed, set beside what
+ * the calculator expected for the same pay date, so a short cheque or an
+ * over-deduction stands out and the shortfall can be documented.
+ *
+ * The estimate follows this calculator's rules rather than the employer's
+ * payroll software, so cents of rounding are normal; only differences past
+ * PAYSTUB_TOLERANCE are flagged.
+ */
+
+import { DetailedDay, PaystubRecord, round2 } from "./calc";
+
+export const PAYSTUB_FIELDS = ["gross", "cpp", "ei", "incomeTax", "net"] as const;
+export type PaystubField = typeof PAYSTUB_FIELDS[number];
+
+export const PAYSTUB_TOLERANCE = 0.05;
+
+export type PaystubAmounts = Record<PaystubField, number>;
+
+export type PaystubReconciliation = {
+  payDate: string;
+  expected: PaystubAmounts;
+  actual: PaystubRecord;
+  /** Actual less expected, for each amount entered on the stub. */
+  diff: Record<PaystubField, number | null>;
+  /** Amounts off by more than the tolerance. */
+  flagged: PaystubField[];
+  /** Pay short on this cheque: by gross when it was entered, else by net. Never negative. */
+  underpaid: number;
+  /** Underpayments up to and including this cheque; an overpaid cheque does not offset them. */
+  runningUnderpaid: number;
+};
+
+const noAmounts = (): PaystubAmounts => ({ gross: 0, cpp: 0, ei: 0, incomeTax: 0, net: 0 });
+
+/** What each pay date's cheque should show, from one job's priced days. */
+export function expectedPaystubs(days: DetailedDay[]): Map<string, PaystubAmounts> {
+  const out = new Map<string, PaystubAmounts>();
+  for (const d of days) {
+    const cur = out.get(d.payDate) ?? noAmounts();
+    // cash tips never pass through payroll
+    cur.gross += d.earnings - d.cashTips;
+    cur.cpp += d.cpp;
+    cur.ei += d.employeeInsurance;
+    cur.incomeTax += d.incomeTax;
+    cur.net += d.afterTax - d.cashTips;
+    out.set(d.payDate, cur);
+  }
+  out.forEach(amounts => PAYSTUB_FIELDS.forEach(f => { amounts[f] = round2(amounts[f]); }));
+  return out;
+}
+
+/** Every recorded stub against its estimate, oldest first. */
+export function reconcilePaystubs(days: DetailedDay[], stubs: PaystubRecord[]): PaystubReconciliation[] {
+  const expectedByDate = expectedPaystubs(days);
+  let running = 0;
+  return [...stubs]
+    .sort((a, b) => a.payDate.localeCompare(b.payDate))
+    .map(actual => {
+      const expected = expectedByDate.get(actual.payDate) ?? noAmounts();
+      const diff = {} as Record<PaystubField, number | null>;
+      PAYSTUB_FIELDS.forEach(f => {
+        const value = actual[f];
+        diff[f] = value == null ? null : round2(value - expected[f]);
+      });
+      const flagged = PAYSTUB_FIELDS.filter(f => diff[f] != null && Math.abs(diff[f]!) > PAYSTUB_TOLERANCE);
+      const short = diff.gross ?? diff.net ?? 0;
+      const underpaid = short < -PAYSTUB_TOLERANCE ? round2(-short) : 0;
+      running = round2(running + underpaid);
+      return { payDate: actual.payDate, expected, actual, diff, flagged, underpaid, runningUnderpaid: running };
+    });
+}
@@ -8,8 +8,24 @@ import {
   getInitialJobs,
   jobStorageKey,
   loadJobData,
+  normalizeOvertimePolicy,
+  normalizePaystubs,
+  normalizePeriodAnchors,
+  normalizeRateHistory,
+  normalizeBreakTemplates,
+  normalizeDayHours,
+  normalizeDeductions,
+  normalizeExtraEarnings,
+  normalizeImportedTaxYears,
+  normalizeProfile,
+  normalizeShiftPremiums,
+  normalizeTaxClaims,
+  normalizeVacationPayouts,
+  normalizeVacationPolicy,
   safeParse,
+  saveJobData,
 } from './storage';
+import { TAX_YEARS } from './tax';
 
 beforeEach(() => localStorage.clear());
 
@@ -109,7 +125,8 @@ describe('payment cycle and roster', () => {
     expect(isPaymentCycle('biweekly')).toBe(true);
     expect(isPaymentCycle('semi-monthly')).toBe(true);
     expect(isPaymentCycle('monthly')).toBe(true);
-    expect(isPaymentCycle('weekly')).toBe(false);
+    expect(isPaymentCycle('weekly')).toBe(true);
+    expect(isPaymentCycle('fortnightly')).toBe(false);
     expect(isPaymentCycle(null)).toBe(false);
   });
 
@@ -129,6 +146,361 @@ describe('payment cycle and roster', () => {
   });
 });
 
+describe('overtime policy', () => {
+  test('a job without a stored policy gets the ESA default', () => {
+    expect(loadJobData('a').overtime).toMatchObject({ weeklyThreshold: 44, dailyThreshold: null, averagingWeeks: 1 });
+  });
+
+  test('each job keeps its own policy', () => {
+    const data = loadJobData('a');
+    saveJobData('a', { ...data, overtime: { ...data.overtime, dailyThreshold: 8, doubleTimeThreshold: 12 } });
+    expect(loadJobData('a').overtime).toMatchObject({ dailyThreshold: 8, doubleTimeThreshold: 12 });
+    expect(loadJobData('b').overtime.dailyThreshold).toBeNull();
+  });
+
+  test('bad fields fall back one at a time', () => {
+    const policy = normalizeOvertimePolicy({ weeklyThreshold: null, dailyThreshold: -3, overtimeMultiplier: 0.5, averagingWeeks: 9 });
+    expect(policy).toEqual({
+      weeklyThreshold: null,
+      dailyThreshold: null,
+      doubleTimeThreshold: null,
+      overtimeMultiplier: 1.5,
+      doubleTimeMultiplier: 2,
+      averagingWeeks: 4,
+    });
+  });
+
+  test('clearing a job drops its policy too', () => {
+    localStorage.setItem(jobStorageKey('a', 'overtime'), JSON.stringify({ dailyThreshold: 8 }));
+    clearJobStorage('a');
+    expect(localStorage.getItem(jobStorageKey('a', 'overtime'))).toBeNull();
+  });
+});
+
+describe('vacation pay', () => {
+  test('a job without a stored policy pays 4% on every cheque, 6% after five years', () => {
+    expect(loadJobData('a').vacation).toEqual({ rate: 0.04, mode: 'per-cheque', increasedRate: 0.06, increaseAfterYears: 5 });
+    expect(loadJobData('a').vacationPayouts).toEqual([]);
+  });
+
+  test('each job keeps its own policy and payouts', () => {
+    const data = loadJobData('a');
+    saveJobData('a', {
+      ...data,
+      vacation: { ...data.vacation, mode: 'accrue' },
+      vacationPayouts: [{ id: 1, date: '2026-07-01', amount: null }],
+    });
+    expect(loadJobData('a').vacation.mode).toBe('accrue');
+    expect(loadJobData('a').vacationPayouts).toEqual([{ id: 1, date: '2026-07-01', amount: null }]);
+    expect(loadJobData('b').vacation.mode).toBe('per-cheque');
+  });
+
+  test('bad fields fall back one at a time', () => {
+    expect(normalizeVacationPolicy({ rate: 4, mode: 'weekly', increasedRate: null, increaseAfterYears: 0 })).toEqual({
+      rate: 0.04, mode: 'per-cheque', increasedRate: null, increaseAfterYears: 5,
+    });
+  });
+
+  test('payouts need a date; a bad amount means the whole bank', () => {
+    expect(normalizeVacationPayouts([
+      { id: 1, date: '2026-07-01', amount: 'lots' },
+      { id: 2, date: 'July', amount: 100 },
+      { id: 3, date: '2026-08-01', amount: 100 },
+    ])).toEqual([
+      { id: 1, date: '2026-07-01', amount: null },
+      { id: 3, date: '2026-08-01', amount: 100 },
+    ]);
+    expect(normalizeVacationPayouts('nope')).toEqual([]);
+  });
+});
+
+describe('province', () => {
+  test('a job without a stored province is in Ontario', () => {
+    expect(loadJobData('a').province).toBe('ON');
+  });
+
+  test('each job keeps its own province; unknown codes fall back', () => {
+    saveJobData('a', { ...loadJobData('a'), province: 'BC' });
+    localStorage.setItem(jobStorageKey('b', 'province'), 'XX');
+    expect(loadJobData('a').province).toBe('BC');
+    expect(loadJobData('b').province).toBe('ON');
+  });
+});
+
+describe('time zone', () => {
+  test('a job without a stored zone is on Toronto time', () => {
+    expect(loadJobData('a').timeZone).toBe('America/Toronto');
+  });
+
+  test('each job keeps its own zone; unknown names fall back', () => {
+    saveJobData('a', { ...loadJobData('a'), timeZone: 'America/Vancouver' });
+    localStorage.setItem(jobStorageKey('b', 'timeZone'), 'Mars/Olympus');
+    expect(loadJobData('a').timeZone).toBe('America/Vancouver');
+    expect(loadJobData('b').timeZone).toBe('America/Toronto');
+  });
+});
+
+describe('TD1 claims', () => {
+  test('a job without stored claims uses the basic personal amounts', () => {
+    expect(loadJobData('a').taxClaims).toEqual({ federal: null, provincial: null, additionalTax: 0 });
+  });
+
+  test('each job keeps its own claims', () => {
+    saveJobData('a', { ...loadJobData('a'), taxClaims: { federal: 0, provincial: 0, additionalTax: 20 } });
+    expect(loadJobData('a').taxClaims).toEqual({ federal: 0, provincial: 0, additionalTax: 20 });
+    expect(loadJobData('b').taxClaims.federal).toBeNull();
+  });
+
+  test('bad claims fall back to the BPA and bad extra tax to none', () => {
+    expect(normalizeTaxClaims({ federal: -1, provincial: 'x', additionalTax: -5 }))
+      .toEqual({ federal: null, provincial: null, additionalTax: 0 });
+  });
+});
+
+describe('deductions', () => {
+  test('each job keeps its own deductions', () => {
+    const rrsp = { id: 1, name: 'Group RRSP', kind: 'percent' as const, amount: 0.05, preTax: true };
+    saveJobData('a', { ...loadJobData('a'), deductions: [rrsp] });
+    expect(loadJobData('a').deductions).toEqual([rrsp]);
+    expect(loadJobData('b').deductions).toEqual([]);
+  });
+
+  test('drops deductions without a positive amount or with a percentage of 100 or more', () => {
+    expect(normalizeDeductions([
+      { id: 1, name: 'Dues', kind: 'fixed', amount: 12.5, preTax: true },
+      { id: 2, name: 'Parking', amount: '40' },
+      { id: 3, name: 'Zero', kind: 'fixed', amount: 0 },
+      { id: 4, name: 'All of it', kind: 'percent', amount: 1 },
+      null,
+    ])).toEqual([
+      { id: 1, name: 'Dues', kind: 'fixed', amount: 12.5, preTax: true },
+      { id: 2, name: 'Parking', kind: 'fixed', amount: 40, preTax: false },
+    ]);
+    expect(normalizeDeductions('nope')).toEqual([]);
+  });
+});
+
+describe('shift premiums', () => {
+  test('each job keeps its own premiums', () => {
+    const nights = { id: 1, name: 'Nights', kind: 'fixed' as const, amount: 2, days: [], start: '23:00', end: '07:00' };
+    saveJobData('a', { ...loadJobData('a'), shiftPremiums: [nights] });
+    expect(loadJobData('a').shiftPremiums).toEqual([nights]);
+    expect(loadJobData('b').shiftPremiums).toEqual([]);
+  });
+
+  test('a half-set or bad window is the whole day, and bad days are dropped', () => {
+    expect(normalizeShiftPremiums([
+      { id: 1, kind: 'percent', amount: 0.1, days: [0, 0, 7, '6'], start: '25:00', end: '07:00' },
+      { id: 2, kind: 'fixed', amount: 0 },
+    ])).toEqual([{ id: 1, name: '', kind: 'percent', amount: 0.1, days: [0, 6], start: null, end: null }]);
+  });
+});
+
+describe('day records', () => {
+  test('a stored single shift is loaded as a list of one, with its break', () => {
+    localStorage.setItem(jobStorageKey('a', 'dayHours'), JSON.stringify([
+      { date: '2026-01-05', start: '09:00', end: '17:00', lunchMinutes: 45, hours: 7.25 },
+      { date: '2026-01-06', hours: 7.5, lunchMinutes: 30, originalHours: 8 },
+    ]));
+    expect(loadJobData('a').dayHours).toEqual([
+      { date: '2026-01-05', shifts: [{ start: '09:00', end: '17:00', lunchMinutes: 45 }], hours: 7.25 },
+      { date: '2026-01-06', hours: 7.5, lunchMinutes: 30, originalHours: 8 },
+    ]);
+  });
+
+  test('a legacy shift without a break setting keeps the default lunch', () => {
+    expect(normalizeDayHours([{ date: '2026-01-05', start: '09:00', end: '17:00', hours: 7.5 }]))
+      .toEqual([{ date: '2026-01-05', shifts: [{ start: '09:00', end: '17:00', lunchMinutes: 30 }], hours: 7.5 }]);
+  });
+
+  test('bad times are cleared and records without a date dropped', () => {
+    expect(normalizeDayHours([
+      { date: '2026-01-05', shifts: [{ start: '10:00', end: '14:00' }, { start: '25:00', end: '22:00', lunchMinutes: 500 }] },
+      { hours: 8 },
+    ])).toEqual([
+      { date: '2026-01-05', shifts: [{ start: '10:00', end: '14:00', lunchMinutes: null }, { start: null, end: '22:00', lunchMinutes: 180 }] },
+    ]);
+    expect(normalizeDayHours('nope')).toEqual([]);
+  });
+
+  test('a stored day whose shifts are not a list keeps its hours instead of failing the load', () => {
+    localStorage.setItem(jobStorageKey('a', 'dayHours'), JSON.stringify([
+      { date: '2026-01-05', shifts: {}, hours: 8 },
+      { date: '2026-01-06', shifts: 'x', start: '09:00', end: '13:00', hours: 3.5 },
+    ]));
+    expect(loadJobData('a').dayHours).toEqual([
+      { date: '2026-01-05', hours: 8 },
+      { date: '2026-01-06', shifts: [{ start: '09:00', end: '13:00', lunchMinutes: 30 }], hours: 3.5 },
+    ]);
+  });
+});
+
+describe('breaks', () => {
+  test('each job keeps its own break templates', () => {
+    const coffee = { id: 1, name: 'Coffee', minutes: 15, paid: true, start: '10:30' };
+    saveJobData('a', { ...loadJobData('a'), breakTemplates: [coffee] });
+    expect(loadJobData('a').breakTemplates).toEqual([coffee]);
+    expect(loadJobData('b').breakTemplates).toEqual([]);
+  });
+
+  test('breaks without a length are dropped, and only `true` is paid', () => {
+    expect(normalizeBreakTemplates([
+      { id: 1, name: 'Meal', minutes: '30', paid: 'yes', start: '1pm' },
+      { id: 2, minutes: 0 },
+    ])).toEqual([{ id: 1, name: 'Meal', minutes: 30, paid: false, start: null }]);
+    expect(normalizeDayHours([{
+      date: '2026-01-05',
+      shifts: [{ start: '09:00', end: '17:00', lunchMinutes: 0, breaks: [{ minutes: 15, paid: true }, { minutes: -5 }] }],
+    }])[0].shifts).toEqual([
+      { start: '09:00', end: '17:00', lunchMinutes: 0, breaks: [{ minutes: 15, paid: true, start: null }] },
+    ]);
+  });
+});
+
+describe('rate history', () => {
+  test('a job from before rate histories gets its one rate from the start date', () => {
+    localStorage.setItem(jobStorageKey('a', 'hourlyRate'), '21');
+    localStorage.setItem(jobStorageKey('a', 'startDate'), '2025-06-01');
+    const data = loadJobData('a');
+    expect(data.rateHistory).toEqual([{ date: '2025-06-01', rate: 21 }]);
+    expect(data.hourlyRate).toBe(21);
+  });
+
+  test('the current rate is the latest change', () => {
+    const history = [{ date: '2026-01-01', rate: 20 }, { date: '2026-03-01', rate: 22 }];
+    saveJobData('a', { ...loadJobData('a'), rateHistory: history, hourlyRate: 22 });
+    expect(loadJobData('a').rateHistory).toEqual(history);
+    expect(loadJobData('a').hourlyRate).toBe(22);
+  });
+
+  test('sorts by date, keeps one rate per date and drops bad entries', () => {
+    expect(normalizeRateHistory([
+      { date: '2026-03-01', rate: '22' },
+      { date: '2026-01-01', rate: 20 },
+      { date: '2026-03-01', rate: 23 },
+      { date: 'March', rate: 30 },
+      { date: '2026-04-01', rate: -1 },
+    ])).toEqual([{ date: '2026-01-01', rate: 20 }, { date: '2026-03-01', rate: 23 }]);
+  });
+});
+
+describe('overnight rule', () => {
+  test('a job without a stored rule counts overnight hours on the start date', () => {
+    expect(loadJobData('a').overnightRule).toBe('start-date');
+  });
+
+  test('each job keeps its own rule; unknown values fall back', () => {
+    saveJobData('a', { ...loadJobData('a'), overnightRule: 'split' });
+    localStorage.setItem(jobStorageKey('b', 'overnightRule'), 'both');
+    expect(loadJobData('a').overnightRule).toBe('split');
+    expect(loadJobData('b').overnightRule).toBe('start-date');
+  });
+});
+
+describe('period anchors', () => {
+  test('a job without stored anchors uses calendar periods paid on the last day', () => {
+    expect(loadJobData('a').periodAnchors).toEqual({ startDay: 1, secondStartDay: 16, payDateOffsetDays: 0 });
+  });
+
+  test('each job keeps its own anchors', () => {
+    saveJobData('a', { ...loadJobData('a'), periodAnchors: { startDay: 10, secondStartDay: 25, payDateOffsetDays: 7 } });
+    expect(loadJobData('a').periodAnchors).toEqual({ startDay: 10, secondStartDay: 25, payDateOffsetDays: 7 });
+    expect(loadJobData('b').periodAnchors.startDay).toBe(1);
+  });
+
+  test('days outside 1-28 and bad offsets fall back', () => {
+    expect(normalizePeriodAnchors({ startDay: 31, secondStartDay: 0, payDateOffsetDays: -3 }))
+      .toEqual({ startDay: 1, secondStartDay: 16, payDateOffsetDays: 0 });
+    expect(normalizePeriodAnchors({ startDay: 10.5, payDateOffsetDays: 45 }).payDateOffsetDays).toBe(0);
+  });
+
+  test('a second day equal to the first moves half a month on', () => {
+    expect(normalizePeriodAnchors({ startDay: 10, secondStartDay: 10 }).secondStartDay).toBe(25);
+    expect(normalizePeriodAnchors({ startDay: 20 }).secondStartDay).toBe(7);
+  });
+});
+
+describe('paystubs', () => {
+  test('each job keeps its own stubs', () => {
+    const stub = { payDate: '2026-01-14', gross: 500, cpp: 25.1, ei: 8.15, incomeTax: 40, net: 426.75 };
+    saveJobData('a', { ...loadJobData('a'), paystubs: [stub] });
+    expect(loadJobData('a').paystubs).toEqual([stub]);
+    expect(loadJobData('b').paystubs).toEqual([]);
+  });
+
+  test('blank and negative amounts stay blank; one stub per pay date, sorted', () => {
+    expect(normalizePaystubs([
+      { payDate: '2026-01-28', gross: '', net: -3 },
+      { payDate: 'soon', gross: 100 },
+      { payDate: '2026-01-14', gross: 100 },
+      { payDate: '2026-01-28', gross: 200 },
+    ])).toEqual([
+      { payDate: '2026-01-14', gross: 100, cpp: null, ei: null, incomeTax: null, net: null },
+      { payDate: '2026-01-28', gross: 200, cpp: null, ei: null, incomeTax: null, net: null },
+    ]);
+  });
+});
+
+describe('extra earnings', () => {
+  test('keeps known types with a positive amount', () => {
+    expect(normalizeExtraEarnings([
+      { id: 1, type: 'bonus', amount: '250' },
+      { id: 2, type: 'gift', amount: 10 },
+      { id: 3, type: 'tips-cash', amount: -5 },
+    ])).toEqual([{ id: 1, type: 'bonus', amount: 250 }]);
+  });
+
+  test('a stored day drops bad extra lines and holiday choices', () => {
+    localStorage.setItem(jobStorageKey('a', 'dayHours'), JSON.stringify([
+      {
+        date: '2026-02-16',
+        hours: 8,
+        holidayOption: 'double',
+        substituteDate: 'next week',
+        extras: [{ id: 1, type: 'bonus', amount: 100 }, { id: 2, type: 'gift', amount: 50 }, { id: 3, type: 'tips-cash', amount: 'lots' }],
+      },
+      { date: '2026-04-03', hours: 8, holidayOption: 'substitute', substituteDate: '2026-04-10' },
+    ]));
+    expect(loadJobData('a').dayHours).toEqual([
+      { date: '2026-02-16', hours: 8, extras: [{ id: 1, type: 'bonus', amount: 100 }] },
+      { date: '2026-04-03', hours: 8, holidayOption: 'substitute', substituteDate: '2026-04-10' },
+    ]);
+  });
+});
+
+describe('imported tax tables', () => {
+  test('survive a round trip through JSON; broken years are dropped and the last of a year wins', () => {
+    const y2027 = { ...TAX_YEARS[2026], year: 2027 };
+    const revised = { ...y2027, ei: { rate: 0.017, mie: 70000 } };
+    const stored = JSON.parse(JSON.stringify([y2027, { year: 2028 }, revised]));
+    expect(normalizeImportedTaxYears(stored)).toEqual([revised]);
+    expect(normalizeImportedTaxYears(JSON.parse(JSON.stringify([y2027])))).toEqual([y2027]);
+    expect(normalizeImportedTaxYears({ year: 2027 })).toEqual([]);
+  });
+});
+
+describe('CPP age', () => {
+  test('a CPT30 election is kept per job', () => {
+    expect(loadJobData('a').cpt30).toBe(false);
+    saveJobData('a', { ...loadJobData('a'), cpt30: true });
+    expect(loadJobData('a').cpt30).toBe(true);
+    expect(loadJobData('b').cpt30).toBe(false);
+  });
+
+  test('a birth date must be a real day', () => {
+    expect(normalizeProfile({ birthDate: '2008-06-15', province: 'ON' }).birthDate).toBe('2008-06-15');
+    expect(normalizeProfile({ birthDate: '2008-02-30' }).birthDate).toBeNull();
+    expect(normalizeProfile({ birthDate: '2008-13-45' }).birthDate).toBeNull();
+    expect(normalizeProfile(null)).toEqual({ birthDate: null, province: 'ON' });
+  });
+
+  test('a profile saved without a province of residence takes the fallback', () => {
+    expect(normalizeProfile({ birthDate: null, province: 'AB' }, 'MB').province).toBe('AB');
+    expect(normalizeProfile({ birthDate: null }, 'MB').province).toBe('MB');
+    expect(normalizeProfile({ province: 'XX' }).province).toBe('ON');
+  });
+});
+
 describe('safeSetItem', () => {
   test('reports success on a normal write', () => {
     expect(safeSetItem('w2b_probe', '1')).toBe(true);
@@ -1,22 +1,58 @@
 import {
+  BreakTemplate,
+  DEFAULT_OVERNIGHT_RULE,
+  DEFAULT_OVERTIME_POLICY,
+  DEFAULT_PERIOD_ANCHORS,
+  DEFAULT_PROFILE,
+  DEFAULT_VACATION_POLICY,
   DayHours,
+  EARNING_TYPES,
+  ExtraEarning,
   Item,
   JobMeta,
+  MAX_ANCHOR_DAY,
+  MAX_AVERAGING_WEEKS,
+  MAX_PAY_DATE_OFFSET_DAYS,
+  NormalizedJobData,
+  OvernightRule,
+  OvertimePolicy,
+  PayDeduction,
   PaymentCycle,
+  PaystubRecord,
+  PeriodAnchors,
+  Profile,
+  RateChange,
+  SHIFT_TIME_ZONE,
   RosterData,
+  ShiftBreak,
+  ShiftPremium,
+  VacationPayout,
+  VacationPolicy,
+  WorkShift,
+  clampLunchMinutes,
   defaultItems,
+  getShifts,
   getTorontoToday,
+  isTimeZone,
+  latestRate,
   ymd,
 } from "./calc";
+import { DEFAULT_TAX_CLAIMS, ProvinceCode, TaxClaims, TaxYearRates, isProvinceCode } from "./tax";
+import { readTaxYearRates } from "./taxTables";
 
 export const DEFAULT_JOB_ID = "default";
 export const DEFAULT_JOB_NAME = "Main Job";
 export const DEFAULT_HOURLY_RATE = 17.6;
 export const DEFAULT_PAY_CYCLE: PaymentCycle = "biweekly";
+export const DEFAULT_PROVINCE: ProvinceCode = "ON";
 export const JOBS_STORAGE_KEY = "w2b_jobs";
 export const ACTIVE_JOB_STORAGE_KEY = "w2b_activeJob";
 export const DARK_MODE_STORAGE_KEY = "w2b_dark";
 export const COMBINE_JOBS_STORAGE_KEY = "w2b_combineJobs";
+/** Imported tax tables, shared by every job. */
+export const TAX_TABLES_STORAGE_KEY = "w2b_taxTables";
+/** The profile, shared by every job. */
+export const PROFILE_STORAGE_KEY = "w2b_profile";
 
 export const LEGACY_STORAGE_KEYS = {
   items: "w2b_items",
@@ -28,7 +64,22 @@ export const LEGACY_STORAGE_KEYS = {
   roster: "w2b_roster",
 } as const;
 
-export type JobStorageKey = keyof typeof LEGACY_STORAGE_KEYS;
+/** Per-job settings added after multi-job support; these never had a legacy key. */
+export const JOB_ONLY_STORAGE_KEYS = [
+  "overtime", "vacation", "vacationPayouts", "province", "taxClaims", "deductions", "shiftPremiums",
+  "overnightRule", "breakTemplates", "rateHistory", "periodAnchors", "paystubs", "timeZone",
+  "cpt30",
+] as const;
+
+type LegacyStorageKey = keyof typeof LEGACY_STORAGE_KEYS;
+export type JobStorageKey = LegacyStorageKey | typeof JOB_ONLY_STORAGE_KEYS[number];
+
+const ALL_JOB_STORAGE_KEYS: JobStorageKey[] = [
+  ...(Object.keys(LEGACY_STORAGE_KEYS) as LegacyStorageKey[]),
+  ...JOB_ONLY_STORAGE_KEYS,
+];
+
+const hasLegacyKey = (key: JobStorageKey): key is LegacyStorageKey => key in LEGACY_STORAGE_KEYS;
 
 export const jobStorageKey = (jobId: string, key: JobStorageKey) => `w2b_job_${jobId}_${key}`;
 
@@ -53,18 +104,316 @@ export const safeSetItem = (key: string, value: string) => {
 };
 
 export const isPaymentCycle = (value: unknown): value is PaymentCycle =>
-  value === "biweekly" || value === "semi-monthly" || value === "monthly";
+  value === "weekly" || value === "biweekly" || value === "semi-monthly" || value === "monthly";
+
+export const isOvernightRule = (value: unknown): value is OvernightRule =>
+  value === "start-date" || value === "split";
 
 export const cloneDefaultItems = () => defaultItems.map(item => ({ ...item }));
 
-export const createDefaultJobData = () => ({
+const optionalAmount = (value: unknown, fallback: number | null) => {
+  if (value === null) return null;
+  if (value === undefined || value === "") return fallback;
+  const n = Number(value);
+  return Number.isFinite(n) && n >= 0 ? n : fallback;
+};
+
+const multiplier = (value: unknown, fallback: number) => {
+  const n = Number(value);
+  return value != null && Number.isFinite(n) && n >= 1 ? n : fallback;
+};
+
+/** Anything missing or out of range falls back to the ESA default, field by field. */
+export const normalizeOvertimePolicy = (raw: unknown): OvertimePolicy => {
+  const d = DEFAULT_OVERTIME_POLICY;
+  if (!raw || typeof raw !== "object") return { ...d };
+  const p = raw as Partial<Record<keyof OvertimePolicy, unknown>>;
+  const weeks = Math.round(Number(p.averagingWeeks));
+  return {
+    weeklyThreshold: optionalAmount(p.weeklyThreshold, d.weeklyThreshold),
+    dailyThreshold: optionalAmount(p.dailyThreshold, d.dailyThreshold),
+    doubleTimeThreshold: optionalAmount(p.doubleTimeThreshold, d.doubleTimeThreshold),
+    overtimeMultiplier: multiplier(p.overtimeMultiplier, d.overtimeMultiplier),
+    doubleTimeMultiplier: multiplier(p.doubleTimeMultiplier, d.doubleTimeMultiplier),
+    averagingWeeks: Number.isFinite(weeks) ? Math.max(1, Math.min(MAX_AVERAGING_WEEKS, weeks)) : d.averagingWeeks,
+  };
+};
+
+const rate = (value: unknown, fallback: number) => {
+  const n = Number(value);
+  return value != null && value !== "" && Number.isFinite(n) && n >= 0 && n < 1 ? n : fallback;
+};
+
+export const normalizeVacationPolicy = (raw: unknown): VacationPolicy => {
+  const d = DEFAULT_VACATION_POLICY;
+  if (!raw || typeof raw !== "object") return { ...d };
+  const p = raw as Partial<Record<keyof VacationPolicy, unknown>>;
+  const years = Math.round(Number(p.increaseAfterYears));
+  return {
+    rate: rate(p.rate, d.rate),
+    mode: p.mode === "accrue" || p.mode === "per-cheque" ? p.mode : d.mode,
+    increasedRate: p.increasedRate === null ? null : rate(p.increasedRate, d.increasedRate ?? d.rate),
+    increaseAfterYears: Number.isFinite(years) && years >= 1 ? years : d.increaseAfterYears,
+  };
+};
+
+const wholeNumber = (value: unknown, min: number, max: number) => {
+  const n = Number(value);
+  return value != null && value !== "" && Number.isInteger(n) && n >= min && n <= max ? n : null;
+};
+
+/**
+ * Anchor days are whole days from 1 to 28. A second semi-monthly day that is
+ * missing or the same as the first moves half a month on from it.
+ */
+export const normalizePeriodAnchors = (raw: unknown): PeriodAnchors => {
+  const d = DEFAULT_PERIOD_ANCHORS;
+  if (!raw || typeof raw !== "object") return { ...d };
+  const p = raw as Partial<Record<keyof PeriodAnchors, unknown>>;
+  const startDay = wholeNumber(p.startDay, 1, MAX_ANCHOR_DAY) ?? d.startDay;
+  const second = wholeNumber(p.secondStartDay, 1, MAX_ANCHOR_DAY);
+  return {
+    startDay,
+    secondStartDay: second != null && second !== startDay ? second : ((startDay + 14) % MAX_ANCHOR_DAY) + 1,
+    payDateOffsetDays: wholeNumber(p.payDateOffsetDays, 0, MAX_PAY_DATE_OFFSET_DAYS) ?? d.payDateOffsetDays,
+  };
+};
+
+/** One stub per pay date, the last one winning; amounts left blank or negative stay null. */
+export const normalizePaystubs = (raw: unknown): PaystubRecord[] => {
+  if (!Array.isArray(raw)) return [];
+  const byDate = new Map<string, PaystubRecord>();
+  raw
+    .filter(p => p && typeof p === "object" && /^\d{4}-\d{2}-\d{2}$/.test(String(p.payDate)))
+    .forEach(p => byDate.set(String(p.payDate), {
+      payDate: String(p.payDate),
+      gross: optionalAmount(p.gross, null),
+      cpp: optionalAmount(p.cpp, null),
+      ei: optionalAmount(p.ei, null),
+      incomeTax: optionalAmount(p.incomeTax, null),
+      net: optionalAmount(p.net, null),
+    }));
+  return Array.from(byDate.values()).sort((a, b) => a.payDate.localeCompare(b.payDate));
+};
+
+/** Imported tax years that still pass the loader's checks, one per year, the last one kept. */
+export const normalizeImportedTaxYears = (raw: unknown): TaxYearRates[] => {
+  if (!Array.isArray(raw)) return [];
+  const byYear = new Map<number, TaxYearRates>();
+  raw.forEach(entry => {
+    const { rates } = readTaxYearRates(entry);
+    if (rates) byYear.set(rates.year, rates);
+  });
+  return Array.from(byYear.values()).sort((a, b) => a.year - b.year);
+};
+
+/**
+ * A birth date must be a real calendar day; anything else is "not given". A
+ * profile saved before it had a province takes `fallbackProvince`.
+ */
+export const normalizeProfile = (raw: unknown, fallbackProvince: ProvinceCode = DEFAULT_PROFILE.province): Profile => {
+  const p = (raw && typeof raw === "object" ? raw : {}) as Partial<Record<keyof Profile, unknown>>;
+  const birthDate = String(p.birthDate ?? "");
+  const valid = /^\d{4}-\d{2}-\d{2}$/.test(birthDate) && !isNaN(Date.parse(birthDate))
+    && new Date(`${birthDate}T00:00:00Z`).toISOString().startsWith(birthDate);
+  return { birthDate: valid ? birthDate : null, province: isProvinceCode(p.province) ? p.province : fallbackProvince };
+};
+
+/** Drops payouts without a usable date; a missing or bad amount means "the whole bank". */
+export const normalizeVacationPayouts = (raw: unknown): VacationPayout[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(p => p && typeof p === "object" && /^\d{4}-\d{2}-\d{2}$/.test(String(p.date)))
+    .map((p, i) => {
+      const amount = Number(p.amount);
+      return {
+        id: Number.isFinite(Number(p.id)) ? Number(p.id) : i + 1,
+        date: String(p.date),
+        amount: p.amount != null && p.amount !== "" && Number.isFinite(amount) && amount > 0 ? amount : null,
+      };
+    });
+};
+
+/** Oldest first, one rate per date (the last one given wins); bad entries are dropped. */
+export const normalizeRateHistory = (raw: unknown): RateChange[] => {
+  if (!Array.isArray(raw)) return [];
+  const byDate = new Map<string, number>();
+  for (const change of raw) {
+    if (!change || typeof change !== "object" || !/^\d{4}-\d{2}-\d{2}$/.test(String(change.date))) continue;
+    const rate = Number(change.rate);
+    if (change.rate == null || change.rate === "" || !Number.isFinite(rate) || rate < 0) continue;
+    byDate.set(String(change.date), rate);
+  }
+  return Array.from(byDate, ([date, rate]) => ({ date, rate })).sort((a, b) => a.date.localeCompare(b.date));
+};
+
+/** A stored history, or for data from before rate histories, the single rate from the start date. */
+export const migrateRateHistory = (raw: unknown, hourlyRate: number, startDate: string): RateChange[] => {
+  const history = normalizeRateHistory(raw);
+  return history.length ? history : [{ date: startDate, rate: hourlyRate }];
+};
+
+/** A blank or negative claim means the basic personal amount. */
+export const normalizeTaxClaims = (raw: unknown): TaxClaims => {
+  if (!raw || typeof raw !== "object") return { ...DEFAULT_TAX_CLAIMS };
+  const p = raw as Partial<Record<keyof TaxClaims, unknown>>;
+  const additionalTax = Number(p.additionalTax);
+  return {
+    federal: optionalAmount(p.federal, null),
+    provincial: optionalAmount(p.provincial, null),
+    additionalTax: p.additionalTax != null && Number.isFinite(additionalTax) && additionalTax > 0 ? additionalTax : 0,
+  };
+};
+
+/** Drops deductions without a positive amount; a percentage must be under 100%. */
+export const normalizeDeductions = (raw: unknown): PayDeduction[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(d => d && typeof d === "object")
+    .map((d, i): PayDeduction => {
+      const kind = d.kind === "percent" ? "percent" : "fixed";
+      const amount = kind === "percent" ? rate(d.amount, 0) : optionalAmount(d.amount, 0) ?? 0;
+      return {
+        id: Number.isFinite(Number(d.id)) ? Number(d.id) : i + 1,
+        name: typeof d.name === "string" ? d.name : "",
+        kind,
+        amount,
+        preTax: d.preTax === true,
+      };
+    })
+    .filter(d => d.amount > 0);
+};
+
+const HHMM = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** Drops premiums without a positive amount; a half-set window becomes the whole day. */
+export const normalizeShiftPremiums = (raw: unknown): ShiftPremium[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(p => p && typeof p === "object")
+    .map((p, i): ShiftPremium => {
+      const kind = p.kind === "percent" ? "percent" : "fixed";
+      const windowed = HHMM.test(String(p.start)) && HHMM.test(String(p.end)) && p.start !== p.end;
+      const days: number[] = Array.isArray(p.days)
+        ? p.days.map(Number).filter((d: number) => Number.isInteger(d) && d >= 0 && d <= 6)
+        : [];
+      return {
+        id: Number.isFinite(Number(p.id)) ? Number(p.id) : i + 1,
+        name: typeof p.name === "string" ? p.name : "",
+        kind,
+        amount: kind === "percent" ? rate(p.amount, 0) : optionalAmount(p.amount, 0) ?? 0,
+        days: Array.from(new Set(days)).sort((a, b) => a - b),
+        start: windowed ? p.start : null,
+        end: windowed ? p.end : null,
+      };
+    })
+    .filter(p => p.amount > 0);
+};
+
+const hhmm = (value: unknown) => (typeof value === "string" && HHMM.test(value) ? value : null);
+
+const shiftBreak = (raw: unknown): ShiftBreak => {
+  const b = raw as Partial<Record<keyof ShiftBreak, unknown>>;
+  return {
+    minutes: Math.max(0, Math.min(180, Math.round(Number(b.minutes)) || 0)),
+    paid: b.paid === true,
+    start: hhmm(b.start),
+  };
+};
+
+/** Drops breaks without a positive length; a bad start time is left unknown. */
+export const normalizeShiftBreaks = (raw: unknown): ShiftBreak[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw.filter(b => b && typeof b === "object").map(shiftBreak).filter(b => b.minutes > 0);
+};
+
+export const normalizeBreakTemplates = (raw: unknown): BreakTemplate[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(b => b && typeof b === "object")
+    .map((b, i) => ({
+      id: Number.isFinite(Number(b.id)) ? Number(b.id) : i + 1,
+      name: typeof b.name === "string" ? b.name : "",
+      ...shiftBreak(b),
+    }))
+    .filter(b => b.minutes > 0);
+};
+
+/** A day's holiday choice and extra earnings, with anything unreadable left out. */
+const dayPayDetails = (d: DayHours): DayHours => {
+  const { holidayOption, substituteDate, extras, ...rest } = d;
+  return {
+    ...rest,
+    ...(holidayOption === "substitute" || holidayOption === "premium" ? { holidayOption } : {}),
+    ...(substituteDate === null || /^\d{4}-\d{2}-\d{2}$/.test(String(substituteDate)) ? { substituteDate } : {}),
+    ...(extras != null ? { extras: normalizeExtraEarnings(extras) } : {}),
+  };
+};
+
+/**
+ * Day records as stored by any version. A legacy single start/end moves into
+ * `shifts` with its break, so every timed day reads the same way; `hours`
+ * stays the day's total, which is all an older version needs.
+ */
+export const normalizeDayHours = (raw: unknown): DayHours[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(d => d && typeof d === "object" && typeof d.date === "string")
+    // a shift list that is not a list is dropped, leaving the day's plain hours
+    .map(({ shifts, ...d }: DayHours): DayHours => (Array.isArray(shifts) ? { ...d, shifts } : d))
+    .map(dayPayDetails)
+    .map((d: DayHours) => {
+      if (d.shifts == null && !d.start && !d.end) return d;
+      const { start, end, lunch, ...rest } = d;
+      const shifts = getShifts(d)
+        .filter((s: WorkShift) => s && typeof s === "object")
+        .map((s: WorkShift): WorkShift => ({
+          start: hhmm(s.start),
+          end: hhmm(s.end),
+          lunchMinutes: s.lunchMinutes == null ? null : clampLunchMinutes(s.lunchMinutes),
+          ...(s.breaks != null ? { breaks: normalizeShiftBreaks(s.breaks) } : {}),
+        }));
+      // the break of a legacy shift now lives on the shift
+      if (d.shifts == null) delete rest.lunchMinutes;
+      return { ...rest, shifts };
+    });
+};
+
+/** Drops lines with an unknown type or without a positive amount. */
+export const normalizeExtraEarnings = (raw: unknown): ExtraEarning[] => {
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(e => e && typeof e === "object" && EARNING_TYPES.includes(e.type))
+    .map((e, i) => ({
+      id: Number.isFinite(Number(e.id)) ? Number(e.id) : i + 1,
+      type: e.type,
+      amount: optionalAmount(e.amount, 0) ?? 0,
+    }))
+    .filter(e => e.amount > 0);
+};
+
+export const createDefaultJobData = (): NormalizedJobData => ({
   items: cloneDefaultItems(),
   hourlyRate: DEFAULT_HOURLY_RATE,
+  rateHistory: [{ date: ymd(getTorontoToday()), rate: DEFAULT_HOURLY_RATE }],
   dayHours: [] as DayHours[],
   startDate: ymd(getTorontoToday()),
   currentDate: getTorontoToday(),
   payCycle: DEFAULT_PAY_CYCLE,
   roster: { weekly: {}, monthly: {} } as RosterData,
+  overtime: { ...DEFAULT_OVERTIME_POLICY },
+  vacation: { ...DEFAULT_VACATION_POLICY },
+  vacationPayouts: [],
+  province: DEFAULT_PROVINCE,
+  taxClaims: { ...DEFAULT_TAX_CLAIMS },
+  deductions: [],
+  shiftPremiums: [],
+  overnightRule: DEFAULT_OVERNIGHT_RULE,
+  breakTemplates: [],
+  periodAnchors: { ...DEFAULT_PERIOD_ANCHORS },
+  paystubs: [],
+  timeZone: SHIFT_TIME_ZONE,
+  cpt30: false,
 });
 
 export const getInitialJobs = (): JobMeta[] => {
@@ -82,32 +431,79 @@ export const getInitialActiveJobId = (jobs: JobMeta[]): string => {
 export const readJobStorage = (jobId: string, key: JobStorageKey) => {
   const scoped = localStorage.getItem(jobStorageKey(jobId, key));
   if (scoped != null) return scoped;
-  if (jobId === DEFAULT_JOB_ID) {
+  if (jobId === DEFAULT_JOB_ID && hasLegacyKey(key)) {
     return localStorage.getItem(LEGACY_STORAGE_KEYS[key]);
   }
   return null;
 };
 
-export const loadJobData = (jobId: string) => {
+export const loadJobData = (jobId: string): NormalizedJobData => {
   const fallback = createDefaultJobData();
   const items = safeParse<Item[]>(readJobStorage(jobId, "items"), fallback.items);
   const hourlyRateRaw = readJobStorage(jobId, "hourlyRate");
-  const hourlyRate = hourlyRateRaw != null && !isNaN(Number(hourlyRateRaw)) ? Number(hourlyRateRaw) : fallback.hourlyRate;
-  const dayHours = safeParse<DayHours[]>(readJobStorage(jobId, "dayHours"), fallback.dayHours);
+  const storedRate = hourlyRateRaw != null && !isNaN(Number(hourlyRateRaw)) ? Number(hourlyRateRaw) : fallback.hourlyRate;
+  const dayHours = normalizeDayHours(safeParse<unknown>(readJobStorage(jobId, "dayHours"), fallback.dayHours));
   const startDate = readJobStorage(jobId, "startDate") || fallback.startDate;
+  const rateHistory = migrateRateHistory(safeParse<unknown>(readJobStorage(jobId, "rateHistory"), []), storedRate, startDate);
+  const hourlyRate = latestRate(rateHistory, storedRate);
   const currentDateRaw = readJobStorage(jobId, "currentDate");
   const currentDateCandidate = currentDateRaw ? new Date(currentDateRaw) : fallback.currentDate;
   const currentDate = isNaN(currentDateCandidate.getTime()) ? fallback.currentDate : currentDateCandidate;
   const payCycleRaw = readJobStorage(jobId, "payCycle");
   const payCycle = isPaymentCycle(payCycleRaw) ? payCycleRaw : fallback.payCycle;
   const roster = safeParse<RosterData>(readJobStorage(jobId, "roster"), fallback.roster);
-  return { items, hourlyRate, dayHours, startDate, currentDate, payCycle, roster };
+  const overtime = normalizeOvertimePolicy(safeParse<unknown>(readJobStorage(jobId, "overtime"), null));
+  const vacation = normalizeVacationPolicy(safeParse<unknown>(readJobStorage(jobId, "vacation"), null));
+  const vacationPayouts = normalizeVacationPayouts(safeParse<unknown>(readJobStorage(jobId, "vacationPayouts"), []));
+  const provinceRaw = readJobStorage(jobId, "province");
+  const province = isProvinceCode(provinceRaw) ? provinceRaw : fallback.province;
+  const taxClaims = normalizeTaxClaims(safeParse<unknown>(readJobStorage(jobId, "taxClaims"), null));
+  const deductions = normalizeDeductions(safeParse<unknown>(readJobStorage(jobId, "deductions"), []));
+  const shiftPremiums = normalizeShiftPremiums(safeParse<unknown>(readJobStorage(jobId, "shiftPremiums"), []));
+  const overnightRuleRaw = readJobStorage(jobId, "overnightRule");
+  const overnightRule = isOvernightRule(overnightRuleRaw) ? overnightRuleRaw : fallback.overnightRule;
+  const breakTemplates = normalizeBreakTemplates(safeParse<unknown>(readJobStorage(jobId, "breakTemplates"), []));
+  const periodAnchors = normalizePeriodAnchors(safeParse<unknown>(readJobStorage(jobId, "periodAnchors"), null));
+  const paystubs = normalizePaystubs(safeParse<unknown>(readJobStorage(jobId, "paystubs"), []));
+  const timeZoneRaw = readJobStorage(jobId, "timeZone");
+  const timeZone = isTimeZone(timeZoneRaw) ? timeZoneRaw : fallback.timeZone;
+  const cpt30 = safeParse<unknown>(readJobStorage(jobId, "cpt30"), fallback.cpt30) === true;
+  return {
+    items, hourlyRate, rateHistory, dayHours, startDate, currentDate, payCycle, roster, overtime, vacation, vacationPayouts,
+    province, taxClaims, deductions, shiftPremiums, overnightRule, breakTemplates, periodAnchors, paystubs, timeZone,
+    cpt30,
+  };
+};
+
+/** Write every per-job key; the inverse of `loadJobData`. */
+export const saveJobData = (jobId: string, data: NormalizedJobData) => {
+  safeSetItem(jobStorageKey(jobId, "items"), JSON.stringify(data.items));
+  safeSetItem(jobStorageKey(jobId, "hourlyRate"), String(data.hourlyRate));
+  safeSetItem(jobStorageKey(jobId, "rateHistory"), JSON.stringify(data.rateHistory));
+  safeSetItem(jobStorageKey(jobId, "payCycle"), data.payCycle);
+  safeSetItem(jobStorageKey(jobId, "roster"), JSON.stringify(data.roster));
+  safeSetItem(jobStorageKey(jobId, "dayHours"), JSON.stringify(data.dayHours));
+  safeSetItem(jobStorageKey(jobId, "startDate"), data.startDate);
+  safeSetItem(jobStorageKey(jobId, "currentDate"), data.currentDate.toISOString());
+  safeSetItem(jobStorageKey(jobId, "overtime"), JSON.stringify(data.overtime));
+  safeSetItem(jobStorageKey(jobId, "vacation"), JSON.stringify(data.vacation));
+  safeSetItem(jobStorageKey(jobId, "vacationPayouts"), JSON.stringify(data.vacationPayouts));
+  safeSetItem(jobStorageKey(jobId, "province"), data.province);
+  safeSetItem(jobStorageKey(jobId, "taxClaims"), JSON.stringify(data.taxClaims));
+  safeSetItem(jobStorageKey(jobId, "deductions"), JSON.stringify(data.deductions));
+  safeSetItem(jobStorageKey(jobId, "shiftPremiums"), JSON.stringify(data.shiftPremiums));
+  safeSetItem(jobStorageKey(jobId, "overnightRule"), data.overnightRule);
+  safeSetItem(jobStorageKey(jobId, "breakTemplates"), JSON.stringify(data.breakTemplates));
+  safeSetItem(jobStorageKey(jobId, "periodAnchors"), JSON.stringify(data.periodAnchors));
+  safeSetItem(jobStorageKey(jobId, "paystubs"), JSON.stringify(data.paystubs));
+  safeSetItem(jobStorageKey(jobId, "timeZone"), data.timeZone);
+  safeSetItem(jobStorageKey(jobId, "cpt30"), JSON.stringify(data.cpt30));
 };
 
 export const clearJobStorage = (jobId: string) => {
-  (Object.keys(LEGACY_STORAGE_KEYS) as JobStorageKey[]).forEach(key => {
+  ALL_JOB_STORAGE_KEYS.forEach(key => {
     localStorage.removeItem(jobStorageKey(jobId, key));
-    if (jobId === DEFAULT_JOB_ID) {
+    if (jobId === DEFAULT_JOB_ID && hasLegacyKey(key)) {
       localStorage.removeItem(LEGACY_STORAGE_KEYS[key]);
     }
   });
@@ -4,7 +4,10 @@ import {
   TAX_YEARS,
   computeCpp,
   computeEi,
+  contributesToCpp,
+  cppMonths,
   computeIncomeTax,
+  computeLumpSumTax,
   getSalesTaxRate,
   getTaxYearRates,
   maxCpp2,
@@ -12,13 +15,25 @@ import {
   maxEi,
   ontarioHealthPremium,
   ontarioSurtax,
+  DEFAULT_TAX_CLAIMS,
+  PROVINCE_CODES,
+  ProvinceCode,
+  TaxClaims,
+  computeQpip,
+  isProvinceCode,
+  maxQpip,
+  prorateCpp,
+  quebecPayrollRates,
   taxFromBrackets,
+  taxTableYear,
+  withTaxYears,
 } from './tax';
 
 const y2026 = TAX_YEARS[2026];
 const y2025 = TAX_YEARS[2025];
 const noCpp = { pensionable: 0, base: 0, cpp2: 0 };
 const noEi = { insurable: 0, premium: 0 };
+const noQpip = { insurable: 0, premium: 0 };
 
 describe('tax year lookup', () => {
   test('returns the table for a known year', () => {
@@ -32,11 +47,28 @@ describe('tax year lookup', () => {
     expect(getTaxYearRates(NaN).year).toBe(LATEST_TAX_YEAR);
   });
 
+  test('imported years extend the tables or replace a built-in year', () => {
+    const y2027 = { ...y2026, year: 2027, ei: { rate: 0.017, mie: 70000 } };
+    const tables = withTaxYears([y2027, { ...y2025, ei: { rate: 0.02, mie: 60000 } }]);
+    expect(taxTableYear(2027)).toBe(2026);
+    expect(taxTableYear(2027, tables)).toBe(2027);
+    expect(taxTableYear(2030, tables)).toBe(2027);
+    expect(getTaxYearRates(2027, tables)).toBe(y2027);
+    expect(getTaxYearRates(2025, tables).ei.rate).toBe(0.02);
+    expect(TAX_YEARS[2025].ei.rate).toBe(y2025.ei.rate);
+  });
+
   test('sales tax is Ontario HST, not any payroll rate', () => {
     expect(getSalesTaxRate(2026)).toBe(0.13);
     expect(getSalesTaxRate(2025)).toBe(0.13);
   });
 
+  test('sales tax follows the province', () => {
+    expect(getSalesTaxRate(2026, 'BC')).toBe(0.12);
+    expect(getSalesTaxRate(2026, 'AB')).toBe(0.05);
+    expect(getSalesTaxRate(2026, 'MB')).toBe(0.12);
+  });
+
   test('the published annual maximums fall out of the constants', () => {
     expect(maxCppBase(y2026)).toBeCloseTo(4230.45, 2);
     expect(maxCpp2(y2026)).toBeCloseTo(416, 2);
@@ -67,6 +99,32 @@ describe('bracket arithmetic', () => {
   });
 });
 
+describe('mid-year changes', () => {
+  test('a pay date gets the rates in force that day; a year, the annual ones', () => {
+    expect(getTaxYearRates('2025-06-30').federal.brackets[0].rate).toBe(0.15);
+    expect(getTaxYearRates('2025-07-01').federal.brackets[0].rate).toBe(0.14);
+    expect(getTaxYearRates(2025).federal.brackets[0].rate).toBe(0.145);
+    expect(getTaxYearRates('2026-03-13')).toBe(y2026);
+    // a clamped date reads 2025's changes on the same month and day
+    expect(getTaxYearRates('2024-03-01').federal.brackets[0].rate).toBe(0.15);
+  });
+
+  test('credits stay at the blended annual rate on both sides of the cut', () => {
+    const input = { annualTaxable: 30000, annualCppCredit: 0, annualCppDeduction: 0, annualEi: 0 };
+    const credits = 0.145 * (y2025.federal.bpa + y2025.federal.canadaEmploymentAmount);
+    expect(getTaxYearRates('2025-03-14').federal.creditRate).toBe(0.145);
+    expect(computeIncomeTax(input, getTaxYearRates('2025-03-14')).federal).toBeCloseTo(30000 * 0.15 - credits, 2);
+    expect(computeIncomeTax(input, getTaxYearRates('2025-09-12')).federal).toBeCloseTo(30000 * 0.14 - credits, 2);
+  });
+
+  test('a change replaces only the fields it lists', () => {
+    const tables = withTaxYears([{ ...y2026, segments: [{ from: '2026-07-01', cpp: { rate: 0.06 } }] }]);
+    expect(getTaxYearRates('2026-06-26', tables).cpp.rate).toBe(0.0595);
+    expect(getTaxYearRates('2026-07-10', tables).cpp).toEqual({ ...y2026.cpp, rate: 0.06 });
+    expect(getTaxYearRates(2026, tables).cpp.rate).toBe(0.0595);
+  });
+});
+
 describe('CPP', () => {
   test('the basic exemption comes off before the rate applies', () => {
     const r = computeCpp(50000, 3500, y2026, noCpp);
@@ -105,6 +163,39 @@ describe('CPP', () => {
   });
 });
 
+describe('CPP by age', () => {
+  test('starts the month after the 18th birthday and stops after the month of the 70th', () => {
+    expect(contributesToCpp('2026-05-29', '2008-05-15')).toBe(false);
+    expect(contributesToCpp('2026-06-05', '2008-05-15')).toBe(true);
+    expect(contributesToCpp('2026-03-31', '1956-03-10')).toBe(true);
+    expect(contributesToCpp('2026-04-01', '1956-03-10')).toBe(false);
+    expect(contributesToCpp('1990-01-01', null)).toBe(true);
+  });
+
+  test('a CPT30 stops it at 65; QPP keeps going past 70', () => {
+    expect(contributesToCpp('2026-04-01', '1961-03-10')).toBe(true);
+    expect(contributesToCpp('2026-04-01', '1961-03-10', { cpt30: true })).toBe(false);
+    expect(contributesToCpp('2026-04-01', '1956-03-10', { quebec: true })).toBe(true);
+    expect(contributesToCpp('2026-05-29', '2008-05-15', { quebec: true })).toBe(false);
+  });
+
+  test('months contributed in a year', () => {
+    expect(cppMonths(2026, '2008-05-15')).toBe(7);
+    expect(cppMonths(2026, '1956-03-10')).toBe(3);
+    expect(cppMonths(2026, '2010-01-01')).toBe(0);
+    expect(cppMonths(2026, null)).toBe(12);
+  });
+
+  test('the exemption and both maximums shrink with the months', () => {
+    const half = prorateCpp(y2026, 6);
+    expect(half.cpp.exemption).toBe(1750);
+    expect(maxCppBase(half)).toBeCloseTo(maxCppBase(y2026) / 2, 6);
+    expect(maxCpp2(half)).toBeCloseTo(maxCpp2(y2026) / 2, 6);
+    expect(half.ei).toBe(y2026.ei);
+    expect(prorateCpp(y2026, 12)).toBe(y2026);
+  });
+});
+
 describe('EI', () => {
   test('a flat rate up to the maximum insurable earnings', () => {
     expect(computeEi(50000, y2026, noEi)).toBeCloseTo(50000 * 0.0163, 2);
@@ -159,8 +250,8 @@ describe('income tax', () => {
 
   test('the Ontario tax reduction zeroes small provincial bills', () => {
     // Ontario tax reaches the $300 reduction amount around $18,930 of income.
-    expect(plain(18000).ontario).toBe(0);
-    expect(plain(30000).ontario).toBeGreaterThan(0);
+    expect(plain(18000).provincial).toBe(0);
+    expect(plain(30000).provincial).toBeGreaterThan(0);
   });
 
   test('matches published figures for a $50,000 Ontario salary in 2026', () => {
@@ -176,7 +267,7 @@ describe('income tax', () => {
     expect(ei).toBeCloseTo(815, 2);
     expect(t.federal).toBeCloseTo(3985, 0);
     // basic Ontario tax plus the $600 health premium at this income
-    expect(t.ontario).toBeCloseTo(2288, 0);
+    expect(t.provincial).toBeCloseTo(2288, 0);
   });
 
   test('the CPP enhancement reduces taxable income', () => {
@@ -191,3 +282,136 @@ describe('income tax', () => {
     expect(credited.total).toBeLessThan(plain(50000).total);
   });
 });
+
+describe('provincial models', () => {
+  const plain = (annualTaxable: number, province: ProvinceCode) =>
+    computeIncomeTax({ annualTaxable, annualCppCredit: 0, annualCppDeduction: 0, annualEi: 0 }, y2026, province);
+
+  test('every province is registered and recognised', () => {
+    expect(PROVINCE_CODES).toEqual(['ON', 'BC', 'AB', 'MB', 'QC']);
+    expect(isProvinceCode('AB')).toBe(true);
+    expect(isProvinceCode('NS')).toBe(false);
+    expect(isProvinceCode(undefined)).toBe(false);
+  });
+
+  test('federal tax does not depend on the province outside Quebec', () => {
+    const federal = PROVINCE_CODES.filter(code => code !== 'QC').map(code => plain(50000, code).federal);
+    expect(new Set(federal).size).toBe(1);
+  });
+
+  test('Ontario is the default', () => {
+    expect(computeIncomeTax({ annualTaxable: 50000, annualCppCredit: 0, annualCppDeduction: 0, annualEi: 0 }, y2026))
+      .toEqual(plain(50000, 'ON'));
+  });
+
+  test('Alberta: brackets and BPA only', () => {
+    // 50000 * 8% - 22769 * 8%
+    expect(plain(50000, 'AB').provincial).toBeCloseTo(2178.48, 2);
+  });
+
+  test('Manitoba: brackets and BPA only', () => {
+    // 47000 * 10.8% + 3000 * 12.75% - 15780 * 10.8%
+    expect(plain(50000, 'MB').provincial).toBeCloseTo(3754.26, 2);
+  });
+
+  test('the BC tax reduction clears low incomes and phases out above its threshold', () => {
+    expect(plain(20000, 'BC').provincial).toBe(0);
+    // (40000 - 13216) * 5.6%, less 575 - (40000 - 25570) * 3.56%
+    expect(plain(40000, 'BC').provincial).toBeCloseTo(1438.6, 1);
+    // fully phased out
+    expect(plain(60000, 'BC').provincial).toBeCloseTo(
+      taxFromBrackets(60000, y2026.britishColumbia.brackets) - 0.056 * 13216, 6);
+  });
+});
+
+describe('TD1 claims', () => {
+  const input = { annualTaxable: 50000, annualCppCredit: 0, annualCppDeduction: 0, annualEi: 0 };
+  const claims = (over: Partial<TaxClaims>): TaxClaims => ({ ...DEFAULT_TAX_CLAIMS, ...over });
+
+  test('no claims is the basic personal amount', () => {
+    const bpa = claims({ federal: y2026.federal.bpa, provincial: y2026.ontario.bpa });
+    expect(computeIncomeTax(input, y2026, 'ON', bpa)).toEqual(computeIncomeTax(input, y2026));
+  });
+
+  test('a $0 claim gives up the BPA credit at each lowest rate', () => {
+    const base = computeIncomeTax(input, y2026, 'AB');
+    const none = computeIncomeTax(input, y2026, 'AB', claims({ federal: 0, provincial: 0 }));
+    expect(none.federal - base.federal).toBeCloseTo(y2026.federal.bpa * 0.14, 6);
+    expect(none.provincial - base.provincial).toBeCloseTo(y2026.alberta.bpa * 0.08, 6);
+  });
+
+  test('a larger claim, say with tuition, lowers the tax', () => {
+    const tuition = computeIncomeTax(input, y2026, 'AB', claims({ federal: y2026.federal.bpa + 5000 }));
+    expect(tuition.federal).toBeCloseTo(computeIncomeTax(input, y2026, 'AB').federal - 700, 6);
+  });
+
+  test('the lump-sum method uses the same claims', () => {
+    const lump = { ...input, annualTaxable: 2000 };
+    const none = claims({ federal: 0, provincial: 0 });
+    expect(computeLumpSumTax({ ...input, annualTaxable: 0 }, lump, y2026, 'ON', none)).toBeGreaterThan(0);
+    expect(computeLumpSumTax({ ...input, annualTaxable: 0 }, lump, y2026, 'ON')).toBe(0);
+  });
+});
+
+describe('Quebec', () => {
+  const plain = (annualTaxable: number, province: ProvinceCode) =>
+    computeIncomeTax({ annualTaxable, annualCppCredit: 0, annualCppDeduction: 0, annualEi: 0 }, y2026, province);
+
+  test('QPP and the reduced EI rate swap in for CPP and EI', () => {
+    const qc = quebecPayrollRates(y2026);
+    // (74600 - 3500) * 6.4%, and 68900 * 1.30%
+    expect(maxCppBase(qc)).toBeCloseTo(4550.4, 2);
+    expect(maxEi(qc)).toBeCloseTo(895.7, 2);
+    expect(qc.federal).toBe(y2026.federal);
+  });
+
+  test('QPIP is charged up to its own maximum', () => {
+    expect(computeQpip(1000, y2026, noQpip)).toBeCloseTo(4.3, 6);
+    expect(computeQpip(0, y2026, noQpip)).toBe(0);
+    expect(maxQpip(y2026)).toBeCloseTo(442.9, 2);
+    expect(computeQpip(5000, y2026, { insurable: 102000, premium: 438.6 })).toBeCloseTo(4.3, 6);
+    expect(computeQpip(5000, y2026, { insurable: 103000, premium: maxQpip(y2026) })).toBe(0);
+  });
+
+  test('Quebec tax takes the deduction for workers and no CPP/EI credits', () => {
+    // (50000 - 1450) * 14% - 18952 * 14%
+    expect(plain(50000, 'QC').provincial).toBeCloseTo(4143.72, 2);
+    const credited = computeIncomeTax(
+      { annualTaxable: 50000, annualCppCredit: 2000, annualCppDeduction: 0, annualEi: 600 }, y2026, 'QC');
+    expect(credited.provincial).toBeCloseTo(4143.72, 2);
+  });
+
+  test('federal tax is cut by the 16.5% Quebec abatement', () => {
+    expect(plain(50000, 'QC').federal).toBeCloseTo(plain(50000, 'ON').federal * 0.835, 6);
+  });
+
+  test('QPIP premiums earn a federal credit', () => {
+    const withQpip = computeIncomeTax(
+      { annualTaxable: 50000, annualCppCredit: 0, annualCppDeduction: 0, annualEi: 0, annualQpip: 215 }, y2026, 'QC');
+    expect(withQpip.federal).toBeCloseTo(plain(50000, 'QC').federal - 215 * 0.14 * 0.835, 6);
+  });
+
+  test('sales tax is GST plus QST', () => {
+    expect(getSalesTaxRate(2026, 'QC')).toBe(0.14975);
+  });
+});
+
+describe('lump-sum (bonus method) tax', () => {
+  const input = (annualTaxable: number) => ({ annualTaxable, annualCppCredit: 0, annualCppDeduction: 0, annualEi: 0 });
+  const plain = (annualTaxable: number) => computeIncomeTax(input(annualTaxable), y2026);
+
+  test('is the extra annual tax the lump sum causes on top of regular pay', () => {
+    const extra = computeLumpSumTax(input(50000), input(2000), y2026);
+    expect(extra).toBeCloseTo(plain(52000).total - plain(50000).total, 6);
+    // at the marginal rate, not the average rate
+    expect(extra / 2000).toBeGreaterThan(plain(50000).total / 50000);
+  });
+
+  test('nothing is withheld on a lump sum that stays under the personal amounts', () => {
+    expect(computeLumpSumTax(input(0), input(1000), y2026)).toBe(0);
+  });
+
+  test('nothing is withheld without a lump sum', () => {
+    expect(computeLumpSumTax(input(50000), input(0), y2026)).toBe(0);
+  });
+});
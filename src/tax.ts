@@ -1,21 +1,29 @@
 /**
- * Year-keyed Canadian payroll tax data and formulas (Ontario).
+ * Year-keyed Canadian payroll tax data and formulas: federal, plus Ontario,
+ * British Columbia, Alberta, Manitoba and Quebec.
  *
  * Shapes follow the CRA "Payroll Deductions Formulas" guide (T4127): annualize a
  * pay period's taxable income, apply brackets and credits, then divide back down.
- * Every figure below is taken from CRA / Ontario published tables for its year.
+ * Every figure below is taken from CRA and provincial published tables for its year.
+ *
+ * Quebec runs its own payroll: QPP replaces CPP, EI is charged at a reduced rate
+ * because QPIP (the Quebec parental insurance plan) is deducted alongside it,
+ * and Revenu Québec's TP-1015.F formulas replace the provincial part of T4127.
  *
  * Deliberate simplifications, both far outside this app's income range:
  *  - The federal basic personal amount phase-out is ignored. It only begins above
  *    ~$181k, so the full BPA always applies here.
  *  - Only the credits an hourly employee always has are modelled (BPA, Canada
- *    employment amount, CPP/EI credits, Ontario tax reduction, Ontario health
- *    premium). Dependants, tuition, RRSP and the TD1 "other credits" box are not.
+ *    employment amount, CPP/EI credits, and each province's own reductions and
+ *    levies). Tuition, dependants and the like reach the calculation only
+ *    through a job's TD1 total claim amount, which replaces the BPA when set.
+ *  - Alberta's supplemental credit for claims above its 8% bracket is ignored;
+ *    the basic claims are all well inside that bracket.
  *
- * These are withholding figures: what comes off a paycheque. Refundable credits
- * settled at filing time — the Ontario LIFT credit and the Canada Workers
- * Benefit — are deliberately absent, exactly as they are absent from T4127, so
- * a low earner's actual year-end tax will be lower than the total withheld here.
+ * These are withholding figures: what comes off a paycheque. Credits settled at
+ * filing time — the Ontario LIFT credit and the Canada Workers Benefit — are
+ * deliberately absent from withholding, exactly as they are absent from T4127;
+ * `taxReturn.ts` applies them when estimating the year-end balance.
  *
  * This makes the app a good estimator, not payroll software. See AGENTS.md.
  */
@@ -41,22 +49,68 @@ export const ONTARIO_HEALTH_PREMIUM: HealthPremiumBand[] = [
   { over: 200000, base: 750, rate: 0.25, cap: 900 },
 ];
 
+export type ProvinceCode = "ON" | "BC" | "AB" | "MB" | "QC";
+
+/** What every province has. Its own reductions and levies sit alongside. */
+export type ProvincialRates = {
+  brackets: Bracket[];
+  /**
+   * Rate the non-refundable credits are taken at: the lowest bracket rate, or,
+   * on rates resolved for a pay date, the year's own annual lowest rate.
+   */
+  creditRate?: number;
+  bpa: number;
+  /** GST plus PST, or HST, charged on taxable shopping-list items. Not a payroll rate. */
+  salesTax: number;
+};
+
+/** Not indexed; unchanged since the 2019 enhancement. */
+export const ONTARIO_LIFT = { rate: 0.0505, max: 875, phaseOutThreshold: 32500, phaseOutRate: 0.05 };
+
 export type TaxYearRates = {
   year: number;
   federal: {
     brackets: Bracket[];
+    /** As on `ProvincialRates`. */
+    creditRate?: number;
     bpa: number;
     /** Canada employment amount, T4127 factor K4. */
     canadaEmploymentAmount: number;
+    /**
+     * Canada Workers Benefit for a single filer: `rate` of working income over
+     * `floor`, at most `max`, less `phaseOutRate` of net income over `phaseOutThreshold`.
+     */
+    cwb: { rate: number; floor: number; max: number; phaseOutThreshold: number; phaseOutRate: number };
   };
-  ontario: {
-    brackets: Bracket[];
-    bpa: number;
+  ontario: ProvincialRates & {
     surtax: { threshold1: number; rate1: number; threshold2: number; rate2: number };
     /** Ontario tax reduction basic personal amount, T4127 factor S. */
     taxReduction: number;
     /** Ontario Health Premium bands, T4127 factor V2. */
     healthPremium: HealthPremiumBand[];
+    /**
+     * Low-income Individuals and Families Tax credit for a single filer: `rate`
+     * of employment income, at most `max`, less `phaseOutRate` of net income over
+     * `phaseOutThreshold`. Claimed on the return only.
+     */
+    lift: { rate: number; max: number; phaseOutThreshold: number; phaseOutRate: number };
+  };
+  britishColumbia: ProvincialRates & {
+    /** BC tax reduction, T4127 factor S: `base`, less `rate` of income over `threshold`. */
+    taxReduction: { base: number; threshold: number; rate: number };
+  };
+  alberta: ProvincialRates;
+  manitoba: ProvincialRates;
+  quebec: ProvincialRates & {
+    /** Same shape as `cpp`: the base rate is QPP's original 5.4%. */
+    qpp: TaxYearRates["cpp"];
+    /** EI employee rate for Quebec, reduced for QPIP. */
+    eiRate: number;
+    qpip: { rate: number; maxInsurable: number };
+    /** Deduction for workers: `rate` of employment income, at most `max`. */
+    workerDeduction: { rate: number; max: number };
+    /** Refundable Quebec abatement off basic federal tax. */
+    federalAbatement: number;
   };
   cpp: {
     /** Total employee rate on tier-1 contributory earnings. */
@@ -72,13 +126,35 @@ export type TaxYearRates = {
     yampe: number;
   };
   ei: { rate: number; mie: number };
-  /** Ontario HST, charged on taxable shopping-list items. Not a payroll rate. */
-  salesTax: number;
+  /** Changes taking effect part way through the year, by pay date, earliest first. */
+  segments?: TaxRateSegment[];
 };
 
+export const TAX_RATE_SECTIONS = [
+  "federal", "ontario", "britishColumbia", "alberta", "manitoba", "quebec", "cpp", "ei",
+] as const;
+export type TaxRateSection = typeof TAX_RATE_SECTIONS[number];
+
+/**
+ * Rates in force on pay dates from `from` ("YYYY-MM-DD", inside the year) on.
+ * Each section lists only the fields that change, and each of those is
+ * replaced whole: a new bracket list, a new `cpp.rate`.
+ *
+ * A year's own fields are its annual figures, the ones the return is filed
+ * on; segments only change what is withheld from each cheque. Credits stay at
+ * the annual lowest rate throughout, the way CRA's payroll formulas keep them
+ * for a year whose lowest rate changed.
+ */
+export type TaxRateSegment = { from: string } & { [K in TaxRateSection]?: Partial<TaxYearRates[K]> };
+
 /**
  * The federal lowest rate is 14.5% for 2025 because the cut from 15% to 14% took
- * effect July 1, 2025, so the year blends the two. It is 14% from 2026 onward.
+ * effect July 1, 2025, so the year blends the two. Cheques are withheld at 15%
+ * before July and 14% from then on, with credits at 14.5% all year. It is 14%
+ * from 2026 onward.
+ *
+ * Manitoba froze its brackets and basic personal amount at their 2025 values.
+ * BC raised its lowest rate from 5.06% to 5.6% for 2026.
  */
 export const TAX_YEARS: Record<number, TaxYearRates> = {
   2025: {
@@ -93,6 +169,7 @@ export const TAX_YEARS: Record<number, TaxYearRates> = {
       ],
       bpa: 16129,
       canadaEmploymentAmount: 1471,
+      cwb: { rate: 0.27, floor: 3000, max: 1633, phaseOutThreshold: 26855, phaseOutRate: 0.15 },
     },
     ontario: {
       brackets: [
@@ -106,10 +183,87 @@ export const TAX_YEARS: Record<number, TaxYearRates> = {
       surtax: { threshold1: 5710, rate1: 0.2, threshold2: 7307, rate2: 0.36 },
       taxReduction: 294,
       healthPremium: ONTARIO_HEALTH_PREMIUM,
+      lift: ONTARIO_LIFT,
+      salesTax: 0.13,
+    },
+    britishColumbia: {
+      brackets: [
+        { upTo: 49279, rate: 0.0506 },
+        { upTo: 98560, rate: 0.077 },
+        { upTo: 113158, rate: 0.105 },
+        { upTo: 137407, rate: 0.1229 },
+        { upTo: 186306, rate: 0.147 },
+        { upTo: 259829, rate: 0.168 },
+        { upTo: Infinity, rate: 0.205 },
+      ],
+      bpa: 12932,
+      taxReduction: { base: 562, threshold: 25020, rate: 0.0356 },
+      salesTax: 0.12,
+    },
+    alberta: {
+      brackets: [
+        { upTo: 60000, rate: 0.08 },
+        { upTo: 151234, rate: 0.1 },
+        { upTo: 181481, rate: 0.12 },
+        { upTo: 241974, rate: 0.13 },
+        { upTo: 362961, rate: 0.14 },
+        { upTo: Infinity, rate: 0.15 },
+      ],
+      bpa: 22323,
+      salesTax: 0.05,
+    },
+    manitoba: {
+      brackets: [
+        { upTo: 47000, rate: 0.108 },
+        { upTo: 100000, rate: 0.1275 },
+        { upTo: Infinity, rate: 0.174 },
+      ],
+      bpa: 15780,
+      salesTax: 0.12,
+    },
+    quebec: {
+      brackets: [
+        { upTo: 53255, rate: 0.14 },
+        { upTo: 106495, rate: 0.19 },
+        { upTo: 129590, rate: 0.24 },
+        { upTo: Infinity, rate: 0.2575 },
+      ],
+      bpa: 18571,
+      qpp: { rate: 0.064, baseRate: 0.054, exemption: 3500, ympe: 71300, cpp2Rate: 0.04, yampe: 81200 },
+      eiRate: 0.0131,
+      qpip: { rate: 0.00494, maxInsurable: 98000 },
+      workerDeduction: { rate: 0.06, max: 1420 },
+      federalAbatement: 0.165,
+      salesTax: 0.14975,
     },
     cpp: { rate: 0.0595, baseRate: 0.0495, exemption: 3500, ympe: 71300, cpp2Rate: 0.04, yampe: 81200 },
     ei: { rate: 0.0164, mie: 65700 },
-    salesTax: 0.13,
+    segments: [
+      {
+        from: "2025-01-01",
+        federal: {
+          brackets: [
+            { upTo: 57375, rate: 0.15 },
+            { upTo: 114750, rate: 0.205 },
+            { upTo: 177882, rate: 0.26 },
+            { upTo: 253414, rate: 0.29 },
+            { upTo: Infinity, rate: 0.33 },
+          ],
+        },
+      },
+      {
+        from: "2025-07-01",
+        federal: {
+          brackets: [
+            { upTo: 57375, rate: 0.14 },
+            { upTo: 114750, rate: 0.205 },
+            { upTo: 177882, rate: 0.26 },
+            { upTo: 253414, rate: 0.29 },
+            { upTo: Infinity, rate: 0.33 },
+          ],
+        },
+      },
+    ],
   },
   2026: {
     year: 2026,
@@ -123,6 +277,7 @@ export const TAX_YEARS: Record<number, TaxYearRates> = {
       ],
       bpa: 16452,
       canadaEmploymentAmount: 1501,
+      cwb: { rate: 0.27, floor: 3000, max: 1666, phaseOutThreshold: 27392, phaseOutRate: 0.15 },
     },
     ontario: {
       brackets: [
@@ -136,33 +291,132 @@ export const TAX_YEARS: Record<number, TaxYearRates> = {
       surtax: { threshold1: 5818, rate1: 0.2, threshold2: 7446, rate2: 0.36 },
       taxReduction: 300,
       healthPremium: ONTARIO_HEALTH_PREMIUM,
+      lift: ONTARIO_LIFT,
+      salesTax: 0.13,
+    },
+    britishColumbia: {
+      brackets: [
+        { upTo: 50363, rate: 0.056 },
+        { upTo: 100728, rate: 0.077 },
+        { upTo: 115648, rate: 0.105 },
+        { upTo: 140430, rate: 0.1229 },
+        { upTo: 190405, rate: 0.147 },
+        { upTo: 265545, rate: 0.168 },
+        { upTo: Infinity, rate: 0.205 },
+      ],
+      bpa: 13216,
+      taxReduction: { base: 575, threshold: 25570, rate: 0.0356 },
+      salesTax: 0.12,
+    },
+    alberta: {
+      brackets: [
+        { upTo: 61200, rate: 0.08 },
+        { upTo: 154259, rate: 0.1 },
+        { upTo: 185111, rate: 0.12 },
+        { upTo: 246813, rate: 0.13 },
+        { upTo: 370220, rate: 0.14 },
+        { upTo: Infinity, rate: 0.15 },
+      ],
+      bpa: 22769,
+      salesTax: 0.05,
+    },
+    manitoba: {
+      brackets: [
+        { upTo: 47000, rate: 0.108 },
+        { upTo: 100000, rate: 0.1275 },
+        { upTo: Infinity, rate: 0.174 },
+      ],
+      bpa: 15780,
+      salesTax: 0.12,
+    },
+    quebec: {
+      brackets: [
+        { upTo: 54345, rate: 0.14 },
+        { upTo: 108680, rate: 0.19 },
+        { upTo: 132245, rate: 0.24 },
+        { upTo: Infinity, rate: 0.2575 },
+      ],
+      bpa: 18952,
+      qpp: { rate: 0.064, baseRate: 0.054, exemption: 3500, ympe: 74600, cpp2Rate: 0.04, yampe: 85000 },
+      eiRate: 0.013,
+      qpip: { rate: 0.0043, maxInsurable: 103000 },
+      workerDeduction: { rate: 0.06, max: 1450 },
+      federalAbatement: 0.165,
+      salesTax: 0.14975,
     },
     cpp: { rate: 0.0595, baseRate: 0.0495, exemption: 3500, ympe: 74600, cpp2Rate: 0.04, yampe: 85000 },
     ei: { rate: 0.0163, mie: 68900 },
-    salesTax: 0.13,
   },
 };
 
-const KNOWN_YEARS = Object.keys(TAX_YEARS).map(Number).sort((a, b) => a - b);
+/** Rates by year: the built-in `TAX_YEARS`, or those with imported years on top. */
+export type TaxTables = Record<number, TaxYearRates>;
+
+const knownYears = (tables: TaxTables) => Object.keys(tables).map(Number).sort((a, b) => a - b);
+
+const KNOWN_YEARS = knownYears(TAX_YEARS);
 export const EARLIEST_TAX_YEAR = KNOWN_YEARS[0];
 export const LATEST_TAX_YEAR = KNOWN_YEARS[KNOWN_YEARS.length - 1];
 
+/** The built-in years with `imported` entries added, replacing any built-in year they share. */
+export const withTaxYears = (imported: TaxYearRates[]): TaxTables =>
+  imported.reduce<TaxTables>((tables, rates) => ({ ...tables, [rates.year]: rates }), { ...TAX_YEARS });
+
+/**
+ * The year whose rates `year` is priced with. Years outside the tables clamp to
+ * the nearest one there is, so old records and future dates still produce a
+ * sensible estimate rather than throwing; the app warns whenever that happens.
+ */
+export function taxTableYear(year: number, tables: TaxTables = TAX_YEARS): number {
+  if (tables[year]) return year;
+  const years = knownYears(tables);
+  const latest = years[years.length - 1];
+  if (!Number.isFinite(year)) return latest;
+  return Math.max(years[0], Math.min(latest, year));
+}
+
+/** Annual rates with every segment in force on `date` applied. */
+function ratesOn(annual: TaxYearRates, date: string): TaxYearRates {
+  const inForce = (annual.segments ?? []).filter(s => s.from <= date);
+  if (inForce.length === 0) return annual;
+  const section = <K extends TaxRateSection>(key: K): TaxYearRates[K] =>
+    Object.assign({}, annual[key], ...inForce.map(s => s[key] ?? {}));
+  const credited = <K extends Exclude<TaxRateSection, "cpp" | "ei">>(key: K): TaxYearRates[K] =>
+    ({ ...section(key), creditRate: annual[key].creditRate ?? lowestRate(annual[key].brackets) });
+  return {
+    ...annual,
+    federal: credited("federal"),
+    ontario: credited("ontario"),
+    britishColumbia: credited("britishColumbia"),
+    alberta: credited("alberta"),
+    manitoba: credited("manitoba"),
+    quebec: credited("quebec"),
+    cpp: section("cpp"),
+    ei: section("ei"),
+  };
+}
+
 /**
- * Rates for a calendar year. Years outside the table clamp to the nearest one we
- * have, so old records and future dates still produce a sensible estimate rather
- * than throwing. Add a new entry each January instead of relying on the clamp.
+ * Rates for a calendar year or a pay date, clamped as `taxTableYear` describes.
+ * A year gives its annual rates, as the return uses them; a pay date
+ * ("YYYY-MM-DD") gives the rates in force for a cheque paid that day. A clamped
+ * date reads the nearest year's segments at the same month and day.
  */
-export function getTaxYearRates(year: number): TaxYearRates {
-  if (TAX_YEARS[year]) return TAX_YEARS[year];
-  if (!Number.isFinite(year)) return TAX_YEARS[LATEST_TAX_YEAR];
-  return TAX_YEARS[Math.max(EARLIEST_TAX_YEAR, Math.min(LATEST_TAX_YEAR, year))];
+export function getTaxYearRates(when: number | string, tables: TaxTables = TAX_YEARS): TaxYearRates {
+  const rates = tables[taxTableYear(typeof when === "number" ? when : Number(when.slice(0, 4)), tables)];
+  return typeof when === "number" ? rates : ratesOn(rates, `${rates.year}${when.slice(4)}`);
 }
 
-/** Sales tax rate (Ontario HST) for a year. Separate from any payroll rate. */
-export const getSalesTaxRate = (year: number) => getTaxYearRates(year).salesTax;
+/** Sales tax rate for a year and province. Separate from any payroll rate. */
+export const getSalesTaxRate = (year: number, province: ProvinceCode = "ON", tables: TaxTables = TAX_YEARS) =>
+  PROVINCES[province].rates(getTaxYearRates(year, tables)).salesTax;
 
 export const lowestRate = (brackets: Bracket[]) => brackets[0].rate;
 
+/** Rate the non-refundable credits are taken at. */
+export const creditRate = (rates: { brackets: Bracket[]; creditRate?: number }) =>
+  rates.creditRate ?? lowestRate(rates.brackets);
+
 /** Marginal tax across a bracket table. */
 export function taxFromBrackets(income: number, brackets: Bracket[]): number {
   if (income <= 0) return 0;
@@ -221,11 +475,52 @@ export function computeCpp(
   return { base, creditPortion, enhancedPortion: base - creditPortion, cpp2, total: base + cpp2 };
 }
 
+/** Who is contributing: a CPT30 election, and whether the plan is Quebec's. */
+export type CppElection = { cpt30?: boolean; quebec?: boolean };
+
+const monthIndex = (date: string) => Number(date.slice(0, 4)) * 12 + Number(date.slice(5, 7)) - 1;
+
+/**
+ * Whether a cheque paid on `payDate` ("YYYY-MM-DD") carries CPP for someone
+ * born on `birthDate`. Contributions start the month after the 18th birthday
+ * and end after the month of the 70th; a CPT30 election, taken to apply from
+ * the earliest month it can, ends them after the month of the 65th. QPP also
+ * waits for 18, but has no CPT30 and no stop at 70; its own choices past 65
+ * are not modelled. Without a birth date every cheque contributes.
+ */
+export function contributesToCpp(payDate: string, birthDate: string | null, { cpt30 = false, quebec = false }: CppElection = {}) {
+  if (!birthDate) return true;
+  const born = monthIndex(birthDate);
+  const month = monthIndex(payDate);
+  if (month <= born + 18 * 12) return false;
+  return quebec || month <= born + (cpt30 ? 65 : 70) * 12;
+}
+
+/** Months of `year` whose cheques carry CPP, 0 to 12. */
+export const cppMonths = (year: number, birthDate: string | null, election: CppElection = {}) =>
+  Array.from({ length: 12 }, (_, m) => `${year}-${String(m + 1).padStart(2, "0")}-01`)
+    .filter(date => contributesToCpp(date, birthDate, election)).length;
+
+/**
+ * The year's rates with the CPP exemption, YMPE and YAMPE, and so both
+ * maximums, prorated to `months` of contributions, as CRA prorates them in the
+ * year someone turns 18 or 70 or elects out.
+ */
+export function prorateCpp(rates: TaxYearRates, months: number): TaxYearRates {
+  if (months >= 12) return rates;
+  const share = months / 12;
+  const { cpp } = rates;
+  return { ...rates, cpp: { ...cpp, exemption: cpp.exemption * share, ympe: cpp.ympe * share, yampe: cpp.yampe * share } };
+}
+
 /* -------------------- EI -------------------- */
 
 export type EiYtd = { insurable: number; premium: number };
 
-/** One pay period's EI premium, capped by remaining insurable-earnings room. */
+/**
+ * One pay period's EI premium, capped by remaining insurable-earnings room.
+ * Unlike CPP, EI has no age limits: premiums come off every cheque at any age.
+ */
 export function computeEi(insurable: number, rates: TaxYearRates, ytd: EiYtd): number {
   if (insurable <= 0) return 0;
   const room = Math.max(0, rates.ei.mie - ytd.insurable);
@@ -233,6 +528,20 @@ export function computeEi(insurable: number, rates: TaxYearRates, ytd: EiYtd): n
   return Math.min(chargeable * rates.ei.rate, Math.max(0, maxEi(rates) - ytd.premium));
 }
 
+/* -------------------- QPIP -------------------- */
+
+export type QpipYtd = { insurable: number; premium: number };
+
+export const maxQpip = (r: TaxYearRates) => r.quebec.qpip.maxInsurable * r.quebec.qpip.rate;
+
+/** One pay period's QPIP premium for a Quebec job, capped like EI. */
+export function computeQpip(insurable: number, rates: TaxYearRates, ytd: QpipYtd): number {
+  if (insurable <= 0) return 0;
+  const room = Math.max(0, rates.quebec.qpip.maxInsurable - ytd.insurable);
+  const chargeable = Math.min(insurable, room);
+  return Math.min(chargeable * rates.quebec.qpip.rate, Math.max(0, maxQpip(rates) - ytd.premium));
+}
+
 /* -------------------- Income tax -------------------- */
 
 export type IncomeTaxInput = {
@@ -242,8 +551,23 @@ export type IncomeTaxInput = {
   annualCppCredit: number;
   annualCppDeduction: number;
   annualEi: number;
+  /** Annualized QPIP premiums; a federal credit only. Quebec jobs alone pay them. */
+  annualQpip?: number;
 };
 
+/**
+ * A job's TD1 forms. A null claim is the basic personal amount, which is what
+ * an employer uses when no TD1 was filed; someone with a second job claims 0.
+ */
+export type TaxClaims = {
+  federal: number | null;
+  provincial: number | null;
+  /** Extra income tax withheld from every cheque, on request. */
+  additionalTax: number;
+};
+
+export const DEFAULT_TAX_CLAIMS: TaxClaims = { federal: null, provincial: null, additionalTax: 0 };
+
 /** Ontario Health Premium on an annual taxable income, T4127 factor V2. */
 export function ontarioHealthPremium(taxable: number, rates: TaxYearRates): number {
   let premium = 0;
@@ -262,34 +586,143 @@ export function ontarioSurtax(ontarioTax: number, rates: TaxYearRates): number {
   );
 }
 
+/** Provincial tax after the TD1 claim and the CPP/EI credits, before any reduction or levy. */
+function basicProvincialTax(taxable: number, credited: number, p: ProvincialRates, claim = p.bpa): number {
+  return Math.max(0, taxFromBrackets(taxable, p.brackets) - creditRate(p) * (claim + credited));
+}
+
 /**
- * Annual federal + Ontario tax on an annualized income, T4127 shape.
+ * One province's income tax. `taxable` is annual taxable income after the CPP
+ * deduction; `credited` is the annual CPP and EI amounts that earn a credit;
+ * `claim` is the TD1 total claim amount, the province's BPA when absent.
+ */
+export type ProvinceModel = {
+  name: string;
+  rates: (r: TaxYearRates) => ProvincialRates;
+  tax: (taxable: number, credited: number, r: TaxYearRates, claim?: number) => number;
+  /** The year's rates with the province's own pension and EI figures swapped in. */
+  payrollRates?: (r: TaxYearRates) => TaxYearRates;
+  /** Share of basic federal tax the province's residents are refunded. */
+  federalAbatement?: (r: TaxYearRates) => number;
+};
+
+export const PROVINCES: Record<ProvinceCode, ProvinceModel> = {
+  ON: {
+    name: "Ontario",
+    rates: r => r.ontario,
+    tax: (taxable, credited, r, claim) => {
+      const basic = basicProvincialTax(taxable, credited, r.ontario, claim);
+      const withSurtax = basic + ontarioSurtax(basic, r);
+      // Ontario tax reduction: wipes the tax out entirely below the personal amount,
+      // then claws back linearly until it is gone at twice that amount.
+      const reduction = Math.max(0, Math.min(withSurtax, 2 * r.ontario.taxReduction - withSurtax));
+      // The health premium is added after the reduction; the reduction cannot offset it.
+      return Math.max(0, withSurtax - reduction) + ontarioHealthPremium(taxable, r);
+    },
+  },
+  BC: {
+    name: "British Columbia",
+    rates: r => r.britishColumbia,
+    tax: (taxable, credited, r, claim) => {
+      const basic = basicProvincialTax(taxable, credited, r.britishColumbia, claim);
+      const { base, threshold, rate } = r.britishColumbia.taxReduction;
+      const reduction = Math.max(0, base - Math.max(0, taxable - threshold) * rate);
+      return Math.max(0, basic - reduction);
+    },
+  },
+  AB: {
+    name: "Alberta",
+    rates: r => r.alberta,
+    tax: (taxable, credited, r, claim) => basicProvincialTax(taxable, credited, r.alberta, claim),
+  },
+  MB: {
+    name: "Manitoba",
+    rates: r => r.manitoba,
+    tax: (taxable, credited, r, claim) => basicProvincialTax(taxable, credited, r.manitoba, claim),
+  },
+  QC: {
+    name: "Quebec",
+    rates: r => r.quebec,
+    // Quebec gives no credit for QPP, EI or QPIP; the deduction for workers
+    // takes its place.
+    tax: (taxable, _credited, r, claim) => {
+      const { rate, max } = r.quebec.workerDeduction;
+      const net = Math.max(0, taxable - Math.min(taxable * rate, max));
+      return basicProvincialTax(net, 0, r.quebec, claim);
+    },
+    payrollRates: quebecPayrollRates,
+    federalAbatement: r => r.quebec.federalAbatement,
+  },
+};
+
+/** QPP in place of CPP and the reduced EI rate, so `computeCpp` and `computeEi` work unchanged. */
+export function quebecPayrollRates(r: TaxYearRates): TaxYearRates {
+  return { ...r, cpp: r.quebec.qpp, ei: { ...r.ei, rate: r.quebec.eiRate } };
+}
+
+export const PROVINCE_CODES = Object.keys(PROVINCES) as ProvinceCode[];
+
+export const isProvinceCode = (value: unknown): value is ProvinceCode =>
+  typeof value === "string" && value in PROVINCES;
+
+/**
+ * Annual federal + provincial tax on an annualized income, T4127 shape.
  *
  * The enhanced portion of CPP and all of CPP2 reduce taxable income (a
  * deduction); the pre-enhancement portion and EI give credits at each
- * jurisdiction's lowest rate.
+ * jurisdiction's credit rate, its lowest rate unless a mid-year change pinned it.
  */
-export function computeIncomeTax(input: IncomeTaxInput, rates: TaxYearRates) {
-  const { federal, ontario } = rates;
+export function computeIncomeTax(
+  input: IncomeTaxInput,
+  rates: TaxYearRates,
+  province: ProvinceCode = "ON",
+  claims: TaxClaims = DEFAULT_TAX_CLAIMS
+) {
+  const { federal } = rates;
   const taxable = Math.max(0, input.annualTaxable - input.annualCppDeduction);
   const credited = input.annualCppCredit + input.annualEi;
+  const model = PROVINCES[province];
 
-  const fedLowest = lowestRate(federal.brackets);
   const federalCredits =
-    fedLowest * (federal.bpa + credited + Math.min(taxable, federal.canadaEmploymentAmount));
-  const federalTax = Math.max(0, taxFromBrackets(taxable, federal.brackets) - federalCredits);
+    creditRate(federal) *
+    ((claims.federal ?? federal.bpa) + credited + (input.annualQpip || 0) + Math.min(taxable, federal.canadaEmploymentAmount));
+  const basicFederal = Math.max(0, taxFromBrackets(taxable, federal.brackets) - federalCredits);
+  const federalTax = basicFederal * (1 - (model.federalAbatement?.(rates) ?? 0));
+
+  const provincialTax = model.tax(taxable, credited, rates, claims.provincial ?? undefined);
 
-  const ontLowest = lowestRate(ontario.brackets);
-  const ontarioBasic = Math.max(
+  return { federal: federalTax, provincial: provincialTax, total: federalTax + provincialTax };
+}
+
+/** Two incomes and their credits together. */
+export const addTaxInputs = (a: IncomeTaxInput, b: IncomeTaxInput): IncomeTaxInput => ({
+  annualTaxable: a.annualTaxable + b.annualTaxable,
+  annualCppCredit: a.annualCppCredit + b.annualCppCredit,
+  annualCppDeduction: a.annualCppDeduction + b.annualCppDeduction,
+  annualEi: a.annualEi + b.annualEi,
+  annualQpip: (a.annualQpip || 0) + (b.annualQpip || 0),
+});
+
+/**
+ * Tax on a lump sum (banked vacation pay, a bonus, retroactive pay), T4127
+ * bonus method: annual tax with the lump sum added once, less annual tax
+ * without it. Annualizing a lump sum with the regular pay would push it into a
+ * far higher bracket than it belongs in.
+ *
+ * `lumpSum` carries the lump sum and its own share of CPP and EI, none of them
+ * annualized.
+ */
+export function computeLumpSumTax(
+  regular: IncomeTaxInput,
+  lumpSum: IncomeTaxInput,
+  rates: TaxYearRates,
+  province: ProvinceCode = "ON",
+  claims: TaxClaims = DEFAULT_TAX_CLAIMS
+): number {
+  if (lumpSum.annualTaxable <= 0) return 0;
+  const combined = addTaxInputs(regular, lumpSum);
+  return Math.max(
     0,
-    taxFromBrackets(taxable, ontario.brackets) - ontLowest * (ontario.bpa + credited)
+    computeIncomeTax(combined, rates, province, claims).total - computeIncomeTax(regular, rates, province, claims).total
   );
-  const withSurtax = ontarioBasic + ontarioSurtax(ontarioBasic, rates);
-  // Ontario tax reduction: wipes the tax out entirely below the personal amount,
-  // then claws back linearly until it is gone at twice that amount.
-  const reduction = Math.max(0, Math.min(withSurtax, 2 * ontario.taxReduction - withSurtax));
-  // The health premium is added after the reduction; the reduction cannot offset it.
-  const ontarioTax = Math.max(0, withSurtax - reduction) + ontarioHealthPremium(taxable, rates);
-
-  return { federal: federalTax, ontario: ontarioTax, total: federalTax + ontarioTax };
 }
@@ -0,0 +1,126 @@
+import { DayHours, JobCalcInput, computeJobDays } from './calc';
+import { TAX_YEARS } from './tax';
+import { canadaWorkersBenefit, estimateTaxReturn, getTaxYears, ontarioLift } from './taxReturn';
+
+const y2026 = TAX_YEARS[2026];
+
+/** `hours` a day, Monday to Friday, every week of the given months of 2026. */
+const weekdays = (hours: number, fromMonth = 0, toMonth = 11): DayHours[] => {
+  const out: DayHours[] = [];
+  for (let d = new Date(2026, fromMonth, 1); d <= new Date(2026, toMonth + 1, 0); d.setDate(d.getDate() + 1)) {
+    if (d.getDay() === 0 || d.getDay() === 6) continue;
+    const ymd = `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+    out.push({ date: ymd, hours });
+  }
+  return out;
+};
+
+const job = (id: string, hourlyRate: number, dayHours: DayHours[], over: Partial<JobCalcInput> = {}): JobCalcInput =>
+  ({ id, name: id, hourlyRate, startDate: '2026-01-01', dayHours, ...over });
+
+describe('credits claimed on the return', () => {
+  test('LIFT is 5.05% of employment income up to $875, phased out above $32,500', () => {
+    expect(ontarioLift(10000, 10000, y2026)).toBeCloseTo(505, 6);
+    expect(ontarioLift(20000, 20000, y2026)).toBe(875);
+    // 875 - (40000 - 32500) * 5%
+    expect(ontarioLift(40000, 40000, y2026)).toBeCloseTo(500, 6);
+    expect(ontarioLift(60000, 60000, y2026)).toBe(0);
+  });
+
+  test('the CWB phases in above $3,000 and out above its threshold', () => {
+    expect(canadaWorkersBenefit(2000, 2000, y2026)).toBe(0);
+    expect(canadaWorkersBenefit(5000, 5000, y2026)).toBeCloseTo(540, 6);
+    expect(canadaWorkersBenefit(10000, 10000, y2026)).toBe(1666);
+    // 1666 - (30000 - 27392) * 15%
+    expect(canadaWorkersBenefit(30000, 30000, y2026)).toBeCloseTo(1274.8, 6);
+    expect(canadaWorkersBenefit(50000, 50000, y2026)).toBe(0);
+  });
+});
+
+describe('estimateTaxReturn', () => {
+  test('lists the years with pay in them', () => {
+    const days = computeJobDays(job('a', 20, [{ date: '2025-12-01', hours: 8 }, { date: '2026-03-02', hours: 8 }]));
+    expect(getTaxYears(days)).toEqual([2025, 2026]);
+  });
+
+  test('only counts pay dated in the year', () => {
+    const days = computeJobDays(job('a', 20, [{ date: '2025-12-01', hours: 8 }, { date: '2026-03-02', hours: 8 }]));
+    expect(estimateTaxReturn(days, 2026, 'ON').employmentIncome).toBe(166.4);
+  });
+
+  test('a part-time low earner gets the CWB back as a refund', () => {
+    const days = computeJobDays(job('a', 18, weekdays(4, 0, 5)));
+    const estimate = estimateTaxReturn(days, 2026, 'ON');
+    expect(estimate.federalTax).toBe(0);
+    expect(estimate.provincialTax).toBe(0);
+    expect(estimate.cwb).toBeGreaterThan(0);
+    expect(estimate.balance).toBeCloseTo(estimate.withheld + estimate.cwb, 2);
+  });
+
+  test('LIFT wipes out Ontario tax for a modest full-time income', () => {
+    const days = computeJobDays(job('a', 17.6, weekdays(5)));
+    const estimate = estimateTaxReturn(days, 2026, 'ON');
+    expect(estimate.lift).toBeGreaterThan(0);
+    expect(estimate.withheld).toBeGreaterThan(estimate.netTax);
+    expect(estimate.balance).toBeGreaterThan(0);
+  });
+
+  test('two jobs that each claim the BPA end up owing', () => {
+    const days = [
+      ...computeJobDays(job('a', 30, weekdays(7))),
+      ...computeJobDays(job('b', 30, weekdays(4))),
+    ];
+    const estimate = estimateTaxReturn(days, 2026, 'ON');
+    expect(estimate.lift).toBe(0);
+    expect(estimate.cwb).toBe(0);
+    expect(estimate.balance).toBeLessThan(0);
+  });
+
+  test('a second job claiming $0 closes most of the gap', () => {
+    const first = computeJobDays(job('a', 30, weekdays(7)));
+    const both = estimateTaxReturn([...first, ...computeJobDays(job('b', 30, weekdays(4)))], 2026, 'ON');
+    const claimed = estimateTaxReturn([
+      ...first,
+      ...computeJobDays(job('b', 30, weekdays(4), { taxClaims: { federal: 0, provincial: 0, additionalTax: 0 } })),
+    ], 2026, 'ON');
+    expect(Math.abs(claimed.balance)).toBeLessThan(Math.abs(both.balance));
+  });
+
+  test('pre-tax deductions are deducted on the return as well', () => {
+    const plain = estimateTaxReturn(computeJobDays(job('a', 30, weekdays(8))), 2026, 'ON');
+    const rpp = estimateTaxReturn(computeJobDays(job('a', 30, weekdays(8), {
+      deductions: [{ id: 1, name: 'Pension', kind: 'percent', amount: 0.05, preTax: true }],
+    })), 2026, 'ON');
+    expect(rpp.employmentIncome).toBe(plain.employmentIncome);
+    expect(rpp.deductions).toBeCloseTo(plain.employmentIncome * 0.05, 0);
+    expect(rpp.federalTax).toBeLessThan(plain.federalTax);
+    // withholding already allowed for the deduction, so the balance barely moves
+    expect(Math.abs(rpp.balance - plain.balance)).toBeLessThan(50);
+  });
+
+  test('cash tips count as income even though nothing was withheld on them', () => {
+    const hours = weekdays(8, 0, 0);
+    const tipped = hours.map(d => ({ ...d, extras: [{ id: 1, type: 'tips-cash' as const, amount: 50 }] }));
+    const plain = estimateTaxReturn(computeJobDays(job('a', 20, hours)), 2026, 'ON');
+    const estimate = estimateTaxReturn(computeJobDays(job('a', 20, tipped)), 2026, 'ON');
+    expect(estimate.employmentIncome).toBeCloseTo(plain.employmentIncome + 50 * hours.length, 2);
+    expect(estimate.withheld).toBe(plain.withheld);
+  });
+
+  test('no CPP credit for a year spent under 18, and the return agrees with the cheques', () => {
+    const young = '2009-12-15';
+    const adult = estimateTaxReturn(computeJobDays(job('a', 30, weekdays(8))), 2026, 'ON');
+    const teen = estimateTaxReturn(computeJobDays(job('a', 30, weekdays(8)), undefined, young), 2026, 'ON', undefined, young);
+    expect(teen.federalTax).toBeGreaterThan(adult.federalTax);
+    expect(Math.abs(teen.balance)).toBeLessThan(50);
+  });
+
+  test('is filed in the province given', () => {
+    const days = computeJobDays(job('a', 30, weekdays(8)));
+    const on = estimateTaxReturn(days, 2026, 'ON');
+    const ab = estimateTaxReturn(days, 2026, 'AB');
+    expect(ab.province).toBe('AB');
+    expect(ab.lift).toBe(0);
+    expect(ab.provincialTax).not.toBe(on.provincialTax);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Year-end tax return estimate: what a calendar year's income actually owes
+ * once every job is added together and the credits claimed only on the return
+ * are applied, compared with what the employers withheld.
+ *
+ * Each employer withholds as if it were the only one, so two jobs each give
+ * the full basic personal amount and the combined income lands in a higher
+ * bracket than either cheque suggests: the usual way a second job ends in a
+ * balance owing. Low earners go the other way, with LIFT and the Canada Workers
+ * Benefit turning withholding into a refund.
+ *
+ * A single filer with employment income only. CPP and EI count on the return
+ * only up to the year's maximums; anything contributed past them is refunded
+ * separately and is not part of this balance. Quebec's own CWB parameters are
+ * not modelled. With a date of birth, CPP counts only the pay of the months it
+ * is owed for, against prorated maximums; a CPT30 election is per employer and
+ * is left out.
+ */
+
+import { DetailedDay, round2 } from "./calc";
+import {
+  PROVINCES,
+  ProvinceCode,
+  TAX_YEARS,
+  TaxTables,
+  TaxYearRates,
+  computeCpp,
+  contributesToCpp,
+  cppMonths,
+  computeEi,
+  computeIncomeTax,
+  computeQpip,
+  getTaxYearRates,
+  ontarioHealthPremium,
+  prorateCpp,
+} from "./tax";
+
+export type TaxReturnEstimate = {
+  year: number;
+  province: ProvinceCode;
+  /** T4 employment income from every job, by pay date, plus cash tips. */
+  employmentIncome: number;
+  /** Pension, RRSP and union dues taken at source, deducted again on the return. */
+  deductions: number;
+  federalTax: number;
+  /** Provincial tax after LIFT. */
+  provincialTax: number;
+  /** The part of the LIFT credit actually used; it cannot go below zero tax. */
+  lift: number;
+  cwb: number;
+  /** Federal and provincial tax less the CWB; negative when the CWB is larger. */
+  netTax: number;
+  withheld: number;
+  /** Withheld less net tax: a refund when positive, a balance owing when negative. */
+  balance: number;
+};
+
+/** Ontario LIFT credit before it is limited to the Ontario tax it offsets. */
+export function ontarioLift(employmentIncome: number, netIncome: number, rates: TaxYearRates): number {
+  const { rate, max, phaseOutThreshold, phaseOutRate } = rates.ontario.lift;
+  const credit = Math.min(max, employmentIncome * rate);
+  return Math.max(0, credit - Math.max(0, netIncome - phaseOutThreshold) * phaseOutRate);
+}
+
+/** Canada Workers Benefit, refundable: paid even when no tax is owed. */
+export function canadaWorkersBenefit(workingIncome: number, netIncome: number, rates: TaxYearRates): number {
+  const { rate, floor, max, phaseOutThreshold, phaseOutRate } = rates.federal.cwb;
+  const benefit = Math.min(max, Math.max(0, workingIncome - floor) * rate);
+  return Math.max(0, benefit - Math.max(0, netIncome - phaseOutThreshold) * phaseOutRate);
+}
+
+/** Calendar years with any pay in them, oldest first. */
+export const getTaxYears = (days: DetailedDay[]) =>
+  Array.from(new Set(days.map(d => d.taxYear))).sort((a, b) => a - b);
+
+/**
+ * Estimate the return for `year` from every job's priced days. The province is
+ * the filer's province of residence on December 31.
+ */
+export function estimateTaxReturn(
+  days: DetailedDay[],
+  year: number,
+  province: ProvinceCode,
+  taxTables: TaxTables = TAX_YEARS,
+  birthDate: string | null = null
+): TaxReturnEstimate {
+  const inYear = days.filter(d => d.taxYear === year);
+  const t4Income = inYear.reduce((sum, d) => sum + d.taxableEarnings, 0);
+  // cash tips are never on the T4 but are still employment income
+  const income = t4Income + inYear.reduce((sum, d) => sum + d.cashTips, 0);
+  const withheld = inYear.reduce((sum, d) => sum + d.incomeTax, 0);
+  const deductions = inYear.reduce((sum, d) => sum + d.preTaxDeductions, 0);
+  const taxable = Math.max(0, income - deductions);
+
+  const rates = getTaxYearRates(year, taxTables);
+  const model = PROVINCES[province];
+  const payrollRates = model.payrollRates?.(rates) ?? rates;
+  // Contributions as one employer would have taken them on the whole year.
+  const noYtd = { pensionable: 0, base: 0, cpp2: 0 };
+  const quebec = { quebec: province === "QC" };
+  const pensionable = inYear
+    .filter(d => contributesToCpp(d.payDate, birthDate, quebec))
+    .reduce((sum, d) => sum + d.taxableEarnings, 0);
+  const cppRates = prorateCpp(payrollRates, cppMonths(year, birthDate, quebec));
+  const cpp = computeCpp(pensionable, cppRates.cpp.exemption, cppRates, noYtd);
+  const ei = computeEi(t4Income, payrollRates, { insurable: 0, premium: 0 });
+  const qpip = province === "QC" ? computeQpip(t4Income, rates, { insurable: 0, premium: 0 }) : 0;
+
+  const cppDeduction = cpp.enhancedPortion + cpp.cpp2;
+  const tax = computeIncomeTax(
+    { annualTaxable: taxable, annualCppCredit: cpp.creditPortion, annualCppDeduction: cppDeduction, annualEi: ei, annualQpip: qpip },
+    rates,
+    province
+  );
+  const netIncome = Math.max(0, taxable - cppDeduction);
+
+  let provincialTax = tax.provincial;
+  let lift = 0;
+  if (province === "ON") {
+    // LIFT offsets Ontario tax but not the health premium.
+    const offsettable = Math.max(0, provincialTax - ontarioHealthPremium(netIncome, rates));
+    lift = Math.min(ontarioLift(income, netIncome, rates), offsettable);
+    provincialTax -= lift;
+  }
+  const cwb = canadaWorkersBenefit(income, netIncome, rates);
+  const netTax = tax.federal + provincialTax - cwb;
+
+  return {
+    year,
+    province,
+    employmentIncome: round2(income),
+    deductions: round2(deductions),
+    federalTax: round2(tax.federal),
+    provincialTax: round2(provincialTax),
+    lift: round2(lift),
+    cwb: round2(cwb),
+    netTax: round2(netTax),
+    withheld: round2(withheld),
+    balance: round2(withheld - netTax),
+  };
+}
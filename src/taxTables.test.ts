@@ -0,0 +1,99 @@
+import { TAX_YEARS } from './tax';
+import { parseTaxTables, readTaxYearRates, taxTablesToJson } from './taxTables';
+
+/** The 2026 table as a file would carry it, as 2027, with each dotted path in `edits` set; undefined deletes it. */
+const entry = (edits: Record<string, unknown> = {}) => {
+  const e: Record<string, unknown> = JSON.parse(JSON.stringify({ ...TAX_YEARS[2026], year: 2027 }));
+  Object.entries(edits).forEach(([path, value]) => {
+    const keys = path.split('.');
+    const last = keys.pop() as string;
+    const parent = keys.reduce((at, key) => at[key] as Record<string, unknown>, e);
+    if (value === undefined) delete parent[last];
+    else parent[last] = value;
+  });
+  return e;
+};
+
+describe('parseTaxTables', () => {
+  test('reads back its own export, top brackets unbounded again', () => {
+    const { years, issues } = parseTaxTables(taxTablesToJson(TAX_YEARS));
+    expect(issues).toEqual([]);
+    expect(years).toEqual([TAX_YEARS[2025], TAX_YEARS[2026]]);
+    expect(years[1].federal.brackets[4].upTo).toBe(Infinity);
+  });
+
+  test('takes a single entry, and "Infinity" for the top bracket', () => {
+    const { years } = parseTaxTables(JSON.stringify(entry({ 'alberta.brackets.5.upTo': 'Infinity' })));
+    expect(years.map(y => y.year)).toEqual([2027]);
+    expect(years[0].alberta.brackets[5].upTo).toBe(Infinity);
+  });
+
+  test('brackets must rise, end unbounded, and carry rates from 0 to 1', () => {
+    const { years, issues } = parseTaxTables(JSON.stringify([entry({
+      'federal.brackets.2.upTo': 100000,
+      'ontario.brackets.4.upTo': 500000,
+      'manitoba.brackets.1.upTo': null,
+      'cpp.rate': 5.95,
+    })]));
+    expect(years).toEqual([]);
+    expect(issues).toEqual([
+      { path: '2027 federal.brackets[2].upTo', problem: 'ascending' },
+      { path: '2027 ontario.brackets[4].upTo', problem: 'top' },
+      { path: '2027 manitoba.brackets[1].upTo', problem: 'top' },
+      { path: '2027 cpp.rate', problem: 'rate' },
+    ]);
+  });
+
+  test('every field is required', () => {
+    const { issues } = parseTaxTables(JSON.stringify(entry({
+      'quebec.qpip': undefined,
+      'ei.mie': undefined,
+      'britishColumbia.bpa': -1,
+    })));
+    expect(issues).toEqual([
+      { path: '2027 britishColumbia.bpa', problem: 'amount' },
+      { path: '2027 quebec.qpip', problem: 'object' },
+      { path: '2027 ei.mie', problem: 'amount' },
+    ]);
+  });
+
+  test('a bad file, year or repeated year loads nothing', () => {
+    expect(parseTaxTables('{ "year": 2027,').issues).toEqual([{ path: '', problem: 'json' }]);
+    expect(parseTaxTables('[]').issues).toEqual([{ path: '', problem: 'object' }]);
+    expect(parseTaxTables(JSON.stringify([entry(), entry({ year: '2028' })])).issues)
+      .toEqual([{ path: '#2 year', problem: 'year' }]);
+    const twice = parseTaxTables(JSON.stringify([entry(), entry()]));
+    expect(twice).toEqual({ years: [], issues: [{ path: '2027', problem: 'duplicate' }] });
+  });
+});
+
+describe('segments', () => {
+  test('read back with unbounded top brackets', () => {
+    const { years } = parseTaxTables(taxTablesToJson({ 2025: TAX_YEARS[2025] }));
+    expect(years[0].segments).toEqual(TAX_YEARS[2025].segments);
+  });
+
+  test('dates rise inside the year and given fields are checked', () => {
+    const { issues } = parseTaxTables(JSON.stringify(entry({ segments: [
+      { from: '2027-07-01', cpp: { rate: 0.06 } },
+      { from: '2027-03-01', ei: { rate: 1.5 } },
+      { from: '2028-01-01', federal: 'cut' },
+    ] })));
+    expect(issues).toEqual([
+      { path: '2027 segments[1].from', problem: 'from' },
+      { path: '2027 segments[1].ei.rate', problem: 'rate' },
+      { path: '2027 segments[2].from', problem: 'from' },
+      { path: '2027 segments[2].federal', problem: 'object' },
+    ]);
+    expect(parseTaxTables(JSON.stringify(entry({ segments: {} }))).issues)
+      .toEqual([{ path: '2027 segments', problem: 'segments' }]);
+  });
+});
+
+describe('readTaxYearRates', () => {
+  test('health premium bands rise', () => {
+    const { rates, issues } = readTaxYearRates(entry({ 'ontario.healthPremium.2.over': 30000 }));
+    expect(rates).toBeNull();
+    expect(issues).toEqual([{ path: '2027 ontario.healthPremium[2].over', problem: 'ascending' }]);
+  });
+});
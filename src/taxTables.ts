@@ -0,0 +1,209 @@
+/**
+ * Tax tables as JSON, so a new year's rates can be loaded into the app the day
+ * CRA publishes them instead of waiting for a new build.
+ *
+ * A file holds one `TaxYearRates` entry or an array of them, written exactly as
+ * the entries of `TAX_YEARS` in `tax.ts` are, field for field:
+ *
+ *   [{ "year": 2027,
+ *      "federal": { "brackets": [{ "upTo": …, "rate": … }, …, { "upTo": null, "rate": … }],
+ *                   "bpa": …, "canadaEmploymentAmount": …, "cwb": { … } },
+ *      "ontario": { … }, "britishColumbia": { … }, "alberta": { … }, "manitoba": { … },
+ *      "quebec": { … }, "cpp": { … }, "ei": { "rate": …, "mie": … } }]
+ *
+ * Every field is required. Amounts are dollars, never negative; rates are
+ * fractions from 0 to 1. Brackets rise strictly and the top one is unbounded:
+ * JSON has no Infinity, so its `upTo` is `null` (or the string "Infinity").
+ * Exporting the tables writes this same format, the easiest start for a new year.
+ *
+ * An entry may also carry `segments`, changes taking effect part way through
+ * the year (see `TaxRateSegment`), each with a `from` date inside the year, in
+ * rising order, and only the fields that change:
+ *
+ *   "segments": [{ "from": "2027-07-01", "cpp": { "rate": … } }]
+ */
+
+import { TAX_RATE_SECTIONS, TaxTables, TaxYearRates } from "./tax";
+
+/** Earliest and latest years a table may be for. */
+export const TAX_TABLE_YEAR_RANGE = { min: 2000, max: 2100 };
+
+export type TaxTableProblem =
+  | "json" | "object" | "year" | "duplicate" | "amount" | "rate" | "brackets" | "ascending" | "top" | "bands"
+  | "segments" | "from";
+
+/** What is wrong in an entry, and where: "2027 federal.brackets[4].upTo". */
+export type TaxTableIssue = { path: string; problem: TaxTableProblem };
+
+type Field = "amount" | "rate" | "brackets" | "bands" | { [key: string]: Field };
+
+const PROVINCIAL: Record<string, Field> = { brackets: "brackets", bpa: "amount", salesTax: "rate" };
+const PENSION: Field = {
+  rate: "rate", baseRate: "rate", exemption: "amount", ympe: "amount", cpp2Rate: "rate", yampe: "amount",
+};
+
+/** The shape of a `TaxYearRates` entry, `year` and `segments` aside. */
+const SCHEMA: Record<typeof TAX_RATE_SECTIONS[number], { [key: string]: Field }> = {
+  federal: {
+    brackets: "brackets",
+    bpa: "amount",
+    canadaEmploymentAmount: "amount",
+    cwb: { rate: "rate", floor: "amount", max: "amount", phaseOutThreshold: "amount", phaseOutRate: "rate" },
+  },
+  ontario: {
+    ...PROVINCIAL,
+    surtax: { threshold1: "amount", rate1: "rate", threshold2: "amount", rate2: "rate" },
+    taxReduction: "amount",
+    healthPremium: "bands",
+    lift: { rate: "rate", max: "amount", phaseOutThreshold: "amount", phaseOutRate: "rate" },
+  },
+  britishColumbia: { ...PROVINCIAL, taxReduction: { base: "amount", threshold: "amount", rate: "rate" } },
+  alberta: PROVINCIAL,
+  manitoba: PROVINCIAL,
+  quebec: {
+    ...PROVINCIAL,
+    qpp: PENSION,
+    eiRate: "rate",
+    qpip: { rate: "rate", maxInsurable: "amount" },
+    workerDeduction: { rate: "rate", max: "amount" },
+    federalAbatement: "rate",
+  },
+  cpp: PENSION,
+  ei: { rate: "rate", mie: "amount" },
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isAmount = (value: unknown): value is number => typeof value === "number" && Number.isFinite(value) && value >= 0;
+const isRate = (value: unknown): value is number => isAmount(value) && value <= 1;
+
+/** A bracket list with the top bracket's `upTo` read back as Infinity, or an issue. */
+function readBrackets(raw: unknown, path: string, issues: TaxTableIssue[]): unknown {
+  if (!Array.isArray(raw) || raw.length === 0 || !raw.every(isRecord)) {
+    issues.push({ path, problem: "brackets" });
+    return raw;
+  }
+  const brackets = raw.map((b, i) => {
+    const top = i === raw.length - 1;
+    const unbounded = b.upTo === null || b.upTo === "Infinity" || b.upTo === Infinity;
+    if (!isRate(b.rate)) issues.push({ path: `${path}[${i}].rate`, problem: "rate" });
+    if (top !== unbounded) issues.push({ path: `${path}[${i}].upTo`, problem: "top" });
+    else if (!top && !(isAmount(b.upTo) && b.upTo > 0)) issues.push({ path: `${path}[${i}].upTo`, problem: "amount" });
+    return { upTo: unbounded ? Infinity : b.upTo, rate: b.rate };
+  });
+  brackets.slice(1, -1).forEach((b, i) => {
+    if ((b.upTo as number) <= (brackets[i].upTo as number)) issues.push({ path: `${path}[${i + 1}].upTo`, problem: "ascending" });
+  });
+  return brackets;
+}
+
+/** Health premium bands: each `over` above the last, with amounts and a rate. */
+function checkBands(raw: unknown, path: string, issues: TaxTableIssue[]) {
+  if (!Array.isArray(raw) || !raw.every(isRecord)) {
+    issues.push({ path, problem: "bands" });
+    return;
+  }
+  raw.forEach((band, i) => {
+    (["over", "base", "cap"] as const).forEach(key => {
+      if (!isAmount(band[key])) issues.push({ path: `${path}[${i}].${key}`, problem: "amount" });
+    });
+    if (!isRate(band.rate)) issues.push({ path: `${path}[${i}].rate`, problem: "rate" });
+    if (i > 0 && isAmount(band.over) && isAmount(raw[i - 1].over) && band.over <= (raw[i - 1].over as number)) {
+      issues.push({ path: `${path}[${i}].over`, problem: "ascending" });
+    }
+  });
+}
+
+function readField(raw: unknown, field: Field, path: string, issues: TaxTableIssue[]): unknown {
+  if (field === "amount" || field === "rate") {
+    if (!(field === "amount" ? isAmount : isRate)(raw)) issues.push({ path, problem: field });
+    return raw;
+  }
+  if (field === "brackets") return readBrackets(raw, path, issues);
+  if (field === "bands") {
+    checkBands(raw, path, issues);
+    return raw;
+  }
+  if (!isRecord(raw)) {
+    issues.push({ path, problem: "object" });
+    return raw;
+  }
+  return Object.fromEntries(Object.entries(field).map(([key, sub]) => [key, readField(raw[key], sub, `${path}.${key}`, issues)]));
+}
+
+const isDateIn = (value: unknown, year: number): value is string =>
+  typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) && value.startsWith(`${year}-`)
+  && !isNaN(Date.parse(value)) && new Date(`${value}T00:00:00Z`).toISOString().startsWith(value);
+
+/** Mid-year segments: dates rising inside the year, and any field given checked like the entry's own. */
+function readSegments(raw: unknown, year: number, issues: TaxTableIssue[]): unknown {
+  const path = `${year} segments`;
+  if (!Array.isArray(raw) || !raw.every(isRecord)) {
+    issues.push({ path, problem: "segments" });
+    return raw;
+  }
+  return raw.map((segment, i) => {
+    if (!isDateIn(segment.from, year) || (i > 0 && !(segment.from > String(raw[i - 1].from)))) {
+      issues.push({ path: `${path}[${i}].from`, problem: "from" });
+    }
+    const changes = TAX_RATE_SECTIONS.filter(key => segment[key] !== undefined).map(key => {
+      const at = `${path}[${i}].${key}`;
+      const changed = segment[key];
+      if (!isRecord(changed)) {
+        issues.push({ path: at, problem: "object" });
+        return [key, changed];
+      }
+      const fields = Object.entries(SCHEMA[key]).filter(([field]) => changed[field] !== undefined);
+      return [key, Object.fromEntries(fields.map(([field, shape]) => [field, readField(changed[field], shape, `${at}.${field}`, issues)]))];
+    });
+    return { from: segment.from, ...Object.fromEntries(changes) };
+  });
+}
+
+/**
+ * One entry checked against the schema. Issues are prefixed with the entry's
+ * year, or its position in the file when the year itself is bad.
+ */
+export function readTaxYearRates(raw: unknown, position = 1): { rates: TaxYearRates | null; issues: TaxTableIssue[] } {
+  if (!isRecord(raw)) return { rates: null, issues: [{ path: `#${position}`, problem: "object" }] };
+  const { min, max } = TAX_TABLE_YEAR_RANGE;
+  if (!(Number.isInteger(raw.year) && (raw.year as number) >= min && (raw.year as number) <= max)) {
+    return { rates: null, issues: [{ path: `#${position} year`, problem: "year" }] };
+  }
+  const issues: TaxTableIssue[] = [];
+  const read = Object.fromEntries(
+    Object.entries(SCHEMA).map(([key, field]) => [key, readField(raw[key], field, `${raw.year} ${key}`, issues)])
+  );
+  if (raw.segments !== undefined) read.segments = readSegments(raw.segments, raw.year as number, issues);
+  return issues.length ? { rates: null, issues } : { rates: { ...read, year: raw.year } as TaxYearRates, issues };
+}
+
+/**
+ * Every entry of a tax-table file, in file order, and what is wrong with it.
+ * A file with any issue loads nothing, so a half-typed year is never used.
+ */
+export function parseTaxTables(text: string): { years: TaxYearRates[]; issues: TaxTableIssue[] } {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { years: [], issues: [{ path: "", problem: "json" }] };
+  }
+  const entries = Array.isArray(raw) ? raw : [raw];
+  if (entries.length === 0) return { years: [], issues: [{ path: "", problem: "object" }] };
+  const issues: TaxTableIssue[] = [];
+  const years: TaxYearRates[] = [];
+  entries.forEach((entry, i) => {
+    const read = readTaxYearRates(entry, i + 1);
+    issues.push(...read.issues);
+    if (!read.rates) return;
+    if (years.some(y => y.year === read.rates?.year)) issues.push({ path: `${read.rates.year}`, problem: "duplicate" });
+    years.push(read.rates);
+  });
+  return issues.length ? { years: [], issues } : { years, issues };
+}
+
+/** The tables in the file format, oldest year first; `null` stands for each top bracket's Infinity. */
+export const taxTablesToJson = (tables: TaxTables) =>
+  JSON.stringify(Object.values(tables).sort((a, b) => a.year - b.year), null, 2);
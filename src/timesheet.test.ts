@@ -0,0 +1,141 @@
+import { DayHours } from './calc';
+import {
+  guessDateFormat,
+  guessTimesheetMapping,
+  mergeTimesheet,
+  parseTimesheet,
+  parseTimesheetBreak,
+  parseTimesheetDate,
+  parseTimesheetHours,
+  parseTimesheetTime,
+} from './timesheet';
+
+describe('reading cells', () => {
+  test('dates in the chosen format, with or without leading zeros', () => {
+    expect(parseTimesheetDate('2026-01-02', 'YYYY-MM-DD')).toBe('2026-01-02');
+    expect(parseTimesheetDate('1/2/2026', 'MM/DD/YYYY')).toBe('2026-01-02');
+    expect(parseTimesheetDate('1/2/2026', 'DD/MM/YYYY')).toBe('2026-02-01');
+    expect(parseTimesheetDate('Jan 2, 2026', 'MMM DD, YYYY')).toBe('2026-01-02');
+    expect(parseTimesheetDate('31/02/2026', 'DD/MM/YYYY')).toBeNull();
+    expect(parseTimesheetDate('', 'YYYY-MM-DD')).toBeNull();
+  });
+
+  test('times on the 24-hour clock or with am/pm, alone or after a date', () => {
+    expect(parseTimesheetTime('9:00')).toBe('09:00');
+    expect(parseTimesheetTime('17:30:00')).toBe('17:30');
+    expect(parseTimesheetTime('5:30 pm')).toBe('17:30');
+    expect(parseTimesheetTime('12:15AM')).toBe('00:15');
+    expect(parseTimesheetTime('9 am')).toBe('09:00');
+    expect(parseTimesheetTime('2026-01-02 22:00')).toBe('22:00');
+    expect(parseTimesheetTime('1/2/2026 9:00 AM')).toBe('09:00');
+    expect(parseTimesheetTime('25:00')).toBeNull();
+    expect(parseTimesheetTime('noon')).toBeNull();
+  });
+
+  test('hours and break minutes as numbers or as h:mm', () => {
+    expect(parseTimesheetHours('7.5')).toBe(7.5);
+    expect(parseTimesheetHours('7,5')).toBe(7.5);
+    expect(parseTimesheetHours('7:45')).toBe(7.75);
+    expect(parseTimesheetHours('seven')).toBeNull();
+    expect(parseTimesheetBreak('30')).toBe(30);
+    expect(parseTimesheetBreak('0:45')).toBe(45);
+    expect(parseTimesheetBreak('')).toBeNull();
+  });
+
+  test('guesses the date format every row reads in', () => {
+    expect(guessDateFormat(['2026-01-02', '2026-01-13'])).toBe('YYYY-MM-DD');
+    expect(guessDateFormat(['01/02/2026', '01/13/2026'])).toBe('MM/DD/YYYY');
+    expect(guessDateFormat(['02/01/2026', '13/01/2026'])).toBe('DD/MM/YYYY');
+  });
+});
+
+describe('guessTimesheetMapping', () => {
+  test('maps columns by their names', () => {
+    expect(guessTimesheetMapping(['Employee', 'Shift Date', 'Clock In', 'Clock Out', 'Unpaid Break (min)', 'Total Hours']))
+      .toEqual({ date: 1, start: 2, end: 3, breakMinutes: 4, hours: 5 });
+  });
+
+  test('a date column named for the start is still the date', () => {
+    expect(guessTimesheetMapping(['Start Date', 'Start Time', 'End Time']))
+      .toEqual({ date: 0, start: 1, end: 2, hours: null, breakMinutes: null });
+    expect(guessTimesheetMapping(['Shift Date Start', 'In', 'Out']))
+      .toEqual({ date: 0, start: 1, end: 2, hours: null, breakMinutes: null });
+  });
+
+  test('without a header reads date, start and end from the first columns', () => {
+    expect(guessTimesheetMapping(null)).toEqual({ date: 0, start: 1, end: 2, hours: null, breakMinutes: null });
+  });
+});
+
+describe('parseTimesheet', () => {
+  const mapping = { date: 0, start: 1, end: 2, hours: 3, breakMinutes: 4 };
+  const parse = (rows: string[][]) => parseTimesheet([['Date', 'In', 'Out', 'Hours', 'Break'], ...rows], mapping, 'YYYY-MM-DD', true);
+
+  test('a timed row is a shift with its break; an hours row loses the break', () => {
+    const [timed, plain] = parse([['2026-01-02', '9:00', '17:30', '', '30'], ['2026-01-03', '', '', '6', '30']]);
+    expect(timed).toMatchObject({ row: 2, date: '2026-01-02', hours: 8, issue: null });
+    expect(timed.shift).toEqual({ start: '09:00', end: '17:30', lunchMinutes: 30 });
+    expect(plain).toMatchObject({ row: 3, shift: null, rawHours: 6, hours: 5.5, breakMinutes: 30, issue: null });
+  });
+
+  test('an end before the start is the next morning', () => {
+    expect(parse([['2026-01-02', '22:00', '06:00', '', '']])[0].hours).toBe(8);
+  });
+
+  test('flags each kind of bad row', () => {
+    const issues = parse([
+      ['02/01/2026', '9:00', '17:00', '', ''],
+      ['2026-01-02', 'nine', '17:00', '', ''],
+      ['2026-01-03', '9:00', '', '', ''],
+      ['2026-01-04', '', '', '25', ''],
+      ['2026-01-05', '', '', '8', '240'],
+      ['2026-01-06', '', '', '', ''],
+    ]).map(r => r.issue);
+    expect(issues).toEqual(['date', 'start', 'incomplete', 'hours', 'break', 'noHours']);
+  });
+
+  test('a date cannot mix shifts with plain hours or run past 24 hours', () => {
+    const rows = parse([
+      ['2026-01-02', '9:00', '13:00', '', ''],
+      ['2026-01-02', '', '', '4', ''],
+      ['2026-01-03', '', '', '16', ''],
+      ['2026-01-03', '', '', '10', ''],
+    ]);
+    expect(rows.map(r => r.issue)).toEqual(['mixed', 'mixed', 'overDay', 'overDay']);
+  });
+});
+
+describe('mergeTimesheet', () => {
+  const mapping = { date: 0, start: 1, end: 2, hours: 3, breakMinutes: null };
+
+  test('replaces the hours on imported dates and keeps the rest', () => {
+    const existing: DayHours[] = [
+      { date: '2026-01-01', hours: 4 },
+      { date: '2026-01-02', hours: 3, extras: [{ id: 1, type: 'tips-cash', amount: 20 }] },
+    ];
+    const rows = parseTimesheet([
+      ['2026-01-02', '9:00', '13:00', ''],
+      ['2026-01-02', '17:00', '21:00', ''],
+      ['2026-01-05', '', '', '7.5'],
+      ['bad', '', '', '8'],
+    ], mapping, 'YYYY-MM-DD', false);
+    const merged = mergeTimesheet(existing, rows);
+
+    expect(merged.map(d => d.date)).toEqual(['2026-01-01', '2026-01-02', '2026-01-05']);
+    expect(merged[1]).toEqual({
+      date: '2026-01-02',
+      shifts: [{ start: '09:00', end: '13:00', lunchMinutes: 0 }, { start: '17:00', end: '21:00', lunchMinutes: 0 }],
+      hours: 8,
+      extras: [{ id: 1, type: 'tips-cash', amount: 20 }],
+    });
+    expect(merged[2]).toEqual({ date: '2026-01-05', hours: 7.5, lunchMinutes: 0, originalHours: 7.5 });
+  });
+
+  test('the breaks of a date\'s rows are capped at the longest break a day can carry', () => {
+    const rows = parseTimesheet([
+      ['2026-01-05', '8', '120'],
+      ['2026-01-05', '8', '120'],
+    ], { date: 0, start: null, end: null, hours: 1, breakMinutes: 2 }, 'YYYY-MM-DD', false);
+    expect(mergeTimesheet([], rows)).toEqual([{ date: '2026-01-05', hours: 12, lunchMinutes: 180, originalHours: 15 }]);
+  });
+});
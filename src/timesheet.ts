@@ -0,0 +1,204 @@
+/**
+ * Timesheet import: punches exported as CSV by an employer's scheduling app,
+ * mapped onto days of a job.
+ *
+ * Each row is a shift with a start and end time, or plain hours. Several rows
+ * on one date become a split shift. A row's break is unpaid: on a timed row it
+ * is the shift's meal break, on an hours row it comes off the hours the way the
+ * day's lunch minutes do when hours are typed in.
+ */
+
+import dayjs from "dayjs";
+import customParseFormat from "dayjs/plugin/customParseFormat";
+import { DayHours, SHIFT_TIME_ZONE, WorkShift, clampLunchMinutes, round2, shiftHours, shiftsHours } from "./calc";
+
+dayjs.extend(customParseFormat);
+
+export const TIMESHEET_FIELDS = ["date", "start", "end", "hours", "breakMinutes"] as const;
+export type TimesheetField = typeof TIMESHEET_FIELDS[number];
+
+/** The column index each field is read from, or null when the file has none. */
+export type TimesheetMapping = Record<TimesheetField, number | null>;
+
+/** Day and month are matched with or without a leading zero. */
+export const TIMESHEET_DATE_FORMATS = [
+  "YYYY-MM-DD", "YYYY/MM/DD", "MM/DD/YYYY", "DD/MM/YYYY", "DD.MM.YYYY", "DD-MM-YYYY", "MMM DD, YYYY", "DD MMM YYYY",
+];
+
+const TIME_FORMATS = ["HH:mm", "HH:mm:ss", "hh:mm A", "hh:mmA", "hh:mm:ss A", "hh A", "hhA"];
+
+/** Most breaks a row can carry, the same cap as a day's lunch minutes. */
+export const MAX_TIMESHEET_BREAK_MINUTES = 180;
+
+export type TimesheetIssue = "date" | "start" | "end" | "incomplete" | "shift" | "hours" | "break" | "noHours" | "mixed" | "overDay";
+
+export type TimesheetRow = {
+  /** Position among the file's rows, from 1, header included. */
+  row: number;
+  date: string | null;
+  shift: WorkShift | null;
+  /** Paid hours, after the break. */
+  hours: number | null;
+  /** Hours as written in an hours row, before the break. */
+  rawHours: number | null;
+  breakMinutes: number;
+  issue: TimesheetIssue | null;
+};
+
+const padDigits = (value: string) => value.replace(/\b(\d)\b/g, "0$1");
+
+const parseWith = (value: string, formats: string[]) => {
+  for (const format of formats) {
+    const parsed = dayjs(value, format, true);
+    if (parsed.isValid()) return parsed;
+  }
+  return null;
+};
+
+/** "YYYY-MM-DD" from a cell in `format`, or null. */
+export function parseTimesheetDate(value: string, format: string): string | null {
+  return parseWith(padDigits(value.trim()), [format])?.format("YYYY-MM-DD") ?? null;
+}
+
+/** "HH:mm" from a 24-hour or am/pm time, also when the cell holds a date first. */
+export function parseTimesheetTime(value: string): string | null {
+  const text = padDigits(value.trim().toUpperCase());
+  const dated = text.match(/^(.+?)[ T](\d{2}:\d{2}.*)$/);
+  const time = dated && TIMESHEET_DATE_FORMATS.some(f => dayjs(dated[1], f, true).isValid()) ? dated[2] : text;
+  return parseWith(time, TIME_FORMATS)?.format("HH:mm") ?? null;
+}
+
+/** Hours as a decimal ("7.5" or "7,5") or as hours and minutes ("7:30"). */
+export function parseTimesheetHours(value: string): number | null {
+  const text = value.trim();
+  const clock = text.match(/^(\d+):([0-5]\d)$/);
+  if (clock) return Number(clock[1]) + Number(clock[2]) / 60;
+  const n = Number(text.replace(",", "."));
+  return text !== "" && Number.isFinite(n) ? n : null;
+}
+
+/** Break minutes as a number of minutes or as hours and minutes ("0:30"). */
+export function parseTimesheetBreak(value: string): number | null {
+  const text = value.trim();
+  const clock = text.match(/^(\d+):([0-5]\d)$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]);
+  const n = Number(text.replace(",", "."));
+  return text !== "" && Number.isFinite(n) ? Math.round(n) : null;
+}
+
+/** The first format every date in `values` reads in, else the one reading the most. */
+export function guessDateFormat(values: string[]): string {
+  const filled = values.filter(v => v.trim() !== "");
+  const counts = TIMESHEET_DATE_FORMATS.map(format => filled.filter(v => parseTimesheetDate(v, format)).length);
+  const all = counts.findIndex(count => count === filled.length);
+  return TIMESHEET_DATE_FORMATS[all >= 0 ? all : counts.indexOf(Math.max(...counts))];
+}
+
+// a "Start Date" or "Shift Date End" column holds the date, not a time
+const HEADER_PATTERNS: [TimesheetField, RegExp][] = [
+  ["breakMinutes", /break|lunch|meal|unpaid|休息/i],
+  ["start", /^(?!.*(date|日期)).*(start|begin|clock.?in|time.?in|^in$|上班|開始)/i],
+  ["end", /^(?!.*(date|日期)).*(end|finish|clock.?out|time.?out|^out$|下班|結束)/i],
+  ["hours", /hour|hrs|duration|total|時數/i],
+  ["date", /date|day|日期/i],
+];
+
+/**
+ * Columns for each field from the header's names. Without a header, the first
+ * three columns are taken as date, start and end.
+ */
+export function guessTimesheetMapping(header: string[] | null): TimesheetMapping {
+  const mapping: TimesheetMapping = { date: null, start: null, end: null, hours: null, breakMinutes: null };
+  if (!header) return { ...mapping, date: 0, start: 1, end: 2 };
+  header.forEach((name, column) => {
+    const match = HEADER_PATTERNS.find(([field, pattern]) => mapping[field] == null && pattern.test(name));
+    if (match) mapping[match[0]] = column;
+  });
+  return mapping;
+}
+
+function readRow(cells: string[], row: number, mapping: TimesheetMapping, dateFormat: string, timeZone: string): TimesheetRow {
+  const cell = (field: TimesheetField) => (mapping[field] == null ? "" : (cells[mapping[field] as number] ?? "").trim());
+  const out: TimesheetRow = { row, date: null, shift: null, hours: null, rawHours: null, breakMinutes: 0, issue: null };
+  const fail = (issue: TimesheetIssue) => ({ ...out, issue });
+
+  out.date = parseTimesheetDate(cell("date"), dateFormat);
+  if (!out.date) return fail("date");
+  const start = cell("start") ? parseTimesheetTime(cell("start")) : null;
+  if (cell("start") && !start) return fail("start");
+  const end = cell("end") ? parseTimesheetTime(cell("end")) : null;
+  if (cell("end") && !end) return fail("end");
+  const breakMinutes = cell("breakMinutes") ? parseTimesheetBreak(cell("breakMinutes")) : 0;
+  if (breakMinutes == null || breakMinutes < 0 || breakMinutes > MAX_TIMESHEET_BREAK_MINUTES) return fail("break");
+  out.breakMinutes = breakMinutes;
+
+  if (start && end) {
+    out.shift = { start, end, lunchMinutes: breakMinutes };
+    out.hours = shiftHours(out.date, start, end, breakMinutes, timeZone);
+    return out.hours == null ? fail("shift") : out;
+  }
+  if (start || end) return fail("incomplete");
+  if (!cell("hours")) return fail("noHours");
+  const rawHours = parseTimesheetHours(cell("hours"));
+  if (rawHours == null || rawHours < 0 || rawHours > 24) return fail("hours");
+  out.rawHours = rawHours;
+  out.hours = round2(rawHours - breakMinutes / 60);
+  return out.hours < 0 ? fail("break") : out;
+}
+
+/**
+ * Every data row read and checked, with shift times in `timeZone`. A date
+ * cannot mix timed and hours rows, nor add up to more than 24 hours; rows
+ * breaking either are flagged with the rest of their date.
+ */
+export function parseTimesheet(
+  rows: string[][],
+  mapping: TimesheetMapping,
+  dateFormat: string,
+  hasHeader: boolean,
+  timeZone = SHIFT_TIME_ZONE
+): TimesheetRow[] {
+  const read = rows.slice(hasHeader ? 1 : 0)
+    .map((cells, i) => readRow(cells, i + (hasHeader ? 2 : 1), mapping, dateFormat, timeZone));
+  const byDate = new Map<string, TimesheetRow[]>();
+  read.filter(r => !r.issue).forEach(r => byDate.set(r.date as string, [...(byDate.get(r.date as string) ?? []), r]));
+  byDate.forEach(dayRows => {
+    const timed = dayRows.filter(r => r.shift);
+    if (timed.length > 0 && timed.length < dayRows.length) {
+      dayRows.forEach(r => (r.issue = "mixed"));
+    } else if (dayRows.reduce((sum, r) => sum + (r.hours ?? 0), 0) > 24) {
+      dayRows.forEach(r => (r.issue = "overDay"));
+    }
+  });
+  return read;
+}
+
+/**
+ * `dayHours` with each imported date's hours replaced by its rows. Extra
+ * earnings and holiday choices already on a date stay; dates the file does not
+ * mention are left alone. Rows with an issue are skipped.
+ *
+ * A date of plain hours keeps the rows' paid hours. Its break is their breaks
+ * added up, capped at the longest a day can carry; minutes past the cap stay
+ * off the paid hours all the same.
+ */
+export function mergeTimesheet(dayHours: DayHours[], rows: TimesheetRow[], timeZone = SHIFT_TIME_ZONE): DayHours[] {
+  const byDate = new Map<string, TimesheetRow[]>();
+  rows.filter(r => !r.issue && r.date).forEach(r => byDate.set(r.date as string, [...(byDate.get(r.date as string) ?? []), r]));
+  const imported = Array.from(byDate.entries()).map(([date, dayRows]): DayHours => {
+    const { extras, holidayOption, substituteDate } = dayHours.find(d => d.date === date) ?? {};
+    const kept = {
+      ...(extras?.length ? { extras } : {}),
+      ...(holidayOption ? { holidayOption } : {}),
+      ...(substituteDate ? { substituteDate } : {}),
+    };
+    if (dayRows[0].shift) {
+      const shifts = dayRows.map(r => r.shift as WorkShift);
+      return { date, shifts, hours: shiftsHours(date, shifts, timeZone), ...kept };
+    }
+    const hours = round2(dayRows.reduce((sum, r) => sum + (r.hours ?? 0), 0));
+    const lunchMinutes = clampLunchMinutes(dayRows.reduce((sum, r) => sum + r.breakMinutes, 0));
+    return { date, hours, lunchMinutes, originalHours: round2(hours + lunchMinutes / 60), ...kept };
+  });
+  return [...dayHours.filter(d => !byDate.has(d.date)), ...imported];
+}